@@ -0,0 +1,557 @@
+/**
+ * Framework adapters for webhook endpoints and checkout routes
+ *
+ * Each webhook adapter reads the request body exactly as it was sent, passes
+ * it to webhook.process() and writes the `{ status, body }` result back with
+ * the framework's response API. The adapters only rely on the shape of the
+ * framework objects, so no framework is a dependency of this package.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { CheckoutInput } from "./types.js";
+import { pay as defaultPay, type Pay } from "./pay.js";
+import {
+  webhook as defaultWebhook,
+  type Webhook,
+  type WebhookHeaders,
+  type WebhookResponse,
+} from "./webhooks.js";
+import { fromBase64 } from "./crypto.js";
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  NotFoundError,
+  PayLayerError,
+} from "./errors.js";
+
+/**
+ * Settings shared by the webhook adapters
+ */
+export interface WebhookAdapterOptions {
+  /** Webhook API that processes requests (defaults to the default `webhook` export) */
+  webhook?: Pick<Webhook, "process">;
+}
+
+/**
+ * Settings for a route that starts a checkout and redirects to it
+ */
+export interface CheckoutRouteOptions<TRequest> {
+  /**
+   * Builds the checkout from the request
+   * Derive amounts and plans on the server, never from values the browser sends.
+   */
+  getCheckoutInput(request: TRequest): CheckoutInput | Promise<CheckoutInput>;
+  /** Pay API that creates the checkout (defaults to the default `pay` export) */
+  pay?: Pick<Pay, "checkout">;
+}
+
+/**
+ * Settings for a route that redirects to the billing portal
+ */
+export interface PortalRouteOptions<TRequest> {
+  /** Gets the signed-in customer's email from the request */
+  getEmail(request: TRequest): string | Promise<string>;
+  /** Pay API that creates the portal URL (defaults to the default `pay` export) */
+  pay?: Pick<Pay, "portal">;
+}
+
+/**
+ * Node request as passed by node:http, Express and the Next.js Pages Router
+ */
+export type NodeWebhookRequest = IncomingMessage & {
+  body?: unknown;
+  rawBody?: string | Buffer;
+};
+
+/**
+ * Koa context fields used by the Koa adapter
+ */
+export interface KoaWebhookContext {
+  req: IncomingMessage;
+  request: { body?: unknown; rawBody?: string };
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Hono context fields used by the Hono adapter
+ */
+export interface HonoWebhookContext {
+  req: { raw: Request };
+}
+
+/**
+ * Fastify instance methods used by the Fastify plugin
+ */
+export interface FastifyWebhookInstance {
+  removeAllContentTypeParsers(): void;
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: "buffer" },
+    parser: (
+      request: unknown,
+      body: Buffer,
+      done: (error: Error | null, body?: Buffer) => void
+    ) => void
+  ): void;
+  post(
+    path: string,
+    handler: (
+      request: { body: unknown; headers: WebhookHeaders },
+      reply: {
+        code(status: number): { send(payload: unknown): unknown };
+      }
+    ) => Promise<unknown>
+  ): unknown;
+}
+
+/**
+ * API Gateway (REST and HTTP API) or Lambda function URL event fields used by the Lambda adapter
+ */
+export interface LambdaWebhookEvent {
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  headers?: Record<string, string | undefined> | null;
+}
+
+/**
+ * Response returned to API Gateway or the Lambda function URL
+ */
+export interface LambdaWebhookResult {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Settings for the Fastify webhook plugin
+ */
+export interface FastifyWebhookOptions extends WebhookAdapterOptions {
+  /** Route path for the webhook endpoint (defaults to "/webhooks/paylayer") */
+  path?: string;
+}
+
+const DEFAULT_FASTIFY_WEBHOOK_PATH = "/webhooks/paylayer";
+
+/**
+ * Creates a node:http request listener for a webhook endpoint
+ *
+ * The body is read from the request stream. A body captured earlier as a
+ * Buffer or string (express.raw(), express.text()) or as `rawBody` is used
+ * instead, since the stream can only be read once.
+ *
+ * @example
+ * ```ts
+ * http.createServer(createNodeWebhookHandler()).listen(3000);
+ * ```
+ */
+export function createNodeWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (req: NodeWebhookRequest, res: ServerResponse) => Promise<void> {
+  const webhook = options.webhook ?? defaultWebhook;
+  return async (req, res) => {
+    let result: WebhookResponse;
+    try {
+      const rawBody = await readNodeRawBody(req, req.body, req.rawBody);
+      result = await webhook.process({ body: rawBody, headers: req.headers });
+    } catch (error) {
+      logAdapterError("webhook", error);
+      result = { status: 500, body: { received: false } };
+    }
+    sendNodeJson(res, result.status, result.body);
+  };
+}
+
+/**
+ * Creates an Express route handler for a webhook endpoint
+ *
+ * Register it before express.json(), or behind express.raw({ type: "application/json" });
+ * a body that express.json() has already parsed cannot be verified.
+ *
+ * @example
+ * ```ts
+ * app.post("/webhooks/paylayer", createExpressWebhookHandler());
+ * ```
+ */
+export function createExpressWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (req: NodeWebhookRequest, res: ServerResponse) => Promise<void> {
+  return createNodeWebhookHandler(options);
+}
+
+/**
+ * Creates a Next.js Pages Router API route for a webhook endpoint
+ *
+ * Next.js parses the body by default, so the route must also export
+ * `config = { api: { bodyParser: false } }`.
+ *
+ * @example
+ * ```ts
+ * // pages/api/webhooks/paylayer.ts
+ * export const config = { api: { bodyParser: false } };
+ * export default createNextPagesWebhookHandler();
+ * ```
+ */
+export function createNextPagesWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (req: NodeWebhookRequest, res: ServerResponse) => Promise<void> {
+  return createNodeWebhookHandler(options);
+}
+
+/**
+ * Creates a Fetch API handler for a webhook endpoint (Remix, Bun, Deno, Cloudflare Workers)
+ *
+ * @example
+ * ```ts
+ * Bun.serve({ fetch: createFetchWebhookHandler() });
+ * ```
+ */
+export function createFetchWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (request: Request) => Promise<Response> {
+  const webhook = options.webhook ?? defaultWebhook;
+  return async (request) => {
+    let result: WebhookResponse;
+    try {
+      result = await webhook.process(request);
+    } catch (error) {
+      logAdapterError("webhook", error);
+      result = { status: 500, body: { received: false } };
+    }
+    return fetchJson(result.status, result.body);
+  };
+}
+
+/**
+ * Creates a Next.js App Router route handler for a webhook endpoint
+ *
+ * @example
+ * ```ts
+ * // app/api/webhooks/paylayer/route.ts
+ * export const POST = createNextAppWebhookHandler();
+ * ```
+ */
+export function createNextAppWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (request: Request) => Promise<Response> {
+  return createFetchWebhookHandler(options);
+}
+
+/**
+ * Creates a Hono route handler for a webhook endpoint
+ *
+ * @example
+ * ```ts
+ * app.post("/webhooks/paylayer", createHonoWebhookHandler());
+ * ```
+ */
+export function createHonoWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (c: HonoWebhookContext) => Promise<Response> {
+  const handler = createFetchWebhookHandler(options);
+  return (c) => handler(c.req.raw);
+}
+
+/**
+ * Creates a Koa middleware for a webhook endpoint
+ *
+ * Uses ctx.request.rawBody when koa-bodyparser has run, otherwise reads the request stream.
+ *
+ * @example
+ * ```ts
+ * router.post("/webhooks/paylayer", createKoaWebhookMiddleware());
+ * ```
+ */
+export function createKoaWebhookMiddleware(
+  options: WebhookAdapterOptions = {}
+): (ctx: KoaWebhookContext) => Promise<void> {
+  const webhook = options.webhook ?? defaultWebhook;
+  return async (ctx) => {
+    let result: WebhookResponse;
+    try {
+      const rawBody = await readNodeRawBody(
+        ctx.req,
+        ctx.request.body,
+        ctx.request.rawBody
+      );
+      result = await webhook.process({
+        body: rawBody,
+        headers: ctx.req.headers,
+      });
+    } catch (error) {
+      logAdapterError("webhook", error);
+      result = { status: 500, body: { received: false } };
+    }
+    ctx.status = result.status;
+    ctx.body = result.body;
+  };
+}
+
+/**
+ * Creates a Fastify plugin that registers a webhook endpoint
+ *
+ * The plugin replaces Fastify's JSON parser with a raw Buffer parser. Fastify
+ * scopes parsers to the plugin, so the application's other routes keep parsing JSON.
+ *
+ * @example
+ * ```ts
+ * fastify.register(createFastifyWebhookPlugin({ path: "/webhooks/paylayer" }));
+ * ```
+ */
+export function createFastifyWebhookPlugin(
+  options: FastifyWebhookOptions = {}
+): (fastify: FastifyWebhookInstance) => Promise<void> {
+  const webhook = options.webhook ?? defaultWebhook;
+  const path = options.path ?? DEFAULT_FASTIFY_WEBHOOK_PATH;
+  return async (fastify) => {
+    fastify.removeAllContentTypeParsers();
+    fastify.addContentTypeParser(
+      "*",
+      { parseAs: "buffer" },
+      (_request, body, done) => done(null, body)
+    );
+    fastify.post(path, async (request, reply) => {
+      let result: WebhookResponse;
+      try {
+        result = await webhook.process({
+          body: request.body,
+          headers: request.headers,
+        });
+      } catch (error) {
+        logAdapterError("webhook", error);
+        result = { status: 500, body: { received: false } };
+      }
+      return reply.code(result.status).send(result.body);
+    });
+  };
+}
+
+/**
+ * Creates an AWS Lambda handler for a webhook endpoint behind API Gateway or a function URL
+ *
+ * Binary bodies arrive base64-encoded; they are decoded to the exact bytes that were signed.
+ *
+ * @example
+ * ```ts
+ * export const handler = createLambdaWebhookHandler();
+ * ```
+ */
+export function createLambdaWebhookHandler(
+  options: WebhookAdapterOptions = {}
+): (event: LambdaWebhookEvent) => Promise<LambdaWebhookResult> {
+  const webhook = options.webhook ?? defaultWebhook;
+  return async (event) => {
+    let result: WebhookResponse;
+    try {
+      const body = event.body ?? "";
+      result = await webhook.process({
+        body: event.isBase64Encoded ? fromBase64(body) : body,
+        headers: event.headers ?? {},
+      });
+    } catch (error) {
+      logAdapterError("webhook", error);
+      result = { status: 500, body: { received: false } };
+    }
+    return {
+      statusCode: result.status,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(result.body),
+    };
+  };
+}
+
+/**
+ * Creates a node:http, Express or Next.js Pages Router handler that starts a
+ * checkout and redirects the browser to it
+ *
+ * @example
+ * ```ts
+ * app.post("/checkout/pro", createNodeCheckoutHandler({
+ *   getCheckoutInput: (req) => ({
+ *     plan: "pro-monthly",
+ *     currency: "USD",
+ *     email: req.user.email,
+ *     successUrl: "https://example.com/welcome",
+ *   }),
+ * }));
+ * ```
+ */
+export function createNodeCheckoutHandler<
+  TRequest extends IncomingMessage = IncomingMessage,
+>(
+  options: CheckoutRouteOptions<TRequest>
+): (req: TRequest, res: ServerResponse) => Promise<void> {
+  const pay = options.pay ?? defaultPay;
+  return async (req, res) => {
+    try {
+      const checkout = await pay.checkout(await options.getCheckoutInput(req));
+      sendNodeRedirect(res, checkout.url);
+    } catch (error) {
+      const { status, message } = toErrorResponse("checkout", error);
+      sendNodeJson(res, status, { error: message });
+    }
+  };
+}
+
+/**
+ * Creates a Fetch API handler (Next.js App Router, Hono, Remix, Bun) that
+ * starts a checkout and redirects the browser to it
+ *
+ * @example
+ * ```ts
+ * export const POST = createFetchCheckoutHandler({
+ *   getCheckoutInput: async (request) => ({
+ *     plan: "pro-monthly",
+ *     currency: "USD",
+ *     email: await getSessionEmail(request),
+ *   }),
+ * });
+ * ```
+ */
+export function createFetchCheckoutHandler(
+  options: CheckoutRouteOptions<Request>
+): (request: Request) => Promise<Response> {
+  const pay = options.pay ?? defaultPay;
+  return async (request) => {
+    try {
+      const checkout = await pay.checkout(
+        await options.getCheckoutInput(request)
+      );
+      return fetchRedirect(checkout.url);
+    } catch (error) {
+      const { status, message } = toErrorResponse("checkout", error);
+      return fetchJson(status, { error: message });
+    }
+  };
+}
+
+/**
+ * Creates a node:http, Express or Next.js Pages Router handler that redirects
+ * the browser to the customer's billing portal
+ *
+ * @example
+ * ```ts
+ * app.get("/billing", createNodePortalHandler({ getEmail: (req) => req.user.email }));
+ * ```
+ */
+export function createNodePortalHandler<
+  TRequest extends IncomingMessage = IncomingMessage,
+>(
+  options: PortalRouteOptions<TRequest>
+): (req: TRequest, res: ServerResponse) => Promise<void> {
+  const pay = options.pay ?? defaultPay;
+  return async (req, res) => {
+    try {
+      const url = await pay.portal({ email: await options.getEmail(req) });
+      sendNodeRedirect(res, url);
+    } catch (error) {
+      const { status, message } = toErrorResponse("portal", error);
+      sendNodeJson(res, status, { error: message });
+    }
+  };
+}
+
+/**
+ * Creates a Fetch API handler (Next.js App Router, Hono, Remix, Bun) that
+ * redirects the browser to the customer's billing portal
+ *
+ * @example
+ * ```ts
+ * export const GET = createFetchPortalHandler({ getEmail: getSessionEmail });
+ * ```
+ */
+export function createFetchPortalHandler(
+  options: PortalRouteOptions<Request>
+): (request: Request) => Promise<Response> {
+  const pay = options.pay ?? defaultPay;
+  return async (request) => {
+    try {
+      const url = await pay.portal({ email: await options.getEmail(request) });
+      return fetchRedirect(url);
+    } catch (error) {
+      const { status, message } = toErrorResponse("portal", error);
+      return fetchJson(status, { error: message });
+    }
+  };
+}
+
+/**
+ * Gets the unparsed request body, reading the stream if nothing consumed it yet
+ */
+async function readNodeRawBody(
+  req: IncomingMessage,
+  body: unknown,
+  rawBody: string | Buffer | undefined
+): Promise<Buffer> {
+  if (rawBody) {
+    return Buffer.from(rawBody);
+  }
+  if (typeof body === "string" || Buffer.isBuffer(body)) {
+    return Buffer.from(body);
+  }
+  if (body !== undefined || req.readableEnded) {
+    throw new ConfigurationError(
+      "The webhook request body was parsed before PayLayer could read it, so its signature cannot be verified. Register the webhook route before any JSON body parser, or capture the raw body (express.raw({ type: 'application/json' }), bodyParser: false in Next.js)."
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function sendNodeJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+function sendNodeRedirect(res: ServerResponse, url: string) {
+  res.statusCode = 303;
+  res.setHeader("Location", url);
+  res.end();
+}
+
+function fetchJson(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * 303 makes the browser follow the redirect with GET, also after a form POST
+ */
+function fetchRedirect(url: string): Response {
+  return new Response(null, { status: 303, headers: { Location: url } });
+}
+
+/**
+ * Maps a route error to a response; unexpected errors are logged and hidden
+ */
+function toErrorResponse(
+  route: string,
+  error: unknown
+): { status: number; message: string } {
+  if (error instanceof InvalidRequestError) {
+    return { status: 400, message: error.message };
+  }
+  if (error instanceof NotFoundError) {
+    return { status: 404, message: error.message };
+  }
+  logAdapterError(route, error);
+  if (
+    error instanceof PayLayerError &&
+    !(error instanceof ConfigurationError)
+  ) {
+    return { status: 502, message: "Payment provider request failed" };
+  }
+  return { status: 500, message: "Internal server error" };
+}
+
+function logAdapterError(route: string, error: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(`PayLayer ${route} route error:`, error);
+}
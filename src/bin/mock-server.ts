@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/**
+ * paylayer-mock-server - runs the mock checkout server from the command line
+ *
+ * Apps in other processes reach the server's store by setting
+ * PAYLAYER_MOCK_SERVER_URL (or the mock provider's serverUrl option).
+ *
+ * Usage: paylayer-mock-server [--port 4242] [--host 127.0.0.1]
+ *          [--webhook-url http://localhost:3000/webhooks] [--webhook-secret secret]
+ */
+
+import { parseArgs } from "node:util";
+import { startMockCheckoutServer } from "../providers/mock-server.js";
+import { readEnv } from "../providers/env.js";
+
+const USAGE = `Usage: paylayer-mock-server [options]
+
+Options:
+  --port <port>             Port to listen on (default: 4242)
+  --host <host>             Interface to listen on (default: 127.0.0.1)
+  --webhook-url <url>       Endpoint that receives checkout and portal webhooks
+  --webhook-secret <secret> Signs posted webhooks (default: PAYLAYER_MOCK_WEBHOOK_SECRET)
+  --help                    Show this message`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string" },
+      host: { type: "string" },
+      "webhook-url": { type: "string" },
+      "webhook-secret": { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = values.port === undefined ? undefined : Number(values.port);
+  if (port !== undefined && !Number.isInteger(port)) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+
+  // With several secrets configured for rotation, sign with the newest
+  const webhookSecret =
+    values["webhook-secret"] ??
+    readEnv("PAYLAYER_MOCK_WEBHOOK_SECRET")?.split(",")[0].trim();
+
+  const server = await startMockCheckoutServer({
+    port,
+    host: values.host,
+    webhookUrl: values["webhook-url"],
+    webhookSecret: webhookSecret || undefined,
+  });
+
+  console.log(`Mock checkout server listening on ${server.url}`);
+  console.log(`Set PAYLAYER_MOCK_SERVER_URL=${server.url} in your app`);
+  if (values["webhook-url"]) {
+    console.log(
+      `Posting ${webhookSecret ? "signed" : "unsigned"} webhooks to ${values["webhook-url"]}`
+    );
+  }
+
+  const shutdown = () => {
+    server.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/**
+ * PayLayer client - independent pay and webhook APIs for one or more providers
+ */
+
+import type { PaymentProvider } from "./providers/types.js";
+import {
+  createProvider,
+  getConfiguredWebhookSecrets,
+  type ProviderConfigs,
+  type ProviderName,
+} from "./providers/factory.js";
+import { createPay, type Pay } from "./pay.js";
+import {
+  createWebhook,
+  type Webhook,
+  type WebhookOptions,
+} from "./webhooks.js";
+import { ConfigurationError } from "./errors.js";
+
+/**
+ * Options for createPayLayer()
+ */
+export interface PayLayerConfig {
+  /** Credentials for each provider the client should use */
+  providers: ProviderConfigs;
+  /** Provider used by client.pay (required when more than one provider is configured) */
+  default?: ProviderName;
+  /** Webhook processing options (event store, retention) */
+  webhook?: WebhookOptions;
+}
+
+/**
+ * A PayLayer client with its own providers, pay API and webhook handlers
+ */
+export interface PayLayerClient {
+  /** Pay API using the default provider */
+  pay: Pay;
+  /** Webhook API that routes each request to the provider that sent it */
+  webhook: Webhook;
+  /** Names of the configured providers */
+  providers: ProviderName[];
+  /**
+   * Gets a pay API bound to a specific configured provider
+   *
+   * @example
+   * ```ts
+   * const result = await client.use('paddle').charge({ amount: 29.99, currency: 'EUR' });
+   * ```
+   */
+  use(provider: ProviderName): Pay;
+}
+
+/**
+ * Creates a PayLayer client from explicit provider credentials
+ *
+ * Unlike the default `pay` and `webhook` exports, a client never reads provider
+ * credentials from environment variables, so several clients (or several providers
+ * in one client) can run side by side in the same process.
+ *
+ * @param config - Provider credentials and the default provider
+ * @returns Client with pay and webhook APIs
+ *
+ * @example
+ * ```ts
+ * const paylayer = createPayLayer({
+ *   providers: {
+ *     stripe: { secretKey: 'sk_test_...', webhookSecret: 'whsec_...' },
+ *     paddle: { apiKey: 'pdl_...', webhookSecret: 'pdl_ntfset_...', sandbox: true },
+ *   },
+ *   default: 'stripe',
+ * });
+ *
+ * await paylayer.pay.charge({ amount: 29.99, currency: 'USD' });
+ * await paylayer.use('paddle').charge({ amount: 29.99, currency: 'EUR' });
+ * ```
+ */
+export function createPayLayer(config: PayLayerConfig): PayLayerClient {
+  const providerNames = (
+    Object.keys(config.providers) as ProviderName[]
+  ).filter((name) => config.providers[name] !== undefined);
+  if (providerNames.length === 0) {
+    throw new ConfigurationError("At least one provider must be configured");
+  }
+
+  const defaultName =
+    config.default ??
+    (providerNames.length === 1 ? providerNames[0] : undefined);
+  if (!defaultName) {
+    throw new ConfigurationError(
+      "A default provider is required when more than one provider is configured"
+    );
+  }
+  if (!providerNames.includes(defaultName)) {
+    throw new ConfigurationError(
+      `Default provider "${defaultName}" is not configured`
+    );
+  }
+
+  const instances = new Map<ProviderName, PaymentProvider>();
+  for (const name of providerNames) {
+    instances.set(name, createProvider(name, config.providers[name]!));
+  }
+
+  const getInstance = (name: ProviderName): PaymentProvider => {
+    const instance = instances.get(name);
+    if (!instance) {
+      throw new ConfigurationError(`Provider "${name}" is not configured`);
+    }
+    return instance;
+  };
+
+  const pays = new Map<ProviderName, Pay>();
+  const use = (name: ProviderName): Pay => {
+    const instance = getInstance(name);
+    if (!pays.has(name)) {
+      pays.set(
+        name,
+        createPay(() => instance)
+      );
+    }
+    return pays.get(name)!;
+  };
+
+  const webhook = createWebhook(
+    {
+      resolve(detectedProvider) {
+        const providerName =
+          detectedProvider && instances.has(detectedProvider)
+            ? detectedProvider
+            : defaultName;
+        return {
+          providerName,
+          provider: getInstance(providerName),
+          webhookSecrets: getConfiguredWebhookSecrets(
+            providerName,
+            config.providers
+          ),
+        };
+      },
+    },
+    config.webhook
+  );
+
+  return {
+    pay: use(defaultName),
+    webhook,
+    providers: providerNames,
+    use,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Hashing, HMAC and encoding helpers that run on Node.js and edge runtimes
+ *
+ * WebCrypto (`crypto.subtle`) is used when the runtime provides it, as Cloudflare
+ * Workers, Vercel Edge, Deno and Node.js 20+ do. Otherwise the WebCrypto
+ * implementation of node:crypto is loaded on first use, so edge bundles never
+ * have to resolve Node.js modules.
+ */
+
+import type { webcrypto } from "node:crypto";
+
+/**
+ * Raw bytes or UTF-8 text
+ */
+export type BinaryInput = string | Uint8Array;
+
+let webCrypto: Promise<webcrypto.Crypto> | undefined;
+
+/**
+ * Gets the runtime's WebCrypto implementation
+ */
+export function getWebCrypto(): Promise<webcrypto.Crypto> {
+  if (!webCrypto) {
+    const globalCrypto = (globalThis as { crypto?: webcrypto.Crypto }).crypto;
+    webCrypto = globalCrypto?.subtle
+      ? Promise.resolve(globalCrypto)
+      : import("node:crypto").then(
+          (nodeCrypto) => nodeCrypto.webcrypto as webcrypto.Crypto
+        );
+  }
+  return webCrypto;
+}
+
+/**
+ * Encodes text as UTF-8; bytes are returned unchanged
+ */
+export function toBytes(input: BinaryInput): Uint8Array {
+  return typeof input === "string" ? new TextEncoder().encode(input) : input;
+}
+
+/**
+ * Decodes UTF-8 bytes; text is returned unchanged
+ */
+export function toText(input: BinaryInput): string {
+  return typeof input === "string" ? input : new TextDecoder().decode(input);
+}
+
+/**
+ * Computes an HMAC-SHA256
+ *
+ * @param key - Secret key, as UTF-8 text or raw bytes
+ * @param data - Signed content, as UTF-8 text or raw bytes
+ */
+export async function hmacSha256(
+  key: BinaryInput,
+  data: BinaryInput
+): Promise<Uint8Array> {
+  const { subtle } = await getWebCrypto();
+  const cryptoKey = await subtle.importKey(
+    "raw",
+    toBytes(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await subtle.sign("HMAC", cryptoKey, toBytes(data)));
+}
+
+/**
+ * Computes a SHA-256 digest
+ */
+export async function sha256(data: BinaryInput): Promise<Uint8Array> {
+  const { subtle } = await getWebCrypto();
+  return new Uint8Array(await subtle.digest("SHA-256", toBytes(data)));
+}
+
+/**
+ * Generates cryptographically random bytes
+ */
+export async function randomBytes(length: number): Promise<Uint8Array> {
+  const crypto = await getWebCrypto();
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Generates a random version 4 UUID
+ */
+export async function randomUUID(): Promise<string> {
+  const crypto = await getWebCrypto();
+  return crypto.randomUUID();
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 text, returning empty bytes if it is not valid base64
+ */
+export function fromBase64(base64: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch {
+    return new Uint8Array(0);
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Compares two byte arrays in time that depends only on their length
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a[i] ^ b[i];
+  }
+  return result === 0;
+}
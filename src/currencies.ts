@@ -0,0 +1,46 @@
+/**
+ * Currency metadata based on ISO 4217
+ *
+ * Providers exchange amounts in the currency's minor unit (cents for USD, yen for JPY,
+ * fils for KWD). The exponent is the number of decimal places between the major and
+ * minor unit, so converting must look it up instead of assuming a factor of 100.
+ */
+
+import type { CurrencyCode } from "./types.js";
+
+/**
+ * Default exponent for currencies not listed in CURRENCY_EXPONENTS
+ */
+export const DEFAULT_CURRENCY_EXPONENT = 2;
+
+/**
+ * Minor-unit exponents for currencies that do not use two decimal places
+ * Every other currency in the Currency enum uses DEFAULT_CURRENCY_EXPONENT
+ */
+export const CURRENCY_EXPONENTS: Partial<Record<CurrencyCode, number>> = {
+  // Zero-decimal currencies
+  BIF: 0, // Burundian Franc
+  CLP: 0, // Chilean Peso
+  DJF: 0, // Djiboutian Franc
+  GNF: 0, // Guinean Franc
+  ISK: 0, // Icelandic Króna
+  JPY: 0, // Japanese Yen
+  KMF: 0, // Comorian Franc
+  KRW: 0, // South Korean Won
+  PYG: 0, // Paraguayan Guaraní
+  RWF: 0, // Rwandan Franc
+  UGX: 0, // Ugandan Shilling
+  VND: 0, // Vietnamese Dong
+  VUV: 0, // Vanuatu Vatu
+  XAF: 0, // Central African CFA Franc
+  XOF: 0, // West African CFA Franc
+  XPF: 0, // CFP Franc
+
+  // Three-decimal currencies
+  BHD: 3, // Bahraini Dinar
+  IQD: 3, // Iraqi Dinar
+  JOD: 3, // Jordanian Dinar
+  KWD: 3, // Kuwaiti Dinar
+  OMR: 3, // Omani Rial
+  TND: 3, // Tunisian Dinar
+};
@@ -0,0 +1,150 @@
+/**
+ * Error classes thrown by PayLayer
+ *
+ * Provider failures are mapped to these classes so callers can branch on
+ * `instanceof` instead of matching provider-specific error messages.
+ */
+
+/**
+ * Details attached to a PayLayer error
+ */
+export interface PayLayerErrorOptions {
+  /** Provider that produced the error */
+  provider?: string;
+  /** HTTP status returned by the provider API */
+  status?: number;
+  /** Provider error code (e.g. Stripe decline_code, Paddle error code, PayPal issue) */
+  code?: string;
+  /** Provider request ID, useful when contacting provider support */
+  requestId?: string;
+  /** Raw error body returned by the provider */
+  raw?: unknown;
+  /** Underlying error, e.g. a network failure */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by PayLayer
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await pay.charge({ amount: 29.99, currency: "USD" });
+ * } catch (error) {
+ *   if (error instanceof CardDeclinedError) {
+ *     console.log("Declined:", error.code);
+ *   }
+ * }
+ * ```
+ */
+export class PayLayerError extends Error {
+  readonly provider?: string;
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly raw?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: PayLayerErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.provider = options.provider;
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.raw = options.raw;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The payment method was declined
+ */
+export class CardDeclinedError extends PayLayerError {}
+
+/**
+ * The provider rejected the credentials (invalid, expired or missing permissions)
+ */
+export class AuthenticationError extends PayLayerError {}
+
+/**
+ * Too many requests were sent to the provider
+ */
+export class RateLimitError extends PayLayerError {}
+
+/**
+ * The requested resource does not exist
+ */
+export class NotFoundError extends PayLayerError {}
+
+/**
+ * The provider rejected the request parameters
+ */
+export class InvalidRequestError extends PayLayerError {}
+
+/**
+ * The provider could not be reached or failed with a server error
+ */
+export class ProviderUnavailableError extends PayLayerError {}
+
+/**
+ * PayLayer or the provider account is missing required configuration
+ */
+export class ConfigurationError extends PayLayerError {}
+
+/**
+ * Creates the error class matching a provider API response
+ *
+ * @param message - Error message
+ * @param options - Error details; status picks the class
+ * @param declined - Set when the provider reported a payment decline
+ */
+export function createProviderError(
+  message: string,
+  options: PayLayerErrorOptions,
+  declined = false
+): PayLayerError {
+  if (declined) {
+    return new CardDeclinedError(message, options);
+  }
+
+  const status = options.status ?? 0;
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 402) {
+    return new CardDeclinedError(message, options);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, options);
+  }
+  if (status >= 500) {
+    return new ProviderUnavailableError(message, options);
+  }
+  if (status >= 400) {
+    return new InvalidRequestError(message, options);
+  }
+  return new PayLayerError(message, options);
+}
+
+/**
+ * Replaces an error's message while keeping its PayLayer error class and details
+ * Used when a provider adds context to a failed API call
+ */
+export function withErrorMessage(error: unknown, message: string): Error {
+  if (error instanceof PayLayerError) {
+    const ErrorClass = error.constructor as typeof PayLayerError;
+    return new ErrorClass(message, {
+      provider: error.provider,
+      status: error.status,
+      code: error.code,
+      requestId: error.requestId,
+      raw: error.raw,
+      cause: error,
+    });
+  }
+  return new Error(message);
+}
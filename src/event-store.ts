@@ -0,0 +1,336 @@
+/**
+ * Event stores remember which webhook events were already processed, so provider
+ * retries of the same event do not run handlers twice
+ */
+
+/**
+ * Default retention window for processed event IDs (3 days, the longest
+ * retry window among supported providers)
+ */
+export const DEFAULT_EVENT_RETENTION_SECONDS = 3 * 24 * 60 * 60;
+
+/**
+ * How long an in-flight claim blocks other deliveries in stores that outlive
+ * the process, so a crash while handlers run doesn't block the event for good
+ */
+export const DEFAULT_CLAIM_LEASE_SECONDS = 10 * 60;
+
+/**
+ * Outcome of claiming an event
+ * - claimed: the caller now processes the event
+ * - processing: another delivery of the event is still being processed
+ * - processed: the event was already processed
+ */
+export type EventClaim = "claimed" | "processing" | "processed";
+
+/**
+ * Storage for processed webhook event IDs
+ *
+ * Implement this interface to share deduplication state between processes,
+ * e.g. on top of Redis or a database table with a unique key.
+ */
+export interface EventStore {
+  /**
+   * Claims an event for processing if it has not been seen within the retention window
+   *
+   * Must be atomic: when two deliveries of the same event race, only one may claim it.
+   * Stores that implement complete() should report "processing" for events
+   * claimed but not yet completed; `true` and `false` mean "claimed" and "processed".
+   *
+   * @param key - Provider-scoped event key (e.g. "stripe:evt_123")
+   * @param ttlSeconds - How long to remember the event
+   * @returns How the claim went
+   */
+  claim(
+    key: string,
+    ttlSeconds: number
+  ): EventClaim | boolean | Promise<EventClaim | boolean>;
+
+  /**
+   * Records a claimed event as processed
+   * Called once its handlers succeed; without it, claim() is expected to
+   * record the event as processed right away
+   *
+   * @param key - Key previously passed to claim()
+   * @param ttlSeconds - How long to remember the event
+   */
+  complete?(key: string, ttlSeconds: number): void | Promise<void>;
+
+  /**
+   * Forgets a claimed event so a redelivery is processed again
+   * Called when handlers fail for an event
+   *
+   * @param key - Key previously passed to claim()
+   */
+  release(key: string): void | Promise<void>;
+}
+
+/**
+ * Creates an event store that keeps processed event IDs in memory
+ * State is per process and lost on restart
+ */
+export function createMemoryEventStore(): EventStore {
+  const processed = new Map<string, number>();
+  const processing = new Set<string>();
+
+  function removeExpired(now: number): void {
+    for (const [key, expiresAt] of processed) {
+      if (expiresAt <= now) {
+        processed.delete(key);
+      }
+    }
+  }
+
+  return {
+    claim(key: string): EventClaim {
+      removeExpired(Date.now());
+
+      if (processed.has(key)) {
+        return "processed";
+      }
+      if (processing.has(key)) {
+        return "processing";
+      }
+      processing.add(key);
+      return "claimed";
+    },
+
+    complete(key: string, ttlSeconds: number): void {
+      processing.delete(key);
+      processed.set(key, Date.now() + ttlSeconds * 1000);
+    },
+
+    release(key: string): void {
+      processing.delete(key);
+      processed.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates an event store that persists processed event IDs to a local file
+ *
+ * Survives restarts of a single server. Each processed event is appended as a
+ * JSON line, and the file is rewritten without expired entries only when it
+ * has grown to twice the live entries. In-flight claims are kept in memory, so
+ * do not point several processes at the same file. Requires Node.js: the file
+ * system modules are loaded on first use, so edge bundles still load.
+ *
+ * @param filePath - Path of the file (created if missing)
+ */
+export function createFileEventStore(filePath: string): EventStore {
+  let processed: Map<string, number> | null = null;
+  const processing = new Set<string>();
+  // Lines in the file, including expired and superseded ones
+  let lineCount = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<Map<string, number>> {
+    if (processed) {
+      return processed;
+    }
+    const { readFile } = await import("node:fs/promises");
+    const entries = new Map<string, number>();
+    try {
+      const lines = (await readFile(filePath, "utf8")).split("\n");
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        const { key, expiresAt } = JSON.parse(line) as {
+          key: string;
+          expiresAt: number;
+        };
+        entries.set(key, expiresAt);
+        lineCount++;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw new Error(
+          `Failed to read webhook event store at ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+    }
+    processed = entries;
+    return entries;
+  }
+
+  function removeExpired(data: Map<string, number>, now: number): void {
+    for (const [key, expiresAt] of data) {
+      if (expiresAt <= now) {
+        data.delete(key);
+      }
+    }
+  }
+
+  function toLine(key: string, expiresAt: number): string {
+    return `${JSON.stringify({ key, expiresAt })}\n`;
+  }
+
+  async function append(key: string, expiresAt: number): Promise<void> {
+    const { appendFile, mkdir } = await import("node:fs/promises");
+    const { dirname } = await import("node:path");
+    await mkdir(dirname(filePath), { recursive: true });
+    await appendFile(filePath, toLine(key, expiresAt));
+    lineCount++;
+  }
+
+  async function compact(data: Map<string, number>): Promise<void> {
+    const { rename, writeFile } = await import("node:fs/promises");
+    // Write to a temporary file first so a crash never leaves a truncated store
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(
+      tempPath,
+      [...data].map(([key, expiresAt]) => toLine(key, expiresAt)).join("")
+    );
+    await rename(tempPath, filePath);
+    lineCount = data.size;
+  }
+
+  async function claimNow(key: string): Promise<EventClaim> {
+    const data = await load();
+    removeExpired(data, Date.now());
+
+    if (data.has(key)) {
+      return "processed";
+    }
+    if (processing.has(key)) {
+      return "processing";
+    }
+    processing.add(key);
+    return "claimed";
+  }
+
+  async function completeNow(key: string, ttlSeconds: number): Promise<void> {
+    const data = await load();
+    processing.delete(key);
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+    data.set(key, expiresAt);
+    await append(key, expiresAt);
+    if (lineCount > 2 * data.size) {
+      await compact(data);
+    }
+  }
+
+  async function releaseNow(key: string): Promise<void> {
+    processing.delete(key);
+    const data = await load();
+    if (data.delete(key)) {
+      await compact(data);
+    }
+  }
+
+  // Serialize operations so concurrent claims never interleave reads and writes
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    claim(key: string): Promise<EventClaim> {
+      return enqueue(() => claimNow(key));
+    },
+
+    complete(key: string, ttlSeconds: number): Promise<void> {
+      return enqueue(() => completeNow(key, ttlSeconds));
+    },
+
+    release(key: string): Promise<void> {
+      return enqueue(() => releaseNow(key));
+    },
+  };
+}
+
+/**
+ * Synchronous SQLite database, as provided by node:sqlite (DatabaseSync),
+ * better-sqlite3 and bun:sqlite
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: Array<string | number>): { changes: number | bigint };
+    get(...params: Array<string | number>): unknown;
+  };
+}
+
+/**
+ * Options for createSqliteEventStore()
+ */
+export interface SqliteEventStoreOptions {
+  /** Table holding event keys, created if missing (defaults to "paylayer_webhook_events") */
+  tableName?: string;
+  /**
+   * How long an in-flight claim blocks other deliveries, in seconds (defaults to 10 minutes)
+   * Keep it above the handler timeout.
+   */
+  leaseSeconds?: number;
+}
+
+/**
+ * Creates an event store in a SQLite table
+ *
+ * State survives restarts and is shared by every process using the database
+ * file. Claims are atomic inserts, so concurrent deliveries of an event are
+ * processed once. An in-flight claim expires after the lease, so a process
+ * that crashes while running handlers doesn't block the event for good.
+ *
+ * @param db - Open database, e.g. `new DatabaseSync("events.db")` from node:sqlite
+ * or `new Database("events.db")` from better-sqlite3
+ * @param options - Table name and claim lease
+ *
+ * @example
+ * ```ts
+ * import { DatabaseSync } from "node:sqlite";
+ *
+ * webhook.configure({
+ *   eventStore: createSqliteEventStore(new DatabaseSync("./data/webhook-events.db")),
+ * });
+ * ```
+ */
+export function createSqliteEventStore(
+  db: SqliteDatabase,
+  options: SqliteEventStoreOptions = {}
+): EventStore {
+  const table = options.tableName || "paylayer_webhook_events";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid event store table name: ${table}`);
+  }
+  const leaseSeconds = options.leaseSeconds ?? DEFAULT_CLAIM_LEASE_SECONDS;
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, status TEXT NOT NULL, expires_at INTEGER NOT NULL);` +
+      `CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at);`
+  );
+  const removeExpired = db.prepare(
+    `DELETE FROM ${table} WHERE expires_at <= ?`
+  );
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO ${table} (key, status, expires_at) VALUES (?, 'processing', ?)`
+  );
+  const select = db.prepare(`SELECT status FROM ${table} WHERE key = ?`);
+  const markProcessed = db.prepare(
+    `UPDATE ${table} SET status = 'processed', expires_at = ? WHERE key = ?`
+  );
+  const remove = db.prepare(`DELETE FROM ${table} WHERE key = ?`);
+
+  return {
+    claim(key: string): EventClaim {
+      const now = Date.now();
+      removeExpired.run(now);
+      if (Number(insert.run(key, now + leaseSeconds * 1000).changes) > 0) {
+        return "claimed";
+      }
+      const row = select.get(key) as { status?: string } | undefined;
+      return row?.status === "processing" ? "processing" : "processed";
+    },
+
+    complete(key: string, ttlSeconds: number): void {
+      markProcessed.run(Date.now() + ttlSeconds * 1000, key);
+    },
+
+    release(key: string): void {
+      remove.run(key);
+    },
+  };
+}
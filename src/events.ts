@@ -1,11 +1,13 @@
 import type {
   EventType,
   NormalizedEvent,
+  NormalizedEventBase,
   Provider,
   CurrencyCode,
   CustomerInfo,
 } from "./types.js";
-import { getProvider } from "./providers/factory.js";
+import type { PaymentProvider } from "./providers/types.js";
+import { fromMinorUnits } from "./money.js";
 
 interface ExtractedEventData {
   amount?: number;
@@ -20,6 +22,13 @@ interface ExtractedEventData {
   createdAt?: string;
   plan?: string;
   productId?: string;
+  refundedAmount?: number;
+  disputeId?: string;
+  disputeReason?: string;
+  evidenceDueBy?: string;
+  currentPeriodStart?: string;
+  currentPeriodEnd?: string;
+  trialEndsAt?: string;
 }
 
 interface RawEventWithIncluded {
@@ -32,223 +41,293 @@ interface RawEventWithIncluded {
   }>;
 }
 
-function mapStripeEventType(eventType: string): EventType {
-  if (
-    eventType.includes("payment_intent.succeeded") ||
-    eventType.includes("charge.succeeded") ||
-    eventType.includes("checkout.session.completed")
-  ) {
-    return "payment.success";
-  }
-  if (
-    eventType.includes("payment_intent.payment_failed") ||
-    eventType.includes("charge.failed")
-  ) {
-    return "payment.failed";
-  }
-  if (eventType.includes("customer.subscription.created")) {
-    return "subscription.created";
-  }
-  if (eventType.includes("customer.subscription.updated")) {
-    return "subscription.updated";
-  }
-  if (eventType.includes("customer.subscription.deleted")) {
-    return "subscription.deleted";
-  }
-  if (eventType.includes("customer.subscription.canceled")) {
-    return "subscription.cancelled";
-  }
-  if (eventType.includes("customer.subscription.paused")) {
-    return "subscription.paused";
-  }
-  if (eventType.includes("customer.subscription.resumed")) {
-    return "subscription.resumed";
-  }
-  return "payment.success";
-}
-
-function mapPaddleEventType(eventType: string): EventType {
-  if (eventType.includes("transaction.completed")) {
-    return "payment.success";
-  }
-  if (eventType.includes("transaction.failed")) {
-    return "payment.failed";
-  }
-  if (eventType.includes("subscription.created")) {
-    return "subscription.created";
-  }
-  if (eventType.includes("subscription.updated")) {
-    return "subscription.updated";
-  }
-  if (
-    eventType.includes("subscription.canceled") ||
-    eventType.includes("subscription.cancelled")
-  ) {
-    return "subscription.cancelled";
-  }
-  if (eventType.includes("subscription.paused")) {
-    return "subscription.paused";
-  }
-  if (eventType.includes("subscription.resumed")) {
-    return "subscription.resumed";
-  }
-  return "payment.success";
-}
+/**
+ * Normalized type for a provider event name, or a function of the event for
+ * names whose meaning depends on the payload
+ */
+type EventTypeMapping =
+  | EventType
+  | ((event: Record<string, unknown>) => EventType);
 
-function mapPayPalEventType(eventType: string): EventType {
-  if (eventType.includes("payment.capture.completed")) {
-    return "payment.success";
-  }
-  if (
-    eventType.includes("payment.capture.denied") ||
-    eventType.includes("payment.capture.reversed")
-  ) {
-    return "payment.failed";
-  }
-  if (eventType.includes("payment.capture.pending")) {
-    return "payment.success";
-  }
-  if (eventType.includes("billing.subscription.created")) {
-    return "subscription.created";
-  }
-  if (eventType.includes("billing.subscription.updated")) {
+/**
+ * Provider event names (lowercase) that have a PayLayer equivalent
+ * Anything else is normalized to "unknown" rather than guessed.
+ */
+const STRIPE_EVENT_TYPES: Record<string, EventTypeMapping> = {
+  // Delayed payment methods complete the session unpaid and report the payment later
+  "checkout.session.completed": (event) =>
+    (event.data as { object?: { payment_status?: string } })?.object
+      ?.payment_status === "paid"
+      ? "payment.success"
+      : "unknown",
+  "checkout.session.async_payment_succeeded": "payment.success",
+  "checkout.session.async_payment_failed": "payment.failed",
+  "payment_intent.succeeded": "payment.success",
+  "payment_intent.payment_failed": "payment.failed",
+  "charge.succeeded": "payment.success",
+  "charge.failed": "payment.failed",
+  "customer.subscription.created": "subscription.created",
+  "customer.subscription.updated": (event) => {
+    const data = event.data as {
+      object?: { status?: string };
+      previous_attributes?: { status?: string };
+    };
+    // Only status transitions count; later updates to a past due subscription are plain updates
+    const previousStatus = data?.previous_attributes?.status;
+    const status = data?.object?.status;
+    if (previousStatus === "trialing" && status !== "trialing") {
+      return "subscription.trial_ended";
+    }
+    if (previousStatus && previousStatus !== status && status === "past_due") {
+      return "subscription.past_due";
+    }
     return "subscription.updated";
-  }
-  if (eventType.includes("billing.subscription.cancelled")) {
-    return "subscription.cancelled";
-  }
-  if (eventType.includes("billing.subscription.suspended")) {
-    return "subscription.paused";
-  }
-  if (eventType.includes("billing.subscription.activated")) {
-    return "subscription.resumed";
-  }
-  if (eventType.includes("billing.subscription.payment.failed")) {
-    return "payment.failed";
-  }
-  return "payment.success";
+  },
+  "customer.subscription.trial_will_end": "subscription.trial_will_end",
+  // The first invoice of a subscription is reported through its checkout session
+  "invoice.paid": (event) => {
+    const billingReason = (
+      event.data as { object?: { billing_reason?: string } }
+    )?.object?.billing_reason;
+    if (billingReason === "subscription_cycle") {
+      return "subscription.renewed";
+    }
+    return billingReason === "subscription_create"
+      ? "unknown"
+      : "payment.success";
+  },
+  "customer.subscription.deleted": "subscription.deleted",
+  "customer.subscription.paused": "subscription.paused",
+  "customer.subscription.resumed": "subscription.resumed",
+  "charge.refunded": (event) =>
+    (event.data as { object?: { refunded?: boolean } })?.object?.refunded
+      ? "payment.refunded"
+      : "payment.partially_refunded",
+  "charge.dispute.created": "dispute.created",
+  "charge.dispute.updated": "dispute.updated",
+  "charge.dispute.closed": "dispute.closed",
+};
+
+const PADDLE_EVENT_TYPES: Record<string, EventTypeMapping> = {
+  "transaction.completed": (event) =>
+    (event.data as { origin?: string })?.origin === "subscription_recurring"
+      ? "subscription.renewed"
+      : "payment.success",
+  "transaction.payment_failed": "payment.failed",
+  "subscription.created": "subscription.created",
+  "subscription.updated": "subscription.updated",
+  "subscription.canceled": "subscription.cancelled",
+  "subscription.paused": "subscription.paused",
+  "subscription.resumed": "subscription.resumed",
+  "subscription.past_due": "subscription.past_due",
+  // Paddle activates a subscription when its trial ends
+  "subscription.activated": "subscription.trial_ended",
+  // Adjustments cover refunds, credits and chargebacks; credits have no equivalent
+  "adjustment.created": (event) => {
+    const data = event.data as { action?: string; type?: string };
+    switch (data?.action) {
+      case "refund":
+        return data.type === "partial"
+          ? "payment.partially_refunded"
+          : "payment.refunded";
+      case "chargeback":
+      case "chargeback_warning":
+        return "dispute.created";
+      case "chargeback_reverse":
+        return "dispute.closed";
+      default:
+        return "unknown";
+    }
+  },
+  "adjustment.updated": (event) =>
+    String((event.data as { action?: string })?.action).startsWith("chargeback")
+      ? "dispute.updated"
+      : "unknown",
+};
+
+const PAYPAL_EVENT_TYPES: Record<string, EventTypeMapping> = {
+  "payment.capture.completed": "payment.success",
+  // Pending captures haven't been paid yet
+  "payment.capture.pending": "unknown",
+  "payment.capture.denied": "payment.failed",
+  "payment.capture.reversed": "payment.failed",
+  "billing.subscription.created": "subscription.created",
+  "billing.subscription.updated": "subscription.updated",
+  "billing.subscription.cancelled": "subscription.cancelled",
+  "billing.subscription.expired": "subscription.cancelled",
+  "billing.subscription.suspended": "subscription.paused",
+  "billing.subscription.activated": "subscription.resumed",
+  "billing.subscription.payment.failed": "payment.failed",
+  // Subscription payments are v1 sales linked to the billing agreement
+  "payment.sale.completed": (event) =>
+    typeof (event.resource as { billing_agreement_id?: unknown })
+      ?.billing_agreement_id === "string"
+      ? "subscription.renewed"
+      : "payment.success",
+  // Refunds don't carry the captured amount, so a full refund can't be told
+  // apart from a partial one; reporting it as partial never revokes access early
+  "payment.capture.refunded": "payment.partially_refunded",
+  "customer.dispute.created": "dispute.created",
+  "customer.dispute.updated": "dispute.updated",
+  "customer.dispute.resolved": "dispute.closed",
+};
+
+const LEMONSQUEEZY_EVENT_TYPES: Record<string, EventTypeMapping> = {
+  order_created: "payment.success",
+  subscription_payment_success: (event) =>
+    (event.data as { attributes?: { billing_reason?: string } })?.attributes
+      ?.billing_reason === "renewal"
+      ? "subscription.renewed"
+      : "payment.success",
+  subscription_payment_recovered: "payment.success",
+  subscription_payment_failed: "payment.failed",
+  subscription_created: "subscription.created",
+  subscription_updated: (event) =>
+    (event.data as { attributes?: { status?: string } })?.attributes?.status ===
+    "past_due"
+      ? "subscription.past_due"
+      : "subscription.updated",
+  subscription_cancelled: "subscription.cancelled",
+  subscription_expired: "subscription.cancelled",
+  subscription_paused: "subscription.paused",
+  subscription_unpaused: "subscription.resumed",
+  subscription_resumed: "subscription.resumed",
+  order_refunded: (event) => mapLemonSqueezyRefund(event),
+  subscription_payment_refunded: (event) => mapLemonSqueezyRefund(event),
+};
+
+function mapLemonSqueezyRefund(event: Record<string, unknown>): EventType {
+  const data = event.data as { attributes?: { status?: string } };
+  return data?.attributes?.status === "partial_refund"
+    ? "payment.partially_refunded"
+    : "payment.refunded";
 }
 
-function mapLemonSqueezyEventType(eventType: string): EventType {
-  if (
-    eventType.includes("order_created") ||
-    eventType.includes("subscription_payment_success")
-  ) {
-    return "payment.success";
-  }
-  if (eventType.includes("subscription_payment_failed")) {
-    return "payment.failed";
-  }
-  if (eventType.includes("subscription_created")) {
-    return "subscription.created";
-  }
-  if (eventType.includes("subscription_updated")) {
+// Polar has no pause: a pending cancellation is read as paused and clearing it as resumed
+const POLAR_EVENT_TYPES: Record<string, EventTypeMapping> = {
+  "checkout.updated": (event) => {
+    const status = (event.data as { status?: string })?.status;
+    if (status === "succeeded" || status === "completed") {
+      return "payment.success";
+    }
+    return status === "failed" ? "payment.failed" : "unknown";
+  },
+  "subscription.created": "subscription.created",
+  "subscription.canceled": "subscription.cancelled",
+  "subscription.updated": (event) => {
+    const data = event.data as {
+      cancel_at_period_end?: boolean;
+      status?: string;
+    };
+    if (data?.status === "past_due") {
+      return "subscription.past_due";
+    }
+    if (data?.cancel_at_period_end === true) {
+      return "subscription.paused";
+    }
+    if (data?.cancel_at_period_end === false && data?.status === "active") {
+      return "subscription.resumed";
+    }
     return "subscription.updated";
-  }
-  if (
-    eventType.includes("subscription_cancelled") ||
-    eventType.includes("subscription_canceled")
-  ) {
-    return "subscription.cancelled";
-  }
-  if (eventType.includes("subscription_paused")) {
-    return "subscription.paused";
-  }
-  if (
-    eventType.includes("subscription_unpaused") ||
-    eventType.includes("subscription_resumed")
-  ) {
-    return "subscription.resumed";
-  }
-  if (eventType.includes("subscription_expired")) {
-    return "subscription.cancelled";
-  }
-  return "payment.success";
-}
+  },
+  // order.created fires before payment, so only order.paid is mapped; first
+  // subscription orders are reported through the checkout
+  "order.created": "unknown",
+  "order.paid": (event) => {
+    const billingReason = (event.data as { billing_reason?: string })
+      ?.billing_reason;
+    if (billingReason === "subscription_cycle") {
+      return "subscription.renewed";
+    }
+    return billingReason === "purchase" ? "payment.success" : "unknown";
+  },
+  "order.refunded": (event) =>
+    (event.data as { status?: string })?.status === "partially_refunded"
+      ? "payment.partially_refunded"
+      : "payment.refunded",
+};
+
+// Flat events posted by the mock provider and other custom senders
+const GENERIC_EVENT_TYPES: Record<string, EventTypeMapping> = {
+  "payment.success": "payment.success",
+  "charge.succeeded": "payment.success",
+  "payment.failed": "payment.failed",
+  "charge.failed": "payment.failed",
+  "subscription.created": "subscription.created",
+  "subscription.updated": "subscription.updated",
+  "subscription.deleted": "subscription.deleted",
+  "subscription.cancelled": "subscription.cancelled",
+  "subscription.canceled": "subscription.cancelled",
+  "subscription.paused": "subscription.paused",
+  "subscription.resumed": "subscription.resumed",
+  "subscription.renewed": "subscription.renewed",
+  "subscription.trial_will_end": "subscription.trial_will_end",
+  "subscription.trial_ended": "subscription.trial_ended",
+  "subscription.past_due": "subscription.past_due",
+  "payment.refunded": "payment.refunded",
+  "payment.partially_refunded": "payment.partially_refunded",
+  "dispute.created": "dispute.created",
+  "dispute.updated": "dispute.updated",
+  "dispute.closed": "dispute.closed",
+};
+
+const PROVIDER_EVENT_TYPES: Record<string, Record<string, EventTypeMapping>> = {
+  stripe: STRIPE_EVENT_TYPES,
+  paddle: PADDLE_EVENT_TYPES,
+  paypal: PAYPAL_EVENT_TYPES,
+  lemonsqueezy: LEMONSQUEEZY_EVENT_TYPES,
+  polar: POLAR_EVENT_TYPES,
+};
 
-function mapPolarEventType(
+/**
+ * Looks up the normalized type of a provider event
+ *
+ * @param providerName - Provider that sent the event
+ * @param eventType - Provider event name, lowercase
+ * @param event - Provider event, for mappings that depend on the payload
+ * @returns The normalized type, or "unknown" if PayLayer has no equivalent
+ */
+function mapEventType(
+  providerName: Provider,
   eventType: string,
   event: Record<string, unknown>
 ): EventType {
-  if (
-    eventType.includes("checkout.completed") ||
-    (eventType.includes("checkout.updated") &&
-      (event.data as { status?: string })?.status === "completed")
-  ) {
-    return "payment.success";
-  }
-  if (
-    eventType.includes("checkout.failed") ||
-    (eventType.includes("checkout.updated") &&
-      (event.data as { status?: string })?.status === "failed")
-  ) {
-    return "payment.failed";
-  }
-  if (eventType.includes("subscription.created")) {
-    return "subscription.created";
-  }
-  if (
-    eventType.includes("subscription.cancelled") ||
-    eventType.includes("subscription.canceled")
-  ) {
-    return "subscription.cancelled";
-  }
-  if (
-    eventType.includes("subscription.updated") &&
-    (event.data as { cancel_at_period_end?: boolean })?.cancel_at_period_end ===
-      true
-  ) {
-    return "subscription.paused";
-  }
-  if (
-    eventType.includes("subscription.updated") &&
-    (event.data as { cancel_at_period_end?: boolean })?.cancel_at_period_end ===
-      false &&
-    (event.data as { status?: string })?.status === "active"
-  ) {
-    return "subscription.resumed";
-  }
-  if (eventType.includes("subscription.updated")) {
-    return "subscription.updated";
+  const mappings = PROVIDER_EVENT_TYPES[providerName] || GENERIC_EVENT_TYPES;
+  if (!Object.prototype.hasOwnProperty.call(mappings, eventType)) {
+    return "unknown";
   }
-  return "payment.success";
+  const mapping = mappings[eventType];
+  return typeof mapping === "function" ? mapping(event) : mapping;
 }
 
-function mapGenericEventType(eventType: string): EventType {
-  if (eventType.includes("subscription.created")) {
-    return "subscription.created";
-  }
-  if (eventType.includes("subscription.updated")) {
-    return "subscription.updated";
-  }
-  if (eventType.includes("subscription.deleted")) {
-    return "subscription.deleted";
-  }
-  if (
-    eventType.includes("subscription.cancelled") ||
-    eventType.includes("subscription.canceled")
-  ) {
-    return "subscription.cancelled";
-  }
-  if (eventType.includes("subscription.paused")) {
-    return "subscription.paused";
-  }
-  if (eventType.includes("subscription.resumed")) {
-    return "subscription.resumed";
-  }
-  if (
-    eventType.includes("payment.failed") ||
-    eventType.includes("charge.failed")
-  ) {
-    return "payment.failed";
-  }
-  if (
-    eventType.includes("payment.success") ||
-    eventType.includes("charge.succeeded")
-  ) {
-    return "payment.success";
-  }
-  return "payment.success";
+/**
+ * Fields each event type guarantees, matching the per-type event interfaces
+ */
+const REQUIRED_EVENT_FIELDS: Partial<
+  Record<EventType, Array<keyof NormalizedEventBase>>
+> = {
+  "payment.success": ["amount", "currency", "paymentId"],
+  "subscription.created": ["subscriptionId"],
+  "subscription.updated": ["subscriptionId"],
+  "subscription.cancelled": ["subscriptionId"],
+  "subscription.deleted": ["subscriptionId"],
+  "subscription.paused": ["subscriptionId"],
+  "subscription.resumed": ["subscriptionId"],
+  "subscription.renewed": ["subscriptionId", "amount", "currency", "paymentId"],
+  "subscription.trial_will_end": ["subscriptionId"],
+  "subscription.trial_ended": ["subscriptionId"],
+  "subscription.past_due": ["subscriptionId"],
+  "payment.refunded": ["currency", "paymentId", "refundedAmount"],
+  "payment.partially_refunded": ["currency", "paymentId", "refundedAmount"],
+  "dispute.created": ["disputeId"],
+  "dispute.updated": ["disputeId"],
+  "dispute.closed": ["disputeId"],
+};
+
+function unixToIsoString(seconds: unknown): string | undefined {
+  return typeof seconds === "number"
+    ? new Date(seconds * 1000).toISOString()
+    : undefined;
 }
 
 function extractCustomerId(data: Record<string, unknown>): string | undefined {
@@ -374,15 +453,18 @@ function extractStripeSubscriptionData(
     if (items.data && items.data.length > 0) {
       const firstItem = items.data[0];
       if (firstItem.price) {
+        if (typeof firstItem.price.currency === "string") {
+          result.currency =
+            firstItem.price.currency.toUpperCase() as CurrencyCode;
+        }
         if (
           typeof firstItem.price.unit_amount === "number" &&
           firstItem.price.unit_amount > 0
         ) {
-          result.amount = firstItem.price.unit_amount / 100;
-        }
-        if (typeof firstItem.price.currency === "string") {
-          result.currency =
-            firstItem.price.currency.toUpperCase() as CurrencyCode;
+          result.amount = fromMinorUnits(
+            firstItem.price.unit_amount,
+            result.currency
+          );
         }
         result.plan =
           typeof firstItem.price.lookup_key === "string"
@@ -398,12 +480,12 @@ function extractStripeSubscriptionData(
     }
   } else if (data.plan && typeof data.plan === "object") {
     const planObj = data.plan as Record<string, unknown>;
-    if (typeof planObj.amount === "number" && planObj.amount > 0) {
-      result.amount = (planObj.amount as number) / 100;
-    }
     if (typeof planObj.currency === "string") {
       result.currency = planObj.currency.toUpperCase() as CurrencyCode;
     }
+    if (typeof planObj.amount === "number" && planObj.amount > 0) {
+      result.amount = fromMinorUnits(planObj.amount, result.currency);
+    }
     result.plan =
       typeof planObj.lookup_key === "string"
         ? planObj.lookup_key
@@ -418,14 +500,17 @@ function extractStripeSubscriptionData(
         ? (data.latest_invoice as Record<string, unknown>)
         : null;
     if (latestInvoice) {
-      if (typeof latestInvoice.amount_due === "number") {
-        result.amount = latestInvoice.amount_due / 100;
-      } else if (typeof latestInvoice.total === "number") {
-        result.amount = latestInvoice.total / 100;
-      }
       if (typeof latestInvoice.currency === "string") {
         result.currency = latestInvoice.currency.toUpperCase() as CurrencyCode;
       }
+      if (typeof latestInvoice.amount_due === "number") {
+        result.amount = fromMinorUnits(
+          latestInvoice.amount_due,
+          result.currency
+        );
+      } else if (typeof latestInvoice.total === "number") {
+        result.amount = fromMinorUnits(latestInvoice.total, result.currency);
+      }
     }
   }
 
@@ -446,6 +531,17 @@ function extractStripeSubscriptionData(
     result.createdAt = new Date(data.created * 1000).toISOString();
   }
 
+  // Newer API versions keep the billing period on the subscription items
+  const firstItem = (data.items as { data?: Array<Record<string, unknown>> })
+    ?.data?.[0];
+  result.currentPeriodStart = unixToIsoString(
+    data.current_period_start ?? firstItem?.current_period_start
+  );
+  result.currentPeriodEnd = unixToIsoString(
+    data.current_period_end ?? firstItem?.current_period_end
+  );
+  result.trialEndsAt = unixToIsoString(data.trial_end);
+
   return result;
 }
 
@@ -455,17 +551,17 @@ function extractStripePaymentData(
 ): Partial<ExtractedEventData> {
   const result: Partial<ExtractedEventData> = {};
 
-  if (typeof data.amount_total === "number") {
-    result.amount = data.amount_total / 100;
-  } else if (typeof data.amount === "number") {
-    result.amount = data.amount / 100;
-  }
-
   result.currency =
     typeof data.currency === "string"
       ? (data.currency.toUpperCase() as CurrencyCode)
       : undefined;
 
+  if (typeof data.amount_total === "number") {
+    result.amount = fromMinorUnits(data.amount_total, result.currency);
+  } else if (typeof data.amount === "number") {
+    result.amount = fromMinorUnits(data.amount, result.currency);
+  }
+
   result.customerId = extractCustomerId(data);
 
   if (!result.customerId && data.payment_intent) {
@@ -653,10 +749,81 @@ function extractStripeEventData(
     if (typeof event.created === "number") {
       result.createdAt = new Date(event.created * 1000).toISOString();
     }
+    if (
+      eventType === "charge.refunded" &&
+      typeof data.amount_refunded === "number"
+    ) {
+      result.refundedAmount = fromMinorUnits(
+        data.amount_refunded,
+        result.currency
+      );
+    } else if (eventType.startsWith("charge.dispute.")) {
+      Object.assign(result, extractStripeDisputeData(data));
+    } else if (eventType.startsWith("invoice.")) {
+      Object.assign(result, extractStripeInvoiceData(data, result.currency));
+    }
     return result;
   }
 }
 
+function extractStripeInvoiceData(
+  data: Record<string, unknown>,
+  currency: CurrencyCode | undefined
+): Partial<ExtractedEventData> {
+  const result: Partial<ExtractedEventData> = {};
+
+  if (typeof data.amount_paid === "number") {
+    result.amount = fromMinorUnits(data.amount_paid, currency);
+  }
+
+  // Newer API versions moved the subscription under parent.subscription_details
+  const parent = data.parent as
+    | { subscription_details?: { subscription?: unknown } }
+    | undefined;
+  const subscription = parent?.subscription_details?.subscription;
+  if (typeof subscription === "string") {
+    result.subscriptionId = subscription;
+  }
+
+  // The subscription line covers the billing period the invoice pays for
+  const lines = data.lines as
+    | { data?: Array<{ period?: { start?: number; end?: number } }> }
+    | undefined;
+  const period = lines?.data?.[0]?.period;
+  result.currentPeriodStart = unixToIsoString(period?.start);
+  result.currentPeriodEnd = unixToIsoString(period?.end);
+
+  return result;
+}
+
+function extractStripeDisputeData(
+  data: Record<string, unknown>
+): Partial<ExtractedEventData> {
+  const result: Partial<ExtractedEventData> = {};
+
+  result.disputeId = typeof data.id === "string" ? data.id : undefined;
+  // Report the disputed charge as the payment, like the other charge events
+  if (typeof data.charge === "string") {
+    result.paymentId = data.charge;
+  } else if (data.charge && typeof data.charge === "object") {
+    const charge = data.charge as Record<string, unknown>;
+    result.paymentId = typeof charge.id === "string" ? charge.id : undefined;
+  }
+  result.disputeReason =
+    typeof data.reason === "string" ? data.reason : undefined;
+
+  const evidenceDetails = data.evidence_details as
+    | { due_by?: number | null }
+    | undefined;
+  if (typeof evidenceDetails?.due_by === "number") {
+    result.evidenceDueBy = new Date(
+      evidenceDetails.due_by * 1000
+    ).toISOString();
+  }
+
+  return result;
+}
+
 function extractPaddleEventData(
   event: Record<string, unknown>,
   eventType: string,
@@ -689,22 +856,23 @@ function extractPaddleEventData(
         price.unit_price !== null
       ) {
         const unitPrice = price.unit_price as Record<string, unknown>;
-        if (typeof unitPrice.amount === "string") {
-          result.amount = parseFloat(unitPrice.amount) / 100;
-        } else if (typeof unitPrice.amount === "number") {
-          result.amount = unitPrice.amount / 100;
-        }
         if (typeof unitPrice.currency_code === "string") {
           result.currency =
             unitPrice.currency_code.toUpperCase() as CurrencyCode;
         }
-      }
-      if (!result.amount && typeof price.amount === "number") {
-        result.amount = price.amount / 100;
+        if (
+          typeof unitPrice.amount === "string" ||
+          typeof unitPrice.amount === "number"
+        ) {
+          result.amount = fromMinorUnits(unitPrice.amount, result.currency);
+        }
       }
       if (!result.currency && typeof price.currency_code === "string") {
         result.currency = price.currency_code.toUpperCase() as CurrencyCode;
       }
+      if (!result.amount && typeof price.amount === "number") {
+        result.amount = fromMinorUnits(price.amount, result.currency);
+      }
       result.plan = typeof price.id === "string" ? price.id : undefined;
       result.productId =
         typeof price.product_id === "string" ? price.product_id : undefined;
@@ -718,16 +886,25 @@ function extractPaddleEventData(
     }
   }
 
-  if (result.amount === undefined) {
-    result.amount =
-      typeof data.amount === "number" ? data.amount / 100 : undefined;
-  }
   if (!result.currency) {
     result.currency =
       typeof data.currency_code === "string"
         ? (data.currency_code.toUpperCase() as CurrencyCode)
         : undefined;
   }
+  if (result.amount === undefined) {
+    result.amount =
+      typeof data.amount === "number"
+        ? fromMinorUnits(data.amount, result.currency)
+        : undefined;
+  }
+  if (result.amount === undefined) {
+    const totals = (data.details as { totals?: { total?: string | number } })
+      ?.totals;
+    if (totals?.total !== undefined) {
+      result.amount = fromMinorUnits(totals.total, result.currency);
+    }
+  }
 
   result.email =
     typeof data.customer_email === "string" ? data.customer_email : undefined;
@@ -845,6 +1022,56 @@ function extractPaddleEventData(
     result.createdAt = data.occurred_at;
   }
 
+  // Subscriptions report their current period, transactions the period they bill for
+  const billingPeriod = (data.current_billing_period ?? data.billing_period) as
+    | { starts_at?: unknown; ends_at?: unknown }
+    | null
+    | undefined;
+  if (typeof billingPeriod?.starts_at === "string") {
+    result.currentPeriodStart = billingPeriod.starts_at;
+  }
+  if (typeof billingPeriod?.ends_at === "string") {
+    result.currentPeriodEnd = billingPeriod.ends_at;
+  }
+  if (Array.isArray(data.items)) {
+    const trialDates = (
+      data.items[0] as { trial_dates?: { ends_at?: unknown } | null }
+    )?.trial_dates;
+    if (typeof trialDates?.ends_at === "string") {
+      result.trialEndsAt = trialDates.ends_at;
+    }
+  }
+
+  if (eventType.startsWith("adjustment.")) {
+    Object.assign(result, extractPaddleAdjustmentData(data, result.currency));
+  }
+
+  return result;
+}
+
+function extractPaddleAdjustmentData(
+  data: Record<string, unknown>,
+  currency: CurrencyCode | undefined
+): Partial<ExtractedEventData> {
+  const result: Partial<ExtractedEventData> = {};
+  const totals = data.totals as { total?: string | number } | undefined;
+
+  if (totals?.total !== undefined) {
+    result.amount = fromMinorUnits(totals.total, currency);
+  }
+  // Adjustments apply to a transaction, which is the payment the other events report
+  result.paymentId =
+    typeof data.transaction_id === "string" ? data.transaction_id : undefined;
+
+  if (data.action === "refund") {
+    result.refundedAmount = result.amount;
+  } else if (String(data.action).startsWith("chargeback")) {
+    // Paddle responds to chargebacks itself, so there is no evidence deadline
+    result.disputeId = typeof data.id === "string" ? data.id : undefined;
+    result.disputeReason =
+      typeof data.reason === "string" ? data.reason : undefined;
+  }
+
   return result;
 }
 
@@ -1063,6 +1290,150 @@ function extractPayPalEventData(
     }
   }
 
+  if (isSubscriptionEvent && resource.billing_info) {
+    // PayPal has no billing period; the last payment starts it and the next one ends it
+    const billingInfo = resource.billing_info as {
+      last_payment?: { time?: unknown };
+      next_billing_time?: unknown;
+    };
+    if (typeof billingInfo.last_payment?.time === "string") {
+      result.currentPeriodStart = billingInfo.last_payment.time;
+    }
+    if (typeof billingInfo.next_billing_time === "string") {
+      result.currentPeriodEnd = billingInfo.next_billing_time;
+    }
+  }
+
+  if (eventType === "payment.sale.completed") {
+    Object.assign(result, extractPayPalSaleData(resource));
+  } else if (eventType === "payment.capture.refunded") {
+    Object.assign(result, extractPayPalRefundData(resource, result.amount));
+  } else if (eventType.startsWith("customer.dispute.")) {
+    Object.assign(result, extractPayPalDisputeData(resource));
+  }
+
+  return result;
+}
+
+function parsePayPalMoney(
+  money: unknown
+): { amount: number; currency?: CurrencyCode } | undefined {
+  if (!money || typeof money !== "object") {
+    return undefined;
+  }
+  const { value, currency_code: currencyCode } = money as Record<
+    string,
+    unknown
+  >;
+  const amount =
+    typeof value === "string"
+      ? parseFloat(value)
+      : typeof value === "number"
+        ? value
+        : undefined;
+  if (amount === undefined) {
+    return undefined;
+  }
+  return {
+    amount,
+    currency:
+      typeof currencyCode === "string"
+        ? (currencyCode.toUpperCase() as CurrencyCode)
+        : undefined,
+  };
+}
+
+/**
+ * v1 sales use `{ total, currency }` amounts; subscription payments carry the
+ * subscription ID as billing_agreement_id
+ */
+function extractPayPalSaleData(
+  resource: Record<string, unknown>
+): Partial<ExtractedEventData> {
+  const result: Partial<ExtractedEventData> = {};
+
+  const amount = resource.amount as
+    | { total?: unknown; currency?: unknown }
+    | undefined;
+  const sale = parsePayPalMoney({
+    value: amount?.total,
+    currency_code: amount?.currency,
+  });
+  if (sale) {
+    result.amount = sale.amount;
+    result.currency = sale.currency;
+  }
+  if (typeof resource.billing_agreement_id === "string") {
+    result.subscriptionId = resource.billing_agreement_id;
+  }
+
+  return result;
+}
+
+function extractPayPalRefundData(
+  resource: Record<string, unknown>,
+  refundAmount: number | undefined
+): Partial<ExtractedEventData> {
+  const result: Partial<ExtractedEventData> = {};
+
+  // Total refunded so far on the capture, falling back to this refund's amount
+  const breakdown = resource.seller_payable_breakdown as
+    | Record<string, unknown>
+    | undefined;
+  result.refundedAmount =
+    parsePayPalMoney(breakdown?.total_refunded_amount)?.amount ?? refundAmount;
+
+  // The refunded capture is linked as "up"
+  const links = Array.isArray(resource.links)
+    ? (resource.links as Array<{ rel?: string; href?: string }>)
+    : [];
+  const captureHref = links.find((link) => link.rel === "up")?.href;
+  const captureId = captureHref?.match(/\/captures\/([^/?]+)/)?.[1];
+  if (captureId) {
+    result.paymentId = captureId;
+  }
+
+  return result;
+}
+
+function extractPayPalDisputeData(
+  resource: Record<string, unknown>
+): Partial<ExtractedEventData> {
+  const result: Partial<ExtractedEventData> = {};
+
+  result.disputeId =
+    typeof resource.dispute_id === "string" ? resource.dispute_id : undefined;
+  result.disputeReason =
+    typeof resource.reason === "string" ? resource.reason : undefined;
+  result.evidenceDueBy =
+    typeof resource.seller_response_due_date === "string"
+      ? resource.seller_response_due_date
+      : undefined;
+
+  const disputeAmount = parsePayPalMoney(resource.dispute_amount);
+  if (disputeAmount) {
+    result.amount = disputeAmount.amount;
+    result.currency = disputeAmount.currency;
+  }
+
+  if (Array.isArray(resource.disputed_transactions)) {
+    const transaction = resource.disputed_transactions[0] as
+      | Record<string, unknown>
+      | undefined;
+    result.paymentId =
+      typeof transaction?.seller_transaction_id === "string"
+        ? transaction.seller_transaction_id
+        : undefined;
+    const buyer = transaction?.buyer as Record<string, unknown> | undefined;
+    if (typeof buyer?.email === "string") {
+      result.email = buyer.email;
+      result.customer = {
+        email: buyer.email,
+        name: typeof buyer.name === "string" ? buyer.name : undefined,
+      };
+    }
+  }
+
   return result;
 }
 
@@ -1075,13 +1446,6 @@ function extractPolarEventData(
   const data = event.data as Record<string, unknown>;
   const result: Partial<ExtractedEventData> = {};
 
-  result.amount =
-    typeof data.price_amount === "number"
-      ? data.price_amount / 100
-      : typeof data.amount === "number"
-        ? data.amount / 100
-        : undefined;
-
   result.currency =
     typeof data.price_currency === "string"
       ? (data.price_currency.toUpperCase() as CurrencyCode)
@@ -1089,6 +1453,15 @@ function extractPolarEventData(
         ? (data.currency.toUpperCase() as CurrencyCode)
         : undefined;
 
+  result.amount =
+    typeof data.price_amount === "number"
+      ? fromMinorUnits(data.price_amount, result.currency)
+      : typeof data.amount === "number"
+        ? fromMinorUnits(data.amount, result.currency)
+        : typeof data.total_amount === "number"
+          ? fromMinorUnits(data.total_amount, result.currency)
+          : undefined;
+
   result.email =
     typeof data.customer_email === "string"
       ? data.customer_email
@@ -1106,7 +1479,8 @@ function extractPolarEventData(
   result.paymentId =
     typeof data.checkout_id === "string"
       ? data.checkout_id
-      : typeof data.id === "string" && eventType.includes("checkout")
+      : typeof data.id === "string" &&
+          (eventType.includes("checkout") || eventType.startsWith("order."))
         ? data.id
         : undefined;
 
@@ -1142,6 +1516,33 @@ function extractPolarEventData(
     result.createdAt = event.created_at;
   }
 
+  // Orders carry the subscription they bill for
+  const subscription =
+    data.subscription && typeof data.subscription === "object"
+      ? (data.subscription as Record<string, unknown>)
+      : data;
+  if (typeof subscription.current_period_start === "string") {
+    result.currentPeriodStart = subscription.current_period_start;
+  }
+  if (typeof subscription.current_period_end === "string") {
+    result.currentPeriodEnd = subscription.current_period_end;
+  }
+  if (typeof subscription.trial_end === "string") {
+    result.trialEndsAt = subscription.trial_end;
+  }
+
+  if (eventType === "order.refunded") {
+    if (typeof data.total_amount === "number") {
+      result.amount = fromMinorUnits(data.total_amount, result.currency);
+    }
+    if (typeof data.refunded_amount === "number") {
+      result.refundedAmount = fromMinorUnits(
+        data.refunded_amount,
+        result.currency
+      );
+    }
+  }
+
   return result;
 }
 
@@ -1157,18 +1558,14 @@ function extractLemonSqueezyEventData(
     id?: string;
     attributes?: Record<string, unknown>;
     relationships?: Record<string, unknown>;
+    status?: string;
+    variant_id?: number;
   };
 
-  let attributes = (data.attributes || {}) as Record<string, unknown>;
-
-  if (!attributes || Object.keys(attributes).length === 0) {
-    if ((event.data as any).attributes) {
-      attributes = (event.data as any).attributes as Record<string, unknown>;
-    } else {
-      if ((event.data as any).status || (event.data as any).variant_id) {
-        attributes = event.data as Record<string, unknown>;
-      }
-    }
+  // Some payloads carry the resource fields on data itself instead of in attributes
+  let attributes = data.attributes || {};
+  if (!data.attributes && (data.status || data.variant_id)) {
+    attributes = data as Record<string, unknown>;
   }
 
   const result: Partial<ExtractedEventData> = {};
@@ -1190,6 +1587,10 @@ function extractLemonSqueezyEventData(
     }
 
     if (firstItem) {
+      if (typeof firstItem.currency === "string") {
+        result.currency = firstItem.currency.toUpperCase() as CurrencyCode;
+      }
+
       if (
         firstItem.unit_price !== undefined &&
         typeof firstItem.unit_price === "number"
@@ -1198,11 +1599,10 @@ function extractLemonSqueezyEventData(
           typeof firstItem.quantity === "number" && firstItem.quantity > 0
             ? firstItem.quantity
             : 1;
-        result.amount = (firstItem.unit_price * quantity) / 100;
-      }
-
-      if (typeof firstItem.currency === "string") {
-        result.currency = firstItem.currency.toUpperCase() as CurrencyCode;
+        result.amount = fromMinorUnits(
+          firstItem.unit_price * quantity,
+          result.currency
+        );
       }
     } else {
       const relationships = data.relationships as
@@ -1221,6 +1621,11 @@ function extractLemonSqueezyEventData(
               quantity?: number;
             };
 
+            if (typeof firstItem.currency === "string") {
+              result.currency =
+                firstItem.currency.toUpperCase() as CurrencyCode;
+            }
+
             if (
               firstItem.unit_price !== undefined &&
               typeof firstItem.unit_price === "number"
@@ -1229,41 +1634,42 @@ function extractLemonSqueezyEventData(
                 typeof firstItem.quantity === "number" && firstItem.quantity > 0
                   ? firstItem.quantity
                   : 1;
-              result.amount = (firstItem.unit_price * quantity) / 100;
-            }
-
-            if (typeof firstItem.currency === "string") {
-              result.currency =
-                firstItem.currency.toUpperCase() as CurrencyCode;
+              result.amount = fromMinorUnits(
+                firstItem.unit_price * quantity,
+                result.currency
+              );
             }
           }
         }
       }
 
+      if (!result.currency && typeof attributes.currency === "string") {
+        result.currency = attributes.currency.toUpperCase() as CurrencyCode;
+      }
+
       if (!result.amount && typeof attributes.unit_price === "number") {
         const quantity =
           typeof attributes.quantity === "number" && attributes.quantity > 0
             ? attributes.quantity
             : 1;
-        result.amount = (attributes.unit_price * quantity) / 100;
-      }
-
-      if (!result.currency && typeof attributes.currency === "string") {
-        result.currency = attributes.currency.toUpperCase() as CurrencyCode;
+        result.amount = fromMinorUnits(
+          attributes.unit_price * quantity,
+          result.currency
+        );
       }
     }
   } else {
-    result.amount =
-      typeof attributes.total === "number"
-        ? attributes.total / 100
-        : typeof attributes.subtotal === "number"
-          ? attributes.subtotal / 100
-          : undefined;
-
     result.currency =
       typeof attributes.currency === "string"
         ? (attributes.currency.toUpperCase() as CurrencyCode)
         : undefined;
+
+    result.amount =
+      typeof attributes.total === "number"
+        ? fromMinorUnits(attributes.total, result.currency)
+        : typeof attributes.subtotal === "number"
+          ? fromMinorUnits(attributes.subtotal, result.currency)
+          : undefined;
   }
 
   result.email =
@@ -1322,6 +1728,44 @@ function extractLemonSqueezyEventData(
     result.createdAt = attributes.updated_at;
   }
 
+  // Subscription invoices are the payments behind subscription_payment_* events
+  if (data.type === "subscription-invoices") {
+    if (typeof attributes.total === "number") {
+      result.amount = fromMinorUnits(
+        attributes.total,
+        typeof attributes.currency === "string"
+          ? attributes.currency.toUpperCase()
+          : result.currency
+      );
+    }
+    result.paymentId = typeof data.id === "string" ? data.id : result.paymentId;
+  }
+
+  // Attribute IDs are numbers; subscription invoices only reference their subscription
+  if (
+    !result.subscriptionId &&
+    typeof attributes.subscription_id === "number"
+  ) {
+    result.subscriptionId = String(attributes.subscription_id);
+  }
+  // Lemon Squeezy only reports when the current period ends
+  if (typeof attributes.renews_at === "string") {
+    result.currentPeriodEnd = attributes.renews_at;
+  }
+  if (typeof attributes.trial_ends_at === "string") {
+    result.trialEndsAt = attributes.trial_ends_at;
+  }
+
+  // Partial refunds leave refunded false, so read the amount regardless
+  if (typeof attributes.refunded_amount === "number") {
+    result.refundedAmount = fromMinorUnits(
+      attributes.refunded_amount,
+      typeof attributes.currency === "string"
+        ? attributes.currency.toUpperCase()
+        : result.currency
+    );
+  }
+
   return result;
 }
 
@@ -1348,6 +1792,24 @@ function extractGenericEventData(
   result.plan = typeof event.plan === "string" ? event.plan : undefined;
   result.productId =
     typeof event.productId === "string" ? event.productId : undefined;
+  result.refundedAmount =
+    typeof event.refundedAmount === "number" ? event.refundedAmount : undefined;
+  result.disputeId =
+    typeof event.disputeId === "string" ? event.disputeId : undefined;
+  result.disputeReason =
+    typeof event.disputeReason === "string" ? event.disputeReason : undefined;
+  result.evidenceDueBy =
+    typeof event.evidenceDueBy === "string" ? event.evidenceDueBy : undefined;
+  result.currentPeriodStart =
+    typeof event.currentPeriodStart === "string"
+      ? event.currentPeriodStart
+      : undefined;
+  result.currentPeriodEnd =
+    typeof event.currentPeriodEnd === "string"
+      ? event.currentPeriodEnd
+      : undefined;
+  result.trialEndsAt =
+    typeof event.trialEndsAt === "string" ? event.trialEndsAt : undefined;
 
   if (event.customer && typeof event.customer === "object") {
     const customerData = event.customer as Record<string, unknown>;
@@ -1568,32 +2030,20 @@ function extractMetadata(
  *
  * @param providerName - The payment provider identifier
  * @param rawEvent - The raw webhook event from the provider
- * @returns Normalized PayLayer event
+ * @param provider - The provider instance that received the webhook
+ * @returns Normalized PayLayer event; "unknown" if the event lacks a field its type guarantees
  */
 export function normalizeEvent(
   providerName: Provider,
-  rawEvent: unknown
+  rawEvent: unknown,
+  provider: PaymentProvider
 ): NormalizedEvent {
-  const provider = getProvider();
   const providerNormalized = provider.normalizeWebhookEvent(rawEvent);
   const event = providerNormalized as Record<string, unknown>;
 
   const eventType = String(event.type || "").toLowerCase();
 
-  let type: EventType = "payment.success";
-  if (providerName === "stripe") {
-    type = mapStripeEventType(eventType);
-  } else if (providerName === "paddle") {
-    type = mapPaddleEventType(eventType);
-  } else if (providerName === "paypal") {
-    type = mapPayPalEventType(eventType);
-  } else if (providerName === "lemonsqueezy") {
-    type = mapLemonSqueezyEventType(eventType);
-  } else if (providerName === "polar") {
-    type = mapPolarEventType(eventType, event);
-  } else {
-    type = mapGenericEventType(eventType);
-  }
+  const type = mapEventType(providerName, eventType, event);
 
   let extractedData: Partial<ExtractedEventData> = {};
   if (providerName === "stripe" && event.data) {
@@ -1613,8 +2063,9 @@ export function normalizeEvent(
   const metadata = extractMetadata(providerName, event, eventType) || {};
   metadata._rawEvent = rawEvent;
 
-  return {
+  const normalized: NormalizedEventBase = {
     type,
+    providerEventType: String(event.type || ""),
     amount: extractedData.amount,
     currency: extractedData.currency,
     email: extractedData.email,
@@ -1628,7 +2079,24 @@ export function normalizeEvent(
     createdAt: extractedData.createdAt,
     plan: extractedData.plan,
     productId: extractedData.productId,
+    refundedAmount: extractedData.refundedAmount,
+    disputeId: extractedData.disputeId,
+    disputeReason: extractedData.disputeReason,
+    evidenceDueBy: extractedData.evidenceDueBy,
+    currentPeriodStart: extractedData.currentPeriodStart,
+    currentPeriodEnd: extractedData.currentPeriodEnd,
+    trialEndsAt: extractedData.trialEndsAt,
     metadata,
     providerResponse: rawEvent,
   };
+
+  const missingFields = (REQUIRED_EVENT_FIELDS[type] || []).filter(
+    (field) => normalized[field] === undefined
+  );
+  // Hand partial events to onUnhandled rather than to handlers that rely on the fields
+  if (missingFields.length > 0) {
+    normalized.type = "unknown";
+  }
+
+  return normalized as NormalizedEvent;
 }
@@ -0,0 +1,66 @@
+/**
+ * In-memory request deduplication for providers whose APIs do not accept idempotency keys
+ *
+ * The first call with a key runs the operation; later calls with the same key
+ * (including concurrent ones) receive the same result. Failed calls are forgotten
+ * so they can be retried.
+ */
+
+/**
+ * How long a completed result is remembered (24 hours, matching Stripe)
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IdempotencyCache {
+  /**
+   * Runs an operation once per key
+   *
+   * @param key - Idempotency key, already scoped to the provider and operation
+   * @param operation - The provider call to deduplicate
+   */
+  run<T>(key: string, operation: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Creates an in-memory idempotency cache
+ *
+ * @param ttlMs - How long results are remembered
+ */
+export function createIdempotencyCache(
+  ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS
+): IdempotencyCache {
+  const entries = new Map<
+    string,
+    { result: Promise<unknown>; expiresAt: number }
+  >();
+
+  function removeExpired(now: number): void {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }
+
+  return {
+    run<T>(key: string, operation: () => Promise<T>): Promise<T> {
+      const now = Date.now();
+      removeExpired(now);
+
+      const existing = entries.get(key);
+      if (existing) {
+        return existing.result as Promise<T>;
+      }
+
+      const result = operation();
+      entries.set(key, { result, expiresAt: now + ttlMs });
+      result.catch(() => {
+        // Only forget this attempt, not a newer one stored under the same key
+        if (entries.get(key)?.result === result) {
+          entries.delete(key);
+        }
+      });
+      return result;
+    },
+  };
+}
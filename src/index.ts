@@ -1,32 +1,106 @@
 import { pay } from "./pay.js";
-import {
-  onPaymentSuccess,
-  onPaymentFailed,
-  onSubscriptionCreated,
-  onSubscriptionCancelled,
-  onSubscriptionUpdated,
-  onSubscriptionDeleted,
-  onSubscriptionPaused,
-  onSubscriptionResumed,
-  webhook as processWebhook,
-  type WebhookRequest,
-} from "./webhooks.js";
+import { webhook } from "./webhooks.js";
 
-export { pay };
+export { pay, webhook };
+export { createPayLayer } from "./client.js";
+export {
+  createMemoryEventStore,
+  createFileEventStore,
+  createSqliteEventStore,
+} from "./event-store.js";
+export {
+  PayLayerError,
+  CardDeclinedError,
+  AuthenticationError,
+  RateLimitError,
+  NotFoundError,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  ConfigurationError,
+} from "./errors.js";
+export { createMockStore, mockStore } from "./providers/mock-store.js";
+export { startMockCheckoutServer } from "./providers/mock-server.js";
+export { simulateWebhook } from "./webhook-simulator.js";
+export {
+  createNodeWebhookHandler,
+  createExpressWebhookHandler,
+  createNextPagesWebhookHandler,
+  createFetchWebhookHandler,
+  createNextAppWebhookHandler,
+  createHonoWebhookHandler,
+  createKoaWebhookMiddleware,
+  createFastifyWebhookPlugin,
+  createLambdaWebhookHandler,
+  createNodeCheckoutHandler,
+  createFetchCheckoutHandler,
+  createNodePortalHandler,
+  createFetchPortalHandler,
+} from "./adapters.js";
 export { Currency } from "./types.js";
+export {
+  getCurrencyExponent,
+  toMinorUnits,
+  fromMinorUnits,
+  formatDecimalAmount,
+} from "./money.js";
 export type * from "./types.js";
 export type { CustomerInfo } from "./types.js";
-
-export const webhook = {
-  onPaymentSuccess,
-  onPaymentFailed,
-  onSubscriptionCreated,
-  onSubscriptionCancelled,
-  onSubscriptionUpdated,
-  onSubscriptionDeleted,
-  onSubscriptionPaused,
-  onSubscriptionResumed,
-  process: processWebhook,
-};
-
-export type { WebhookRequest };
+export type { Pay } from "./pay.js";
+export type {
+  Webhook,
+  WebhookDispatchMode,
+  WebhookHandlerOptions,
+  WebhookHeaders,
+  WebhookOptions,
+  WebhookRequest,
+  WebhookResponse,
+} from "./webhooks.js";
+export type {
+  EventStore,
+  EventClaim,
+  SqliteDatabase,
+  SqliteEventStoreOptions,
+} from "./event-store.js";
+export type {
+  SimulateWebhookOptions,
+  SimulatedWebhookProvider,
+  SimulatedWebhookRequest,
+} from "./webhook-simulator.js";
+export type {
+  WebhookAdapterOptions,
+  CheckoutRouteOptions,
+  PortalRouteOptions,
+  NodeWebhookRequest,
+  KoaWebhookContext,
+  HonoWebhookContext,
+  FastifyWebhookInstance,
+  FastifyWebhookOptions,
+  LambdaWebhookEvent,
+  LambdaWebhookResult,
+} from "./adapters.js";
+export type { PayLayerErrorOptions } from "./errors.js";
+export type { PayLayerConfig, PayLayerClient } from "./client.js";
+export type { ProviderConfigs, ProviderName } from "./providers/factory.js";
+export type { StripeConfig } from "./providers/stripe.js";
+export type { PaddleConfig } from "./providers/paddle.js";
+export type { PayPalConfig } from "./providers/paypal.js";
+export type { LemonSqueezyConfig } from "./providers/lemonsqueezy.js";
+export type { PolarConfig } from "./providers/polar.js";
+export type { MockConfig } from "./providers/mock.js";
+export type {
+  MockStore,
+  MockSnapshot,
+  MockCustomer,
+  MockCharge,
+  MockCheckout,
+  MockCheckoutStatus,
+  MockCheckoutOutcome,
+  MockCheckoutInput,
+  MockSubscription,
+  MockRefund,
+} from "./providers/mock-store.js";
+export type {
+  MockCheckoutServer,
+  MockCheckoutServerOptions,
+} from "./providers/mock-server.js";
+export type { HttpConfig } from "./providers/http.js";
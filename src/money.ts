@@ -0,0 +1,67 @@
+/**
+ * Money conversion helpers
+ *
+ * PayLayer's public API always works in major units (29.99 USD, 1000 JPY, 1.5 KWD).
+ * Providers expect and return minor units, so every conversion goes through here.
+ */
+
+import type { CurrencyCode } from "./types.js";
+import { CURRENCY_EXPONENTS, DEFAULT_CURRENCY_EXPONENT } from "./currencies.js";
+
+/**
+ * Gets the number of decimal places used by a currency
+ *
+ * Unknown or missing currencies fall back to two decimal places
+ *
+ * @param currency - ISO 4217 currency code (case-insensitive)
+ * @returns Minor-unit exponent (0 for JPY, 2 for USD, 3 for KWD)
+ */
+export function getCurrencyExponent(currency: string | undefined): number {
+  if (!currency) {
+    return DEFAULT_CURRENCY_EXPONENT;
+  }
+  const code = currency.toUpperCase() as CurrencyCode;
+  return CURRENCY_EXPONENTS[code] ?? DEFAULT_CURRENCY_EXPONENT;
+}
+
+/**
+ * Converts an amount in major units to the currency's minor unit
+ *
+ * @example
+ * ```ts
+ * toMinorUnits(29.99, "USD"); // 2999
+ * toMinorUnits(1000, "JPY"); // 1000
+ * toMinorUnits(1.5, "KWD"); // 1500
+ * ```
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** getCurrencyExponent(currency));
+}
+
+/**
+ * Converts an amount in the currency's minor unit to major units
+ *
+ * @example
+ * ```ts
+ * fromMinorUnits(2999, "USD"); // 29.99
+ * fromMinorUnits(1000, "JPY"); // 1000
+ * fromMinorUnits(1000, "KWD"); // 1
+ * ```
+ */
+export function fromMinorUnits(
+  amount: number | string,
+  currency: string | undefined
+): number {
+  const exponent = getCurrencyExponent(currency);
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  // Round to the currency's precision to avoid floating point artifacts (e.g. 0.30000000000000004)
+  return Number((value / 10 ** exponent).toFixed(exponent));
+}
+
+/**
+ * Formats an amount in major units as a decimal string with the currency's precision
+ * Used by providers that accept decimal strings (e.g. PayPal "10.00", "1000", "1.500")
+ */
+export function formatDecimalAmount(amount: number, currency: string): string {
+  return amount.toFixed(getCurrencyExponent(currency));
+}
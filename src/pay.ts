@@ -5,199 +5,415 @@ import type {
   SubscriptionResult,
   CheckoutInput,
   CheckoutResult,
+  RefundInput,
+  RefundResult,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  ChangePlanInput,
+  SubscriptionActionOptions,
 } from "./types.js";
-import { getProvider } from "./providers/factory.js";
+import type { PaymentProvider } from "./providers/types.js";
+import { getProvider as getDefaultProvider } from "./providers/factory.js";
+import { createIdempotencyCache } from "./idempotency.js";
+import { InvalidRequestError } from "./errors.js";
 
 /**
- * Creates a one-time payment charge
+ * Creates the pay API bound to a provider
  *
- * @param input - Charge parameters (amount or priceId, currency, optional email)
- * @returns Promise resolving to charge result
- *
- * @example
- * ```ts
- * // Using amount
- * const result = await pay.charge({
- *   amount: 29.99,
- *   currency: 'USD',
- *   email: 'customer@example.com'
- * });
- *
- * // Using price ID
- * const result = await pay.charge({
- *   priceId: 'price_1234567890',
- *   currency: 'USD',
- *   email: 'customer@example.com'
- * });
- * ```
+ * @param getProvider - Resolves the provider used for each call
  */
-async function charge(input: ChargeInput): Promise<ChargeResult> {
-  if (!input.amount && !input.priceId && !input.productId) {
-    throw new Error("Either amount, priceId, or productId must be provided");
+export function createPay(getProvider: () => PaymentProvider) {
+  const idempotencyCache = createIdempotencyCache();
+
+  /**
+   * Runs a mutating provider call, deduplicating retries in memory when the
+   * provider API has no native idempotency key support
+   */
+  function withIdempotency<T>(
+    provider: PaymentProvider,
+    operation: string,
+    idempotencyKey: string | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    if (!idempotencyKey || provider.supportsIdempotencyKeys) {
+      return call();
+    }
+    return idempotencyCache.run(
+      `${provider.name}:${operation}:${idempotencyKey}`,
+      call
+    );
   }
-  if (input.amount && input.amount <= 0) {
-    throw new Error("Amount must be greater than 0");
+
+  /**
+   * Creates a one-time payment charge
+   *
+   * @param input - Charge parameters (amount or priceId, currency, optional email)
+   * @returns Promise resolving to charge result
+   *
+   * @example
+   * ```ts
+   * // Using amount
+   * const result = await pay.charge({
+   *   amount: 29.99,
+   *   currency: 'USD',
+   *   email: 'customer@example.com'
+   * });
+   *
+   * // Using price ID
+   * const result = await pay.charge({
+   *   priceId: 'price_1234567890',
+   *   currency: 'USD',
+   *   email: 'customer@example.com'
+   * });
+   *
+   * // Safe to retry after a timeout
+   * const result = await pay.charge({
+   *   amount: 29.99,
+   *   currency: 'USD',
+   *   idempotencyKey: `order_${order.id}`
+   * });
+   * ```
+   */
+  async function charge(input: ChargeInput): Promise<ChargeResult> {
+    if (!input.amount && !input.priceId && !input.productId) {
+      throw new InvalidRequestError(
+        "Either amount, priceId, or productId must be provided"
+      );
+    }
+    if (input.amount && input.amount <= 0) {
+      throw new InvalidRequestError("Amount must be greater than 0");
+    }
+    if (!input.currency) {
+      throw new InvalidRequestError("Currency is required");
+    }
+
+    const provider = getProvider();
+    return withIdempotency(provider, "charge", input.idempotencyKey, () =>
+      provider.charge(input)
+    );
   }
-  if (!input.currency) {
-    throw new Error("Currency is required");
+
+  /**
+   * Creates a subscription
+   *
+   * @param input - Subscription parameters (plan, currency, optional email)
+   * @returns Promise resolving to subscription result
+   *
+   * @example
+   * ```ts
+   * const subscription = await pay.subscribe({
+   *   plan: 'pro-monthly',
+   *   currency: 'USD',
+   *   email: 'customer@example.com'
+   * });
+   * ```
+   */
+  async function subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
+    if (!input.plan) {
+      throw new InvalidRequestError("Plan is required");
+    }
+    if (!input.currency) {
+      throw new InvalidRequestError("Currency is required");
+    }
+
+    const provider = getProvider();
+    return withIdempotency(provider, "subscribe", input.idempotencyKey, () =>
+      provider.subscribe(input)
+    );
   }
 
-  const provider = getProvider();
-  return provider.charge(input);
-}
+  /**
+   * Cancels a subscription
+   *
+   * @param subscriptionId - The subscription ID to cancel
+   * @param options - Optional idempotency key
+   * @returns Promise resolving to updated subscription result
+   *
+   * @example
+   * ```ts
+   * const cancelled = await pay.cancel('sub_123456');
+   * ```
+   */
+  async function cancel(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
+    if (!subscriptionId) {
+      throw new InvalidRequestError("Subscription ID is required");
+    }
 
-/**
- * Creates a subscription
- *
- * @param input - Subscription parameters (plan, currency, optional email)
- * @returns Promise resolving to subscription result
- *
- * @example
- * ```ts
- * const subscription = await pay.subscribe({
- *   plan: 'pro-monthly',
- *   currency: 'USD',
- *   email: 'customer@example.com'
- * });
- * ```
- */
-async function subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
-  if (!input.plan) {
-    throw new Error("Plan is required");
+    const provider = getProvider();
+    return withIdempotency(provider, "cancel", options.idempotencyKey, () =>
+      provider.cancel(subscriptionId, options)
+    );
   }
-  if (!input.currency) {
-    throw new Error("Currency is required");
+
+  /**
+   * Pauses a subscription
+   *
+   * @param subscriptionId - The subscription ID to pause
+   * @param options - Optional idempotency key
+   * @returns Promise resolving to updated subscription result
+   *
+   * @example
+   * ```ts
+   * const paused = await pay.pause('sub_123456');
+   * ```
+   */
+  async function pause(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
+    if (!subscriptionId) {
+      throw new InvalidRequestError("Subscription ID is required");
+    }
+
+    const provider = getProvider();
+    return withIdempotency(provider, "pause", options.idempotencyKey, () =>
+      provider.pause(subscriptionId, options)
+    );
   }
 
-  const provider = getProvider();
-  return provider.subscribe(input);
-}
+  /**
+   * Resumes a paused subscription
+   *
+   * @param subscriptionId - The subscription ID to resume
+   * @param options - Optional idempotency key
+   * @returns Promise resolving to updated subscription result
+   *
+   * @example
+   * ```ts
+   * const resumed = await pay.resume('sub_123456');
+   * ```
+   */
+  async function resume(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
+    if (!subscriptionId) {
+      throw new InvalidRequestError("Subscription ID is required");
+    }
 
-/**
- * Cancels a subscription
- *
- * @param subscriptionId - The subscription ID to cancel
- * @returns Promise resolving to updated subscription result
- *
- * @example
- * ```ts
- * const cancelled = await pay.cancel('sub_123456');
- * ```
- */
-async function cancel(subscriptionId: string): Promise<SubscriptionResult> {
-  if (!subscriptionId) {
-    throw new Error("Subscription ID is required");
+    const provider = getProvider();
+    return withIdempotency(provider, "resume", options.idempotencyKey, () =>
+      provider.resume(subscriptionId, options)
+    );
   }
 
-  const provider = getProvider();
-  return provider.cancel(subscriptionId);
-}
+  /**
+   * Switches a subscription to another plan (upgrade or downgrade)
+   *
+   * @param input - Subscription ID, new plan, proration behavior and optional quantity
+   * @returns Promise resolving to the updated subscription, including any proration amount
+   *
+   * @example
+   * ```ts
+   * const upgraded = await pay.changePlan({
+   *   subscriptionId: 'sub_123456',
+   *   plan: 'pro-yearly',
+   *   proration: 'immediate'
+   * });
+   * console.log(upgraded.prorationAmount);
+   * ```
+   */
+  async function changePlan(
+    input: ChangePlanInput
+  ): Promise<SubscriptionResult> {
+    if (!input.subscriptionId) {
+      throw new InvalidRequestError("Subscription ID is required");
+    }
+    if (!input.plan) {
+      throw new InvalidRequestError("Plan is required");
+    }
+    if (!["immediate", "next_period", "none"].includes(input.proration)) {
+      throw new InvalidRequestError(
+        'Proration must be "immediate", "next_period" or "none"'
+      );
+    }
+    if (
+      input.quantity !== undefined &&
+      (!Number.isInteger(input.quantity) || input.quantity < 1)
+    ) {
+      throw new InvalidRequestError("Quantity must be a positive integer");
+    }
 
-/**
- * Pauses a subscription
- *
- * @param subscriptionId - The subscription ID to pause
- * @returns Promise resolving to updated subscription result
- *
- * @example
- * ```ts
- * const paused = await pay.pause('sub_123456');
- * ```
- */
-async function pause(subscriptionId: string): Promise<SubscriptionResult> {
-  if (!subscriptionId) {
-    throw new Error("Subscription ID is required");
+    const provider = getProvider();
+    return withIdempotency(provider, "changePlan", input.idempotencyKey, () =>
+      provider.changePlan(input)
+    );
   }
 
-  const provider = getProvider();
-  return provider.pause(subscriptionId);
-}
+  /**
+   * Retrieves a subscription with its current billing period
+   *
+   * @param subscriptionId - The subscription ID to retrieve
+   * @returns Promise resolving to subscription result
+   *
+   * @example
+   * ```ts
+   * const subscription = await pay.getSubscription('sub_123456');
+   * console.log(subscription.plan, subscription.currentPeriodEnd);
+   * ```
+   */
+  async function getSubscription(
+    subscriptionId: string
+  ): Promise<SubscriptionResult> {
+    if (!subscriptionId) {
+      throw new InvalidRequestError("Subscription ID is required");
+    }
 
-/**
- * Resumes a paused subscription
- *
- * @param subscriptionId - The subscription ID to resume
- * @returns Promise resolving to updated subscription result
- *
- * @example
- * ```ts
- * const resumed = await pay.resume('sub_123456');
- * ```
- */
-async function resume(subscriptionId: string): Promise<SubscriptionResult> {
-  if (!subscriptionId) {
-    throw new Error("Subscription ID is required");
+    const provider = getProvider();
+    return provider.getSubscription(subscriptionId);
   }
 
-  const provider = getProvider();
-  return provider.resume(subscriptionId);
-}
+  /**
+   * Lists a customer's subscriptions, one page at a time
+   *
+   * @param input - Customer email or ID, optional status filter, cursor and page size
+   * @returns Promise resolving to a page of subscriptions
+   *
+   * @example
+   * ```ts
+   * let page = await pay.listSubscriptions({ email: 'customer@example.com' });
+   * while (page.hasMore) {
+   *   page = await pay.listSubscriptions({
+   *     email: 'customer@example.com',
+   *     cursor: page.nextCursor,
+   *   });
+   * }
+   * ```
+   */
+  async function listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    if (!input.email && !input.customerId) {
+      throw new InvalidRequestError(
+        "Either email or customerId must be provided"
+      );
+    }
+    if (input.limit !== undefined && (input.limit < 1 || input.limit > 100)) {
+      throw new InvalidRequestError("Limit must be between 1 and 100");
+    }
 
-/**
- * Generates a billing portal URL for customer self-service
- *
- * @param input - Portal parameters (email)
- * @returns Promise resolving to billing portal URL
- *
- * @example
- * ```ts
- * const url = await pay.portal({ email: 'customer@example.com' });
- * // Redirect user to url
- * ```
- */
-async function portal(input: { email: string }): Promise<string> {
-  if (!input.email) {
-    throw new Error("Email is required for billing portal");
+    const provider = getProvider();
+    return provider.listSubscriptions(input);
   }
 
-  const provider = getProvider();
-  return provider.portal(input.email);
-}
+  /**
+   * Generates a billing portal URL for customer self-service
+   *
+   * @param input - Portal parameters (email)
+   * @returns Promise resolving to billing portal URL
+   *
+   * @example
+   * ```ts
+   * const url = await pay.portal({ email: 'customer@example.com' });
+   * // Redirect user to url
+   * ```
+   */
+  async function portal(input: { email: string }): Promise<string> {
+    if (!input.email) {
+      throw new InvalidRequestError("Email is required for billing portal");
+    }
 
-/**
- * Creates a checkout session/payment link
- * Returns a URL that can be opened in a browser to complete payment
- *
- * @param input - Checkout parameters (amount or plan, currency, email, URLs)
- * @returns Promise resolving to checkout result with URL
- *
- * @example
- * ```ts
- * // One-time payment
- * const checkout = await pay.checkout({
- *   amount: 29.99,
- *   currency: 'USD',
- *   email: 'customer@example.com',
- *   successUrl: 'https://myapp.com/success',
- *   cancelUrl: 'https://myapp.com/cancel'
- * });
- * // Redirect user to checkout.url
- *
- * // Subscription
- * const checkout = await pay.checkout({
- *   plan: 'pro-monthly',
- *   currency: 'USD',
- *   email: 'customer@example.com',
- *   successUrl: 'https://myapp.com/success',
- *   cancelUrl: 'https://myapp.com/cancel'
- * });
- * ```
- */
-async function checkout(input: CheckoutInput): Promise<CheckoutResult> {
-  if (!input.currency) {
-    throw new Error("Currency is required for checkout");
+    const provider = getProvider();
+    return provider.portal(input.email);
+  }
+
+  /**
+   * Creates a checkout session/payment link
+   * Returns a URL that can be opened in a browser to complete payment
+   *
+   * @param input - Checkout parameters (amount or plan, currency, email, URLs)
+   * @returns Promise resolving to checkout result with URL
+   *
+   * @example
+   * ```ts
+   * // One-time payment
+   * const checkout = await pay.checkout({
+   *   amount: 29.99,
+   *   currency: 'USD',
+   *   email: 'customer@example.com',
+   *   successUrl: 'https://myapp.com/success',
+   *   cancelUrl: 'https://myapp.com/cancel'
+   * });
+   * // Redirect user to checkout.url
+   *
+   * // Subscription
+   * const checkout = await pay.checkout({
+   *   plan: 'pro-monthly',
+   *   currency: 'USD',
+   *   email: 'customer@example.com',
+   *   successUrl: 'https://myapp.com/success',
+   *   cancelUrl: 'https://myapp.com/cancel'
+   * });
+   * ```
+   */
+  async function checkout(input: CheckoutInput): Promise<CheckoutResult> {
+    if (!input.currency) {
+      throw new InvalidRequestError("Currency is required for checkout");
+    }
+
+    const provider = getProvider();
+    return withIdempotency(provider, "checkout", input.idempotencyKey, () =>
+      provider.checkout(input)
+    );
+  }
+
+  /**
+   * Refunds a payment in full or in part
+   *
+   * @param input - Refund parameters (paymentId, optional amount, reason and metadata)
+   * @returns Promise resolving to refund result
+   *
+   * @example
+   * ```ts
+   * // Full refund
+   * const refund = await pay.refund({ paymentId: 'pi_123456' });
+   *
+   * // Partial refund
+   * const partial = await pay.refund({
+   *   paymentId: 'pi_123456',
+   *   amount: 10.0,
+   *   reason: 'requested_by_customer'
+   * });
+   * ```
+   */
+  async function refund(input: RefundInput): Promise<RefundResult> {
+    if (!input.paymentId) {
+      throw new InvalidRequestError("Payment ID is required");
+    }
+    if (input.amount !== undefined && input.amount <= 0) {
+      throw new InvalidRequestError("Refund amount must be greater than 0");
+    }
+
+    const provider = getProvider();
+    return withIdempotency(provider, "refund", input.idempotencyKey, () =>
+      provider.refund(input)
+    );
   }
 
-  const provider = getProvider();
-  return provider.checkout(input);
+  return {
+    charge,
+    subscribe,
+    cancel,
+    pause,
+    resume,
+    changePlan,
+    getSubscription,
+    listSubscriptions,
+    portal,
+    checkout,
+    refund,
+  };
 }
 
-export const pay = {
-  charge,
-  subscribe,
-  cancel,
-  pause,
-  resume,
-  portal,
-  checkout,
-};
+/**
+ * The pay API surface returned by createPay()
+ */
+export type Pay = ReturnType<typeof createPay>;
+
+/**
+ * Default pay API, using the provider configured through environment variables
+ */
+export const pay: Pay = createPay(getDefaultProvider);
@@ -1,3 +1,22 @@
+import type { StripeConfig } from "./stripe.js";
+import type { PaddleConfig } from "./paddle.js";
+import type { PayPalConfig } from "./paypal.js";
+import type { LemonSqueezyConfig } from "./lemonsqueezy.js";
+import type { PolarConfig } from "./polar.js";
+import type { MockConfig } from "./mock.js";
+import { mockStore } from "./mock-store.js";
+import { ConfigurationError } from "../errors.js";
+import type { HttpConfig } from "./http.js";
+
+/**
+ * Reads an environment variable
+ * Edge runtimes without a `process` global (e.g. Cloudflare Workers without
+ * nodejs_compat) have none, so providers must be configured in code there.
+ */
+export function readEnv(name: string): string | undefined {
+  return typeof process === "undefined" ? undefined : process.env[name];
+}
+
 /**
  * Determines if the current environment is in sandbox/test mode
  *
@@ -14,7 +33,7 @@
  */
 export function isSandbox(providerName?: string): boolean {
   // Check unified environment variable first
-  const env = process.env.PAYLAYER_ENVIRONMENT;
+  const env = readEnv("PAYLAYER_ENVIRONMENT");
   if (env) {
     const envLower = env.toLowerCase();
     // Sandbox/test mode values
@@ -37,16 +56,16 @@ export function isSandbox(providerName?: string): boolean {
     const providerLower = providerName.toLowerCase();
     switch (providerLower) {
       case "paddle":
-        return process.env.PADDLE_SANDBOX === "true";
+        return readEnv("PADDLE_SANDBOX") === "true";
       case "paypal":
-        return process.env.PAYPAL_SANDBOX === "true";
+        return readEnv("PAYPAL_SANDBOX") === "true";
       case "lemonsqueezy":
-        return process.env.LEMONSQUEEZY_TEST_MODE === "true";
+        return readEnv("LEMONSQUEEZY_TEST_MODE") === "true";
       case "polar":
-        return process.env.POLAR_SANDBOX === "true";
+        return readEnv("POLAR_SANDBOX") === "true";
       case "stripe":
         // Stripe uses key prefix to determine mode
-        const stripeKey = process.env.STRIPE_SECRET_KEY;
+        const stripeKey = readEnv("STRIPE_SECRET_KEY");
         if (stripeKey) {
           return stripeKey.startsWith("sk_test_");
         }
@@ -59,3 +78,194 @@ export function isSandbox(providerName?: string): boolean {
   // Default to production mode if nothing is set (safe default)
   return false;
 }
+
+/**
+ * Splits a comma-separated list of webhook secrets, so an old and a new secret
+ * can both be accepted while rotating
+ */
+export function parseSecretList(
+  value: string | undefined
+): string[] | undefined {
+  const secrets = (value || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  return secrets.length > 0 ? secrets : undefined;
+}
+
+/**
+ * Reads retry and timeout settings from PAYLAYER_MAX_RETRIES and PAYLAYER_TIMEOUT_MS
+ */
+function getHttpConfigFromEnv(): HttpConfig {
+  const maxRetries = readEnv("PAYLAYER_MAX_RETRIES");
+  const timeoutMs = readEnv("PAYLAYER_TIMEOUT_MS");
+  return {
+    maxRetries: maxRetries ? parseInt(maxRetries, 10) : undefined,
+    timeoutMs: timeoutMs ? parseInt(timeoutMs, 10) : undefined,
+  };
+}
+
+/**
+ * Reads the webhook timestamp tolerance from PAYLAYER_WEBHOOK_TOLERANCE_SECONDS
+ */
+function getWebhookToleranceFromEnv(): number | undefined {
+  const toleranceSeconds = readEnv("PAYLAYER_WEBHOOK_TOLERANCE_SECONDS");
+  return toleranceSeconds ? parseInt(toleranceSeconds, 10) : undefined;
+}
+
+/**
+ * Reads Stripe credentials from STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET
+ */
+export function getStripeConfigFromEnv(): StripeConfig {
+  const secretKey = readEnv("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    throw new ConfigurationError(
+      "STRIPE_SECRET_KEY environment variable is required for Stripe provider",
+      { provider: "stripe" }
+    );
+  }
+  return {
+    secretKey,
+    webhookSecret: parseSecretList(readEnv("STRIPE_WEBHOOK_SECRET")),
+    toleranceSeconds: getWebhookToleranceFromEnv(),
+    sandbox: readEnv("PAYLAYER_ENVIRONMENT") ? isSandbox("stripe") : undefined,
+    successUrl:
+      readEnv("PAYLAYER_SUCCESS_URL") ?? readEnv("STRIPE_CHECKOUT_SUCCESS_URL"),
+    cancelUrl:
+      readEnv("PAYLAYER_CANCEL_URL") ?? readEnv("STRIPE_CHECKOUT_CANCEL_URL"),
+    portalReturnUrl: readEnv("STRIPE_PORTAL_RETURN_URL"),
+    ...getHttpConfigFromEnv(),
+  };
+}
+
+/**
+ * Reads Paddle credentials from PADDLE_API_KEY and related variables
+ */
+export function getPaddleConfigFromEnv(): PaddleConfig {
+  const apiKey = readEnv("PADDLE_API_KEY");
+  if (!apiKey) {
+    throw new ConfigurationError(
+      "PADDLE_API_KEY environment variable is required for Paddle provider",
+      { provider: "paddle" }
+    );
+  }
+  return {
+    apiKey,
+    webhookSecret: parseSecretList(readEnv("PADDLE_WEBHOOK_SECRET")),
+    toleranceSeconds: getWebhookToleranceFromEnv(),
+    sandbox: isSandbox("paddle"),
+    baseUrl: readEnv("PADDLE_BASE_URL"),
+    apiVersion: readEnv("PADDLE_API_VERSION"),
+    defaultPriceId: readEnv("PADDLE_DEFAULT_PRICE_ID"),
+    ...getHttpConfigFromEnv(),
+  };
+}
+
+/**
+ * Reads PayPal credentials from PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET and related variables
+ */
+export function getPayPalConfigFromEnv(): PayPalConfig {
+  const clientId = readEnv("PAYPAL_CLIENT_ID");
+  const clientSecret = readEnv("PAYPAL_CLIENT_SECRET");
+  if (!clientId || !clientSecret) {
+    throw new ConfigurationError(
+      "PAYPAL_CLIENT_ID and PAYPAL_CLIENT_SECRET environment variables are required for PayPal provider",
+      { provider: "paypal" }
+    );
+  }
+
+  // Validate optional but recommended environment variables
+  // PAYPAL_RETURN_URL and PAYPAL_CANCEL_URL are required for charge() redirect flow
+  // PAYPAL_WEBHOOK_ID is required for webhook verification
+  if (
+    readEnv("NODE_ENV") === "production" &&
+    (!readEnv("PAYPAL_RETURN_URL") || !readEnv("PAYPAL_CANCEL_URL"))
+  ) {
+    console.warn(
+      "PayPal: PAYPAL_RETURN_URL and PAYPAL_CANCEL_URL should be set for production use with charge() method"
+    );
+  }
+  if (readEnv("NODE_ENV") === "production" && !readEnv("PAYPAL_WEBHOOK_ID")) {
+    console.warn(
+      "PayPal: PAYPAL_WEBHOOK_ID should be set for production webhook verification"
+    );
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    webhookId: parseSecretList(readEnv("PAYPAL_WEBHOOK_ID")),
+    sandbox: isSandbox("paypal"),
+    baseUrl: readEnv("PAYPAL_BASE_URL"),
+    returnUrl: readEnv("PAYPAL_RETURN_URL"),
+    cancelUrl: readEnv("PAYPAL_CANCEL_URL"),
+    brandName: readEnv("PAYPAL_BRAND_NAME"),
+    portalBaseUrl: readEnv("PAYPAL_PORTAL_BASE_URL"),
+    ...getHttpConfigFromEnv(),
+  };
+}
+
+/**
+ * Reads Lemon Squeezy credentials from LEMONSQUEEZY_API_KEY and related variables
+ */
+export function getLemonSqueezyConfigFromEnv(): LemonSqueezyConfig {
+  const apiKey = readEnv("LEMONSQUEEZY_API_KEY");
+  if (!apiKey) {
+    throw new ConfigurationError(
+      "LEMONSQUEEZY_API_KEY environment variable is required for Lemon Squeezy provider",
+      { provider: "lemonsqueezy" }
+    );
+  }
+  return {
+    apiKey,
+    storeId: readEnv("LEMONSQUEEZY_STORE_ID"),
+    webhookSecret: parseSecretList(readEnv("LEMONSQUEEZY_WEBHOOK_SECRET")),
+    sandbox: isSandbox("lemonsqueezy"),
+    baseUrl: readEnv("LEMONSQUEEZY_BASE_URL"),
+    defaultVariantId: readEnv("LEMONSQUEEZY_DEFAULT_VARIANT_ID"),
+    storeSubdomain: readEnv("LEMONSQUEEZY_STORE_SUBDOMAIN"),
+    portalBaseUrl: readEnv("LEMONSQUEEZY_PORTAL_BASE_URL"),
+    ...getHttpConfigFromEnv(),
+  };
+}
+
+/**
+ * Reads Polar credentials from POLAR_OAT/POLAR_ACCESS_TOKEN and related variables
+ */
+export function getPolarConfigFromEnv(): PolarConfig {
+  // Support both POLAR_API_KEY (legacy) and POLAR_OAT/POLAR_ACCESS_TOKEN
+  const accessToken =
+    readEnv("POLAR_OAT") ||
+    readEnv("POLAR_ACCESS_TOKEN") ||
+    readEnv("POLAR_API_KEY");
+  if (!accessToken) {
+    throw new ConfigurationError(
+      "POLAR_OAT or POLAR_ACCESS_TOKEN environment variable is required for Polar provider",
+      { provider: "polar" }
+    );
+  }
+  return {
+    accessToken,
+    webhookSecret: parseSecretList(readEnv("POLAR_WEBHOOK_SECRET")),
+    toleranceSeconds: getWebhookToleranceFromEnv(),
+    sandbox: isSandbox("polar"),
+    baseUrl: readEnv("POLAR_BASE_URL"),
+    successUrl: readEnv("PAYLAYER_SUCCESS_URL") ?? readEnv("POLAR_SUCCESS_URL"),
+    cancelUrl: readEnv("PAYLAYER_CANCEL_URL") ?? readEnv("POLAR_CANCEL_URL"),
+    ...getHttpConfigFromEnv(),
+  };
+}
+
+/**
+ * Reads mock provider settings from PAYLAYER_CHECKOUT_BASE_URL, PAYLAYER_PORTAL_BASE_URL,
+ * PAYLAYER_MOCK_SERVER_URL and PAYLAYER_MOCK_WEBHOOK_SECRET
+ */
+export function getMockConfigFromEnv(): MockConfig {
+  return {
+    checkoutBaseUrl: readEnv("PAYLAYER_CHECKOUT_BASE_URL"),
+    portalBaseUrl: readEnv("PAYLAYER_PORTAL_BASE_URL"),
+    store: mockStore,
+    serverUrl: readEnv("PAYLAYER_MOCK_SERVER_URL"),
+    webhookSecret: parseSecretList(readEnv("PAYLAYER_MOCK_WEBHOOK_SECRET")),
+  };
+}
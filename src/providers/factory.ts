@@ -1,52 +1,170 @@
 /**
- * Provider factory - creates provider instances based on environment configuration
+ * Provider factory - creates provider instances from explicit configuration
+ * or from environment variables
  */
 
 import type { PaymentProvider } from "./types.js";
-import { StripeProvider } from "./stripe.js";
-import { PaddleProvider } from "./paddle.js";
-import { PayPalProvider } from "./paypal.js";
-import { LemonSqueezyProvider } from "./lemonsqueezy.js";
-import { PolarProvider } from "./polar.js";
-import { MockProvider } from "./mock.js";
+import { StripeProvider, type StripeConfig } from "./stripe.js";
+import { PaddleProvider, type PaddleConfig } from "./paddle.js";
+import { PayPalProvider, type PayPalConfig } from "./paypal.js";
+import {
+  LemonSqueezyProvider,
+  type LemonSqueezyConfig,
+} from "./lemonsqueezy.js";
+import { PolarProvider, type PolarConfig } from "./polar.js";
+import { MockProvider, RemoteMockProvider, type MockConfig } from "./mock.js";
+import {
+  getStripeConfigFromEnv,
+  getPaddleConfigFromEnv,
+  getPayPalConfigFromEnv,
+  getLemonSqueezyConfigFromEnv,
+  getPolarConfigFromEnv,
+  getMockConfigFromEnv,
+  readEnv,
+} from "./env.js";
 
-let cachedProvider: PaymentProvider | null = null;
+/**
+ * Configuration for each supported provider, keyed by provider name
+ */
+export interface ProviderConfigs {
+  stripe?: StripeConfig;
+  paddle?: PaddleConfig;
+  paypal?: PayPalConfig;
+  lemonsqueezy?: LemonSqueezyConfig;
+  polar?: PolarConfig;
+  mock?: MockConfig;
+}
 
 /**
- * Gets the configured payment provider instance
- * Uses singleton pattern to cache the provider
+ * Supported provider names
  */
-export function getProvider(): PaymentProvider {
-  if (cachedProvider) {
-    return cachedProvider;
-  }
+export type ProviderName = keyof ProviderConfigs;
 
-  const providerName = process.env.PAYLAYER_PROVIDER || "mock";
+let cachedProvider: PaymentProvider | null = null;
 
-  switch (providerName.toLowerCase()) {
+/**
+ * Resolves provider name aliases ("lemon-squeezy", "polar.sh") to their canonical name
+ * Unknown names resolve to "mock"
+ */
+export function normalizeProviderName(name: string): ProviderName {
+  switch (name.toLowerCase()) {
     case "stripe":
-      cachedProvider = new StripeProvider();
-      break;
+      return "stripe";
     case "paddle":
-      cachedProvider = new PaddleProvider();
-      break;
+      return "paddle";
     case "paypal":
-      cachedProvider = new PayPalProvider();
-      break;
+      return "paypal";
     case "lemonsqueezy":
     case "lemon-squeezy":
-      cachedProvider = new LemonSqueezyProvider();
-      break;
+      return "lemonsqueezy";
     case "polar":
     case "polar.sh":
-      cachedProvider = new PolarProvider();
-      break;
+      return "polar";
     case "mock":
     default:
-      cachedProvider = new MockProvider();
-      break;
+      return "mock";
+  }
+}
+
+/**
+ * Creates a provider instance from explicit configuration
+ *
+ * @param name - Provider name
+ * @param config - Credentials and settings for the provider
+ */
+export function createProvider<N extends ProviderName>(
+  name: N,
+  config: NonNullable<ProviderConfigs[N]>
+): PaymentProvider {
+  switch (name) {
+    case "stripe":
+      return new StripeProvider(config as StripeConfig);
+    case "paddle":
+      return new PaddleProvider(config as PaddleConfig);
+    case "paypal":
+      return new PayPalProvider(config as PayPalConfig);
+    case "lemonsqueezy":
+      return new LemonSqueezyProvider(config as LemonSqueezyConfig);
+    case "polar":
+      return new PolarProvider(config as PolarConfig);
+    case "mock":
+    default: {
+      const mockConfig = config as MockConfig;
+      return mockConfig.serverUrl
+        ? new RemoteMockProvider(mockConfig.serverUrl)
+        : new MockProvider(mockConfig);
+    }
+  }
+}
+
+/**
+ * Gets the webhook secrets configured for a provider, newest first
+ * PayPal uses its webhook ID in place of a shared secret
+ */
+export function getConfiguredWebhookSecrets(
+  name: ProviderName,
+  configs: ProviderConfigs
+): string[] {
+  switch (name) {
+    case "stripe":
+      return toSecretList(configs.stripe?.webhookSecret);
+    case "paddle":
+      return toSecretList(configs.paddle?.webhookSecret);
+    case "paypal":
+      return toSecretList(configs.paypal?.webhookId);
+    case "lemonsqueezy":
+      return toSecretList(configs.lemonsqueezy?.webhookSecret);
+    case "polar":
+      return toSecretList(configs.polar?.webhookSecret);
+    case "mock":
+      return toSecretList(configs.mock?.webhookSecret);
+    default:
+      return [];
+  }
+}
+
+function toSecretList(secrets: string | string[] | undefined): string[] {
+  if (!secrets) {
+    return [];
+  }
+  return (Array.isArray(secrets) ? secrets : [secrets]).filter(Boolean);
+}
+
+/**
+ * Creates a provider instance using credentials from environment variables
+ *
+ * @param name - Provider name or alias
+ */
+export function createProviderFromEnv(name: string): PaymentProvider {
+  switch (normalizeProviderName(name)) {
+    case "stripe":
+      return createProvider("stripe", getStripeConfigFromEnv());
+    case "paddle":
+      return createProvider("paddle", getPaddleConfigFromEnv());
+    case "paypal":
+      return createProvider("paypal", getPayPalConfigFromEnv());
+    case "lemonsqueezy":
+      return createProvider("lemonsqueezy", getLemonSqueezyConfigFromEnv());
+    case "polar":
+      return createProvider("polar", getPolarConfigFromEnv());
+    case "mock":
+    default:
+      return createProvider("mock", getMockConfigFromEnv());
+  }
+}
+
+/**
+ * Gets the configured payment provider instance
+ * Uses singleton pattern to cache the provider
+ */
+export function getProvider(): PaymentProvider {
+  if (cachedProvider) {
+    return cachedProvider;
   }
 
+  cachedProvider = createProviderFromEnv(
+    readEnv("PAYLAYER_PROVIDER") || "mock"
+  );
   return cachedProvider;
 }
 
@@ -0,0 +1,177 @@
+/**
+ * Shared HTTP transport for provider API calls
+ *
+ * Adds per-request timeouts and retries with exponential backoff to fetch.
+ * Only requests that are safe to repeat are retried: idempotent methods,
+ * or requests carrying an idempotency key the provider deduplicates on.
+ */
+
+import { ProviderUnavailableError } from "../errors.js";
+
+/**
+ * Retry and timeout settings shared by every provider config
+ */
+export interface HttpConfig {
+  /** Number of retries after the first attempt (defaults to 2) */
+  maxRetries?: number;
+  /** Timeout for each attempt, in milliseconds (defaults to 30 seconds) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for a single request
+ */
+export interface HttpRequestOptions {
+  /** Whether the request may be sent again after a failure */
+  retry: boolean;
+  /** Overrides the client's timeout for this request, in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Sends provider API requests with timeouts and retries
+ */
+export interface HttpClient {
+  fetch(
+    url: string,
+    init: RequestInit,
+    options: HttpRequestOptions
+  ): Promise<Response>;
+}
+
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+const INITIAL_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8 * 1000;
+// Longest Retry-After we honor before giving up and returning the response
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Checks whether a request can be retried safely
+ *
+ * @param method - HTTP method
+ * @param idempotencyKey - Idempotency key sent with the request, if any
+ */
+export function isRetryableRequest(
+  method: string,
+  idempotencyKey?: string
+): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase()) || !!idempotencyKey;
+}
+
+/**
+ * Creates an HTTP client for a provider
+ *
+ * @param providerName - Provider name attached to errors (e.g. "lemonsqueezy")
+ * @param providerLabel - Provider name used in error messages (e.g. "Lemon Squeezy")
+ * @param config - Retry and timeout settings
+ */
+export function createHttpClient(
+  providerName: string,
+  providerLabel: string,
+  config: HttpConfig = {}
+): HttpClient {
+  const maxRetries = Math.max(0, config.maxRetries ?? DEFAULT_MAX_RETRIES);
+  const defaultTimeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  async function send(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ProviderUnavailableError(
+          `${providerLabel} API request timed out after ${timeoutMs}ms. Request URL: ${url}`,
+          { provider: providerName, cause: error }
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  return {
+    async fetch(url, init, options) {
+      const attempts = options.retry ? maxRetries + 1 : 1;
+      const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+
+      for (let attempt = 1; ; attempt++) {
+        const isLastAttempt = attempt >= attempts;
+        let response: Response;
+        try {
+          response = await send(url, init, timeoutMs);
+        } catch (error) {
+          // Connection resets, DNS failures and timeouts
+          if (isLastAttempt) {
+            throw error;
+          }
+          await sleep(getBackoffDelay(attempt));
+          continue;
+        }
+
+        if (isLastAttempt || !isRetryableStatus(response.status)) {
+          return response;
+        }
+
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) {
+          return response;
+        }
+
+        // Drain the body so the connection can be reused
+        await response.body?.cancel().catch(() => undefined);
+        await sleep(retryAfter ?? getBackoffDelay(attempt));
+      }
+    },
+  };
+}
+
+/**
+ * Request timeouts, rate limits and server errors are worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with jitter: 500ms, 1s, 2s, ... capped at 8s,
+ * each randomized to between half and the full delay
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(
+    INITIAL_RETRY_DELAY_MS * 2 ** (attempt - 1),
+    MAX_RETRY_DELAY_MS
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
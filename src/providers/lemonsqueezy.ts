@@ -2,31 +2,118 @@
  * Lemon Squeezy provider implementation
  */
 
-import { createHmac } from "node:crypto";
 import type { PaymentProvider } from "./types.js";
 import type {
   ChargeInput,
   ChargeResult,
   SubscribeInput,
   SubscriptionResult,
+  RefundInput,
+  RefundResult,
+  CurrencyCode,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  SubscriptionStatus,
+  ChangePlanInput,
+  WebhookVerificationResult,
 } from "../types.js";
-import { isSandbox } from "./env.js";
+import { toMinorUnits, fromMinorUnits } from "../money.js";
+import {
+  ConfigurationError,
+  createProviderError,
+  InvalidRequestError,
+  NotFoundError,
+  PayLayerError,
+  ProviderUnavailableError,
+  withErrorMessage,
+} from "../errors.js";
+import {
+  createHttpClient,
+  isRetryableRequest,
+  type HttpClient,
+  type HttpConfig,
+} from "./http.js";
+import { VERIFIED, verificationFailed } from "./webhook-verification.js";
+import { hmacSha256, timingSafeEqual, toBytes, toHex } from "../crypto.js";
+
+interface LemonSqueezySubscription {
+  id: string;
+  attributes: {
+    status: string;
+    variant_id: number | string;
+    customer_id?: number | string;
+    user_email?: string;
+    currency?: string;
+    cancelled?: boolean;
+    trial_ends_at?: string | null;
+    renews_at?: string | null;
+    ends_at?: string | null;
+    first_subscription_item?: {
+      id: number | string;
+      quantity?: number;
+    } | null;
+  };
+}
+
+interface LemonSqueezySubscriptionList {
+  data: LemonSqueezySubscription[];
+  meta?: {
+    page?: {
+      currentPage: number;
+      lastPage: number;
+    };
+  };
+}
+
+/**
+ * Credentials and settings for a Lemon Squeezy provider instance
+ */
+export interface LemonSqueezyConfig extends HttpConfig {
+  /** Lemon Squeezy API key */
+  apiKey: string;
+  /** Store ID used for checkouts and customer lookups */
+  storeId?: string;
+  /** Webhook signing secret; list several while rotating, newest first */
+  webhookSecret?: string | string[];
+  /** Create checkouts in test mode */
+  sandbox?: boolean;
+  /** Overrides the API base URL */
+  baseUrl?: string;
+  /** Variant charged when a one-time charge passes neither productId nor priceId */
+  defaultVariantId?: string;
+  /** Store subdomain, used for the billing portal URL when no signed URL is available */
+  storeSubdomain?: string;
+  /** Billing portal base URL used as a last resort (defaults to https://app.lemonsqueezy.com) */
+  portalBaseUrl?: string;
+}
 
 export class LemonSqueezyProvider implements PaymentProvider {
   readonly name = "lemonsqueezy";
+  readonly supportsIdempotencyKeys = false;
   private apiKey: string;
   private baseUrl: string;
-
-  constructor() {
-    const apiKey = process.env.LEMONSQUEEZY_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "LEMONSQUEEZY_API_KEY environment variable is required for Lemon Squeezy provider"
+  private storeId: string | undefined;
+  private sandbox: boolean;
+  private http: HttpClient;
+  private defaultVariantId: string | undefined;
+  private storeSubdomain: string | undefined;
+  private portalBaseUrl: string;
+
+  constructor(config: LemonSqueezyConfig) {
+    if (!config.apiKey) {
+      throw new ConfigurationError(
+        "An API key is required for Lemon Squeezy provider",
+        { provider: "lemonsqueezy" }
       );
     }
-    this.apiKey = apiKey;
-    this.baseUrl =
-      process.env.LEMONSQUEEZY_BASE_URL || "https://api.lemonsqueezy.com";
+    this.apiKey = config.apiKey;
+    this.storeId = config.storeId;
+    this.sandbox = config.sandbox ?? false;
+    this.baseUrl = config.baseUrl || "https://api.lemonsqueezy.com";
+    this.http = createHttpClient(this.name, "Lemon Squeezy", config);
+    this.defaultVariantId = config.defaultVariantId;
+    this.storeSubdomain = config.storeSubdomain;
+    this.portalBaseUrl = config.portalBaseUrl || "https://app.lemonsqueezy.com";
   }
 
   private async request(
@@ -36,43 +123,35 @@ export class LemonSqueezyProvider implements PaymentProvider {
   ): Promise<unknown> {
     const url = `${this.baseUrl}${endpoint}`;
 
-    // Create AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-
     try {
-      const response = await fetch(url, {
-        method,
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          Accept: "application/vnd.api+json",
-          "Content-Type": "application/vnd.api+json",
+      const response = await this.http.fetch(
+        url,
+        {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            Accept: "application/vnd.api+json",
+            "Content-Type": "application/vnd.api+json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
         },
-        body: body ? JSON.stringify(body) : undefined,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+        { retry: isRetryableRequest(method) }
+      );
 
       if (!response.ok) {
         const error = await response
           .json()
           .catch(() => ({ message: "Unknown error" }));
-        throw new Error(
-          `Lemon Squeezy API error: ${response.status} - ${JSON.stringify(error)}`
-        );
+        throw this.createApiError(response, error);
       }
 
       return response.json();
     } catch (error) {
-      clearTimeout(timeoutId);
-
-      // Handle AbortController timeout
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(
-          `Lemon Squeezy API request timed out after 30 seconds. Please check your network connection and try again.`
-        );
+      // Timeouts and API errors are already mapped by the HTTP client
+      if (error instanceof PayLayerError) {
+        throw error;
       }
+      const networkError = { provider: this.name, cause: error };
 
       // Handle network-level errors (connection timeouts, DNS failures, etc.)
       if (error instanceof Error) {
@@ -101,7 +180,7 @@ export class LemonSqueezyProvider implements PaymentProvider {
             errorCodes.has("ETIMEDOUT") ||
             aggregateError.code === "ETIMEDOUT"
           ) {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Lemon Squeezy API connection timed out. This usually indicates:\n` +
                 `  1. Network connectivity issues\n` +
                 `  2. The API endpoint (${url}) is unreachable\n` +
@@ -111,7 +190,8 @@ export class LemonSqueezyProvider implements PaymentProvider {
                 `  - Your internet connection is working\n` +
                 `  - The LEMONSQUEEZY_BASE_URL is correct (currently: ${this.baseUrl})\n` +
                 `  - No firewall/proxy is blocking outbound HTTPS connections\n` +
-                `  - Try accessing ${this.baseUrl} in your browser to verify it's reachable`
+                `  - Try accessing ${this.baseUrl} in your browser to verify it's reachable`,
+              networkError
             );
           }
 
@@ -119,9 +199,10 @@ export class LemonSqueezyProvider implements PaymentProvider {
             errorCodes.has("ECONNREFUSED") ||
             aggregateError.code === "ECONNREFUSED"
           ) {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Lemon Squeezy API connection refused. The server at ${url} is not accepting connections.\n` +
-                `Please verify the LEMONSQUEEZY_BASE_URL is correct (currently: ${this.baseUrl})`
+                `Please verify the LEMONSQUEEZY_BASE_URL is correct (currently: ${this.baseUrl})`,
+              networkError
             );
           }
 
@@ -129,20 +210,22 @@ export class LemonSqueezyProvider implements PaymentProvider {
             errorCodes.has("ENOTFOUND") ||
             aggregateError.code === "ENOTFOUND"
           ) {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Lemon Squeezy API hostname not found. DNS resolution failed for ${this.baseUrl}.\n` +
                 `Please verify:\n` +
                 `  - Your DNS settings are correct\n` +
                 `  - The LEMONSQUEEZY_BASE_URL is correct (currently: ${this.baseUrl})\n` +
-                `  - You have internet connectivity`
+                `  - You have internet connectivity`,
+              networkError
             );
           }
 
           // Generic AggregateError handling
-          throw new Error(
+          throw new ProviderUnavailableError(
             `Lemon Squeezy API network error: ${error.message}\n` +
               `This may indicate connectivity issues. Please check your network connection and try again.\n` +
-              `Request URL: ${url}`
+              `Request URL: ${url}`,
+            networkError
           );
         }
 
@@ -151,48 +234,39 @@ export class LemonSqueezyProvider implements PaymentProvider {
           const errorCode = (error as Error & { code?: string }).code;
 
           if (errorCode === "ETIMEDOUT") {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Lemon Squeezy API connection timed out. Please check your network connection.\n` +
-                `Request URL: ${url}`
+                `Request URL: ${url}`,
+              networkError
             );
           }
 
           if (errorCode === "ECONNREFUSED") {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Lemon Squeezy API connection refused. The server is not accepting connections.\n` +
-                `Request URL: ${url}`
+                `Request URL: ${url}`,
+              networkError
             );
           }
 
           if (errorCode === "ENOTFOUND") {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Lemon Squeezy API hostname not found. DNS resolution failed.\n` +
-                `Request URL: ${url}`
+                `Request URL: ${url}`,
+              networkError
             );
           }
         }
 
-        // Check if error message contains timeout-related keywords
-        const errorMessage = error.message.toLowerCase();
-        if (
-          errorMessage.includes("timeout") ||
-          errorMessage.includes("timed out")
-        ) {
-          throw new Error(
-            `Lemon Squeezy API request timed out: ${error.message}\n` +
-              `This usually indicates network connectivity issues. Please check your connection and try again.\n` +
-              `Request URL: ${url}`
-          );
-        }
-
-        // Check if error message contains fetch failed
-        if (errorMessage.includes("fetch failed")) {
-          throw new Error(
+        // fetch() rejects with a TypeError when no response arrives
+        if (error instanceof TypeError) {
+          throw new ProviderUnavailableError(
             `Lemon Squeezy API request failed: ${error.message}\n` +
               `This usually indicates a network connectivity issue. Please verify:\n` +
               `  - Your internet connection is working\n` +
               `  - The API endpoint is reachable: ${url}\n` +
-              `  - No firewall or proxy is blocking the connection`
+              `  - No firewall or proxy is blocking the connection`,
+            networkError
           );
         }
       }
@@ -202,11 +276,76 @@ export class LemonSqueezyProvider implements PaymentProvider {
     }
   }
 
+  /**
+   * Maps a failed API response to a PayLayer error
+   * Lemon Squeezy returns JSON:API errors: { errors: [{ status, code, detail }] }
+   */
+  private createApiError(response: Response, error: unknown): PayLayerError {
+    const firstError = (error as { errors?: Array<{ code?: string }> })
+      .errors?.[0];
+    return createProviderError(
+      `Lemon Squeezy API error: ${response.status} - ${JSON.stringify(error)}`,
+      {
+        provider: this.name,
+        status: response.status,
+        code: firstError?.code,
+        raw: error,
+      }
+    );
+  }
+
+  /**
+   * Checks whether a variant bills as a subscription, from the variant and its prices
+   * Lookup failures (network, invalid variant ID, etc.) are left for the
+   * checkout request to report, so this returns undefined for them
+   */
+  private async isSubscriptionVariant(
+    variantId: string
+  ): Promise<boolean | undefined> {
+    try {
+      const variant = (await this.request(
+        "GET",
+        `/v1/variants/${variantId}`
+      )) as {
+        data: {
+          id: string;
+          attributes: {
+            is_subscription?: boolean;
+          };
+        };
+      };
+
+      const encodedVariantId = encodeURIComponent(variantId);
+      const prices = (await this.request(
+        "GET",
+        `/v1/prices?filter[variant_id]=${encodedVariantId}`
+      )) as {
+        data?: Array<{
+          attributes: {
+            category?: string;
+          };
+        }>;
+      };
+
+      return (
+        variant.data.attributes.is_subscription === true ||
+        (prices.data ?? []).some(
+          (price) => price.attributes.category === "subscription"
+        )
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
   async charge(input: ChargeInput): Promise<ChargeResult> {
     // Lemon Squeezy uses checkouts for one-time payments
-    const storeId = process.env.LEMONSQUEEZY_STORE_ID;
+    const storeId = this.storeId;
     if (!storeId) {
-      throw new Error("LEMONSQUEEZY_STORE_ID is required for charges");
+      throw new ConfigurationError(
+        "A store ID is required for Lemon Squeezy charges",
+        { provider: this.name }
+      );
     }
 
     let variantId: string;
@@ -218,60 +357,36 @@ export class LemonSqueezyProvider implements PaymentProvider {
       const encodedProductId = encodeURIComponent(input.productId);
       // Use a shorter timeout for the variants lookup (10 seconds)
       const variantsUrl = `${this.baseUrl}/v1/variants?filter[product_id]=${encodedProductId}`;
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
 
+      let variants: { data?: Array<{ id: string }> };
       try {
-        const response = await fetch(variantsUrl, {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            Accept: "application/vnd.api+json",
-            "Content-Type": "application/vnd.api+json",
+        const response = await this.http.fetch(
+          variantsUrl,
+          {
+            method: "GET",
+            headers: {
+              Authorization: `Bearer ${this.apiKey}`,
+              Accept: "application/vnd.api+json",
+              "Content-Type": "application/vnd.api+json",
+            },
           },
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
+          { retry: true, timeoutMs: 10000 }
+        );
 
         if (!response.ok) {
           const error = await response
             .json()
             .catch(() => ({ message: "Unknown error" }));
-          throw new Error(
-            `Lemon Squeezy API error: ${response.status} - ${JSON.stringify(error)}`
-          );
+          throw this.createApiError(response, error);
         }
 
-        const variants = (await response.json()) as {
+        variants = (await response.json()) as {
           data?: Array<{ id: string }>;
         };
-
-        if (!variants.data || variants.data.length === 0) {
-          throw new Error(
-            `No variants found for product "${input.productId}". Please ensure the product has at least one variant configured.`
-          );
-        }
-
-        variantId = variants.data[0].id;
       } catch (error) {
-        clearTimeout(timeoutId);
-
         // If fetching variants fails, provide a helpful error message
-        if (error instanceof Error) {
-          // Preserve "No variants found" errors
-          if (error.message.includes("No variants found")) {
-            throw error;
-          }
-
-          // Handle AbortController timeout
-          if (error.name === "AbortError") {
-            throw new Error(
-              `Request to fetch variants for product "${input.productId}" timed out after 10 seconds. ` +
-                `This may indicate a network issue or the Lemon Squeezy API is unavailable. ` +
-                `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`
-            );
-          }
+        if (error instanceof Error && !(error instanceof PayLayerError)) {
+          const networkError = { provider: this.name, cause: error };
 
           // Handle network-level errors (connection timeouts, DNS failures, etc.)
           if (error.name === "AggregateError" && "errors" in error) {
@@ -296,10 +411,11 @@ export class LemonSqueezyProvider implements PaymentProvider {
               errorCodes.has("ETIMEDOUT") ||
               aggregateError.code === "ETIMEDOUT"
             ) {
-              throw new Error(
+              throw new ProviderUnavailableError(
                 `Failed to fetch variants for product "${input.productId}": Connection timed out. ` +
                   `This usually indicates network connectivity issues. ` +
-                  `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`
+                  `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`,
+                networkError
               );
             }
 
@@ -307,10 +423,11 @@ export class LemonSqueezyProvider implements PaymentProvider {
               errorCodes.has("ECONNREFUSED") ||
               aggregateError.code === "ECONNREFUSED"
             ) {
-              throw new Error(
+              throw new ProviderUnavailableError(
                 `Failed to fetch variants for product "${input.productId}": Connection refused. ` +
                   `The Lemon Squeezy API server is not accepting connections. ` +
-                  `Please verify your network connection and API endpoint configuration.`
+                  `Please verify your network connection and API endpoint configuration.`,
+                networkError
               );
             }
 
@@ -318,9 +435,10 @@ export class LemonSqueezyProvider implements PaymentProvider {
               errorCodes.has("ENOTFOUND") ||
               aggregateError.code === "ENOTFOUND"
             ) {
-              throw new Error(
+              throw new ProviderUnavailableError(
                 `Failed to fetch variants for product "${input.productId}": Hostname not found. ` +
-                  `DNS resolution failed. Please check your network connection and DNS settings.`
+                  `DNS resolution failed. Please check your network connection and DNS settings.`,
+                networkError
               );
             }
           }
@@ -333,99 +451,63 @@ export class LemonSqueezyProvider implements PaymentProvider {
               errorCode === "ECONNREFUSED" ||
               errorCode === "ENOTFOUND"
             ) {
-              throw new Error(
+              throw new ProviderUnavailableError(
                 `Failed to fetch variants for product "${input.productId}": Network error (${errorCode}). ` +
-                  `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`
+                  `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`,
+                networkError
               );
             }
           }
 
-          // Check if error message contains timeout-related keywords
-          const errorMessage = error.message.toLowerCase();
-          if (
-            errorMessage.includes("timeout") ||
-            errorMessage.includes("timed out") ||
-            errorMessage.includes("fetch failed")
-          ) {
-            throw new Error(
+          // fetch() rejects with a TypeError when no response arrives
+          if (error instanceof TypeError) {
+            throw new ProviderUnavailableError(
               `Failed to fetch variants for product "${input.productId}": ${error.message}. ` +
                 `This usually indicates network connectivity issues. ` +
-                `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`
+                `Please try using priceId (variant ID) directly instead of productId, or check your network connection.`,
+              networkError
             );
           }
         }
 
-        throw new Error(
+        throw withErrorMessage(
+          error,
           `Failed to fetch variants for product "${input.productId}": ${error instanceof Error ? error.message : "Unknown error"}. ` +
             `Please verify the product ID is correct and you have API access, or use priceId (variant ID) directly instead.`
         );
       }
+
+      if (!variants.data || variants.data.length === 0) {
+        throw new NotFoundError(
+          `No variants found for product "${input.productId}". Please ensure the product has at least one variant configured.`,
+          { provider: this.name }
+        );
+      }
+
+      variantId = variants.data[0].id;
     } else if (input.priceId) {
       // In Lemon Squeezy, priceId refers to a variant ID
       // Validate that the variant is one-time (not subscription)
-      try {
-        const variant = (await this.request(
-          "GET",
-          `/v1/variants/${input.priceId}`
-        )) as {
-          data: {
-            id: string;
-            attributes: {
-              is_subscription?: boolean;
-            };
-          };
-        };
-
-        // Also check prices to be thorough
-        const encodedVariantId = encodeURIComponent(input.priceId);
-        const prices = (await this.request(
-          "GET",
-          `/v1/prices?filter[variant_id]=${encodedVariantId}`
-        )) as {
-          data?: Array<{
-            attributes: {
-              category?: string;
-            };
-          }>;
-        };
-
-        const isSubscription =
-          variant.data.attributes.is_subscription === true ||
-          (prices.data &&
-            prices.data.length > 0 &&
-            prices.data.some(
-              (price) => price.attributes.category === "subscription"
-            ));
-
-        if (isSubscription) {
-          throw new Error(
-            `The variant "${input.priceId}" is configured as a recurring subscription, but you're using it with charge().\n` +
-              `To create a one-time payment, please:\n` +
-              `1. Go to your Lemon Squeezy Dashboard → Products\n` +
-              `2. Create a new variant with one-time pricing (not subscription)\n` +
-              `3. Use the new one-time variant ID in charge()\n\n` +
-              `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`
-          );
-        }
-      } catch (error) {
-        // If it's our validation error, re-throw it
-        if (
-          error instanceof Error &&
-          error.message.includes("configured as a recurring subscription")
-        ) {
-          throw error;
-        }
-        // For other errors (network, invalid variant ID, etc.), let them propagate
-        // The API will handle them appropriately
+      if ((await this.isSubscriptionVariant(input.priceId)) === true) {
+        throw new InvalidRequestError(
+          `The variant "${input.priceId}" is configured as a recurring subscription, but you're using it with charge().\n` +
+            `To create a one-time payment, please:\n` +
+            `1. Go to your Lemon Squeezy Dashboard → Products\n` +
+            `2. Create a new variant with one-time pricing (not subscription)\n` +
+            `3. Use the new one-time variant ID in charge()\n\n` +
+            `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`,
+          { provider: this.name }
+        );
       }
 
       variantId = input.priceId;
     } else {
-      // Only amount provided - use default variant ID from environment
-      variantId = process.env.LEMONSQUEEZY_DEFAULT_VARIANT_ID;
+      // Only amount provided - use the configured default variant ID
+      variantId = this.defaultVariantId;
       if (!variantId) {
-        throw new Error(
-          "Either productId or priceId must be provided in input, or LEMONSQUEEZY_DEFAULT_VARIANT_ID environment variable must be set when using only amount. Create a variant in Lemon Squeezy dashboard first."
+        throw new InvalidRequestError(
+          "Either productId or priceId must be provided in input, or a default variant must be configured (defaultVariantId or LEMONSQUEEZY_DEFAULT_VARIANT_ID) when using only amount. Create a variant in Lemon Squeezy dashboard first.",
+          { provider: this.name }
         );
       }
     }
@@ -456,7 +538,7 @@ export class LemonSqueezyProvider implements PaymentProvider {
       },
       expires_at: null,
       preview: false,
-      test_mode: isSandbox(this.name),
+      test_mode: this.sandbox,
     };
 
     // If priceId is explicitly provided, use the variant's price (don't override with amount)
@@ -464,9 +546,11 @@ export class LemonSqueezyProvider implements PaymentProvider {
     // If only amount is provided (fetched variant from store), allow amount to override variant price
     // Only set custom_price when amount should override the variant price
     if (input.amount && !input.priceId) {
-      // Convert amount to cents (Lemon Squeezy uses smallest currency unit)
-      const amountInCents = Math.round(input.amount * 100);
-      checkoutAttributes.custom_price = amountInCents;
+      // Lemon Squeezy expects the amount in the currency's smallest unit
+      checkoutAttributes.custom_price = toMinorUnits(
+        input.amount,
+        input.currency
+      );
     }
     // If priceId is explicitly provided, we don't set custom_price - the variant's price will be used
 
@@ -522,72 +606,34 @@ export class LemonSqueezyProvider implements PaymentProvider {
 
   async subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
     if (!input.email) {
-      throw new Error("Email is required for Lemon Squeezy subscriptions");
+      throw new InvalidRequestError(
+        "Email is required for Lemon Squeezy subscriptions",
+        { provider: this.name }
+      );
     }
 
     // Lemon Squeezy uses subscriptions
     // The plan should be a variant ID with subscription pricing
-    const storeId = process.env.LEMONSQUEEZY_STORE_ID;
+    const storeId = this.storeId;
     if (!storeId) {
-      throw new Error("LEMONSQUEEZY_STORE_ID is required for subscriptions");
+      throw new ConfigurationError(
+        "A store ID is required for Lemon Squeezy subscriptions",
+        { provider: this.name }
+      );
     }
 
     // Validate that the variant is configured for subscriptions (not one-time)
-    try {
-      const variant = (await this.request(
-        "GET",
-        `/v1/variants/${input.plan}`
-      )) as {
-        data: {
-          id: string;
-          attributes: {
-            is_subscription?: boolean;
-          };
-        };
-      };
-
-      // Also check prices to be thorough
-      const encodedVariantId = encodeURIComponent(input.plan);
-      const prices = (await this.request(
-        "GET",
-        `/v1/prices?filter[variant_id]=${encodedVariantId}`
-      )) as {
-        data?: Array<{
-          attributes: {
-            category?: string;
-          };
-        }>;
-      };
-
-      const isSubscription =
-        variant.data.attributes.is_subscription === true ||
-        (prices.data &&
-          prices.data.length > 0 &&
-          prices.data.some(
-            (price) => price.attributes.category === "subscription"
-          ));
-
-      if (!isSubscription) {
-        throw new Error(
-          `The variant "${input.plan}" is configured as a one-time payment, but you're using it with subscribe().\n` +
-            `To create a subscription, please:\n` +
-            `1. Go to your Lemon Squeezy Dashboard → Products\n` +
-            `2. Create a new variant with subscription pricing enabled\n` +
-            `3. Set the renewal interval (monthly, yearly, etc.)\n` +
-            `4. Use the new subscription variant ID in subscribe()\n\n` +
-            `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`
-        );
-      }
-    } catch (error) {
-      // If it's our validation error, re-throw it
-      if (
-        error instanceof Error &&
-        error.message.includes("configured as a one-time payment")
-      ) {
-        throw error;
-      }
-      // For other errors (network, invalid variant ID, etc.), let them propagate
-      // The API will handle them appropriately
+    if ((await this.isSubscriptionVariant(input.plan)) === false) {
+      throw new InvalidRequestError(
+        `The variant "${input.plan}" is configured as a one-time payment, but you're using it with subscribe().\n` +
+          `To create a subscription, please:\n` +
+          `1. Go to your Lemon Squeezy Dashboard → Products\n` +
+          `2. Create a new variant with subscription pricing enabled\n` +
+          `3. Set the renewal interval (monthly, yearly, etc.)\n` +
+          `4. Use the new subscription variant ID in subscribe()\n\n` +
+          `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`,
+        { provider: this.name }
+      );
     }
 
     // Create a checkout for subscription
@@ -617,7 +663,7 @@ export class LemonSqueezyProvider implements PaymentProvider {
           },
           expires_at: null,
           preview: false,
-          test_mode: isSandbox(this.name),
+          test_mode: this.sandbox,
         },
         relationships: {
           store: {
@@ -677,8 +723,9 @@ export class LemonSqueezyProvider implements PaymentProvider {
 
     // Verify the subscription was cancelled
     if (response.data.attributes.status !== "cancelled") {
-      throw new Error(
-        `Failed to cancel subscription: status is ${response.data.attributes.status}`
+      throw new PayLayerError(
+        `Failed to cancel subscription: status is ${response.data.attributes.status}`,
+        { provider: this.name }
       );
     }
 
@@ -767,11 +814,152 @@ export class LemonSqueezyProvider implements PaymentProvider {
     };
   }
 
+  async changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    // Lemon Squeezy prorates onto the next renewal by default
+    // invoice_immediately charges the difference now, disable_prorations skips it
+    const prorationAttributes = {
+      invoice_immediately: input.proration === "immediate",
+      disable_prorations: input.proration === "none",
+    };
+
+    const response = (await this.request(
+      "PATCH",
+      `/v1/subscriptions/${input.subscriptionId}`,
+      {
+        data: {
+          type: "subscriptions",
+          id: input.subscriptionId,
+          attributes: {
+            variant_id: parseInt(input.plan, 10),
+            ...prorationAttributes,
+          },
+        },
+      }
+    )) as { data: LemonSqueezySubscription };
+
+    // Quantity lives on the subscription item, not the subscription
+    const item = response.data.attributes.first_subscription_item;
+    if (input.quantity !== undefined && item) {
+      await this.request("PATCH", `/v1/subscription-items/${item.id}`, {
+        data: {
+          type: "subscription-items",
+          id: String(item.id),
+          attributes: {
+            quantity: input.quantity,
+            ...prorationAttributes,
+          },
+        },
+      });
+      item.quantity = input.quantity;
+    }
+
+    // Lemon Squeezy does not report the prorated amount
+    return this.mapSubscription(response.data);
+  }
+
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    const response = (await this.request(
+      "GET",
+      `/v1/subscriptions/${subscriptionId}`
+    )) as { data: LemonSqueezySubscription };
+
+    return this.mapSubscription(response.data);
+  }
+
+  async listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    // Lemon Squeezy filters subscriptions by email, not customer ID
+    let email = input.email;
+    if (!email && input.customerId) {
+      const customer = (await this.request(
+        "GET",
+        `/v1/customers/${input.customerId}`
+      )) as { data: { attributes: { email: string } } };
+      email = customer.data.attributes.email;
+    }
+
+    const statusFilters: Record<SubscriptionStatus, string> = {
+      active: "active",
+      paused: "paused",
+      cancelled: "cancelled",
+      past_due: "past_due",
+    };
+
+    // Lemon Squeezy uses page-number pagination, so the cursor is the page number
+    const page = input.cursor ? parseInt(input.cursor, 10) : 1;
+    const params = new URLSearchParams({
+      "filter[user_email]": email!,
+      "page[number]": String(page),
+      "page[size]": String(input.limit ?? 10),
+    });
+    if (this.storeId) {
+      params.set("filter[store_id]", this.storeId);
+    }
+    if (input.status) {
+      params.set("filter[status]", statusFilters[input.status]);
+    }
+
+    const response = (await this.request(
+      "GET",
+      `/v1/subscriptions?${params.toString()}`
+    )) as LemonSqueezySubscriptionList;
+
+    const hasMore = response.meta?.page
+      ? response.meta.page.currentPage < response.meta.page.lastPage
+      : false;
+    return {
+      data: response.data.map((subscription) =>
+        this.mapSubscription(subscription)
+      ),
+      hasMore,
+      nextCursor: hasMore ? String(page + 1) : undefined,
+    };
+  }
+
+  /**
+   * Maps a Lemon Squeezy subscription to a SubscriptionResult
+   * Lemon Squeezy does not expose the period start, and "cancelled" subscriptions
+   * stay usable until ends_at
+   */
+  private mapSubscription(
+    subscription: LemonSqueezySubscription
+  ): SubscriptionResult {
+    const attributes = subscription.attributes;
+    let status: SubscriptionStatus = "active";
+    if (attributes.status === "cancelled" || attributes.status === "expired") {
+      status = "cancelled";
+    } else if (attributes.status === "paused") {
+      status = "paused";
+    } else if (
+      attributes.status === "past_due" ||
+      attributes.status === "unpaid"
+    ) {
+      status = "past_due";
+    }
+
+    return {
+      id: subscription.id,
+      status,
+      plan: attributes.variant_id ? String(attributes.variant_id) : "unknown",
+      currency: (attributes.currency?.toUpperCase() || "USD") as CurrencyCode,
+      provider: this.name,
+      email: attributes.user_email,
+      customerId: attributes.customer_id
+        ? String(attributes.customer_id)
+        : undefined,
+      quantity: attributes.first_subscription_item?.quantity,
+      currentPeriodEnd: attributes.renews_at || attributes.ends_at || undefined,
+      cancelAtPeriodEnd: attributes.cancelled ?? false,
+      trialEnd: attributes.trial_ends_at || undefined,
+    };
+  }
+
   async portal(email: string): Promise<string> {
     // Lemon Squeezy customer portal - try to get signed URL from API
     // First, try to find customer by email
     try {
-      const storeId = process.env.LEMONSQUEEZY_STORE_ID;
+      const storeId = this.storeId;
       if (storeId) {
         // List customers and filter by email
         const response = (await this.request(
@@ -806,55 +994,114 @@ export class LemonSqueezyProvider implements PaymentProvider {
     }
 
     // Fallback to unsigned URL using store subdomain
-    const storeSubdomain = process.env.LEMONSQUEEZY_STORE_SUBDOMAIN;
-    if (storeSubdomain) {
-      return `https://${storeSubdomain}.lemonsqueezy.com/billing`;
+    if (this.storeSubdomain) {
+      return `https://${this.storeSubdomain}.lemonsqueezy.com/billing`;
     }
 
     // Last resort: use generic billing URL (will require login)
-    const baseUrl =
-      process.env.LEMONSQUEEZY_PORTAL_BASE_URL ||
-      "https://app.lemonsqueezy.com";
-    return `${baseUrl}/billing`;
+    return `${this.portalBaseUrl}/billing`;
+  }
+
+  /**
+   * Refunds an order in full or in part
+   * Lemon Squeezy processes refunds synchronously and returns the updated order
+   *
+   * @param input - Refund input with order ID and optional amount
+   * @returns Refund result with order ID, status and refunded amount
+   * @throws {InvalidRequestError} If metadata is passed
+   */
+  async refund(input: RefundInput): Promise<RefundResult> {
+    // Refunds update the order, which has no custom data of its own
+    if (input.metadata) {
+      throw new InvalidRequestError(
+        "Lemon Squeezy refunds cannot carry metadata. Remove metadata from the refund input.",
+        { provider: this.name }
+      );
+    }
+
+    const attributes: Record<string, unknown> = {};
+    if (input.amount !== undefined) {
+      // Amount is in the smallest currency unit, so look up the order's currency first
+      const existingOrder = (await this.request(
+        "GET",
+        `/v1/orders/${input.paymentId}`
+      )) as {
+        data: { id: string; attributes: { currency: string } };
+      };
+      attributes.amount = toMinorUnits(
+        input.amount,
+        existingOrder.data.attributes.currency
+      );
+    }
+
+    const response = (await this.request(
+      "POST",
+      `/v1/orders/${input.paymentId}/refund`,
+      {
+        data: {
+          type: "orders",
+          id: input.paymentId,
+          attributes,
+        },
+      }
+    )) as {
+      data: {
+        id: string;
+        attributes: {
+          status: string;
+          currency: string;
+          refunded: boolean;
+          refunded_amount?: number;
+        };
+      };
+    };
+
+    const order = response.data.attributes;
+
+    return {
+      id: response.data.id,
+      paymentId: input.paymentId,
+      status:
+        order.refunded ||
+        order.status === "refunded" ||
+        order.status === "partial_refund"
+          ? "succeeded"
+          : "pending",
+      amount:
+        order.refunded_amount !== undefined
+          ? fromMinorUnits(order.refunded_amount, order.currency)
+          : input.amount || 0,
+      currency: order.currency.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      reason: input.reason,
+    };
   }
 
-  verifyWebhook(
-    payload: string | Buffer,
+  async verifyWebhook(
+    payload: string | Uint8Array,
     signature: string,
     secret: string
-  ): boolean {
-    const webhookSecret =
-      secret || process.env.LEMONSQUEEZY_WEBHOOK_SECRET || "";
-    if (!webhookSecret || !signature) {
-      return false;
+  ): Promise<WebhookVerificationResult> {
+    if (!signature) {
+      return verificationFailed("missing_signature");
+    }
+    if (!secret) {
+      return verificationFailed("invalid_signature");
     }
 
     // Lemon Squeezy uses HMAC SHA256 for webhook verification
+    // The signature carries no timestamp, so there is no replay window to enforce
     try {
-      const payloadString =
-        typeof payload === "string" ? payload : payload.toString("utf-8");
-
       // Compute HMAC SHA256
-      const hmac = createHmac("sha256", webhookSecret);
-      hmac.update(payloadString);
-      const computedHash = hmac.digest("hex");
+      const computedHash = toHex(await hmacSha256(secret, payload));
 
       // Compare hashes using constant-time comparison
-      return this.constantTimeEquals(signature, computedHash);
+      return timingSafeEqual(toBytes(signature), toBytes(computedHash))
+        ? VERIFIED
+        : verificationFailed("invalid_signature");
     } catch {
-      return false;
-    }
-  }
-
-  private constantTimeEquals(a: string, b: string): boolean {
-    if (a.length !== b.length) {
-      return false;
-    }
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+      return verificationFailed("invalid_signature");
     }
-    return result === 0;
   }
 
   normalizeWebhookEvent(rawEvent: unknown): unknown {
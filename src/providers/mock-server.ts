@@ -0,0 +1,549 @@
+/**
+ * Local checkout and billing portal pages for the mock provider
+ *
+ * Serves the URLs returned by MockProvider so end-to-end tests can finish a
+ * purchase in a browser: the tester pays, declines or cancels, the checkout
+ * is completed in the MockStore, the matching webhook is posted to the app
+ * and the browser is redirected to the checkout's success or cancel URL.
+ *
+ * The server also answers RemoteMockProvider calls under /api, so an app in
+ * another process can use the server's store.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { EventType } from "../types.js";
+import { PayLayerError } from "../errors.js";
+import { signStandardWebhook } from "../standard-webhooks.js";
+import {
+  MOCK_WEBHOOK_HEADERS,
+  MockProvider,
+  REMOTE_MOCK_METHODS,
+  type RemoteMockMethod,
+} from "./mock.js";
+import {
+  mockStore,
+  type MockCharge,
+  type MockCheckout,
+  type MockCheckoutOutcome,
+  type MockStore,
+  type MockSubscription,
+} from "./mock-store.js";
+
+/**
+ * Settings for the mock checkout server
+ */
+export interface MockCheckoutServerOptions {
+  /** State shared with the mock provider (defaults to the default mockStore) */
+  store?: MockStore;
+  /** Port to listen on (defaults to 4242; 0 picks a free port) */
+  port?: number;
+  /** Interface to listen on (defaults to 127.0.0.1) */
+  host?: string;
+  /** Endpoint that receives a webhook for every checkout and portal action */
+  webhookUrl?: string;
+  /**
+   * Secret used to sign posted webhooks (Standard Webhooks scheme); configure
+   * the same value as the receiving mock provider's webhookSecret
+   * Webhooks are unsigned when omitted.
+   */
+  webhookSecret?: string;
+}
+
+/**
+ * Running mock checkout server
+ */
+export interface MockCheckoutServer {
+  /** Base URL to use as the mock provider's checkoutBaseUrl and portalBaseUrl */
+  url: string;
+  /** Stops accepting connections and waits for open ones to finish */
+  close(): Promise<void>;
+}
+
+const DEFAULT_PORT = 4242;
+const DEFAULT_HOST = "127.0.0.1";
+
+const CHECKOUT_ACTIONS: Record<string, MockCheckoutOutcome> = {
+  pay: "paid",
+  decline: "declined",
+  cancel: "cancelled",
+};
+
+const PORTAL_ACTIONS: Record<
+  string,
+  { status: "active" | "paused" | "cancelled"; type: EventType }
+> = {
+  cancel: { status: "cancelled", type: "subscription.cancelled" },
+  pause: { status: "paused", type: "subscription.paused" },
+  resume: { status: "active", type: "subscription.resumed" },
+};
+
+/**
+ * Starts a local server for mock checkout and billing portal pages
+ *
+ * The server's pages complete checkouts in its MockStore. When the app runs in
+ * the same process, pass the server and the mock provider the same store.
+ * An app in another process sets the mock provider's `serverUrl` to the
+ * server's URL instead, so its calls run against the server's store.
+ *
+ * @param options - Store, address and webhook endpoint
+ * @returns The server's base URL and a function to stop it
+ *
+ * @example
+ * ```ts
+ * const server = await startMockCheckoutServer({
+ *   webhookUrl: "http://localhost:3000/webhooks",
+ * });
+ * const paylayer = createPayLayer({
+ *   providers: {
+ *     mock: {
+ *       checkoutBaseUrl: server.url,
+ *       portalBaseUrl: server.url,
+ *       store: mockStore,
+ *     },
+ *   },
+ * });
+ *
+ * // From another process
+ * const remote = createPayLayer({
+ *   providers: { mock: { serverUrl: server.url } },
+ * });
+ * ```
+ */
+export async function startMockCheckoutServer(
+  options: MockCheckoutServerOptions = {}
+): Promise<MockCheckoutServer> {
+  const store = options.store || mockStore;
+  const host = options.host || DEFAULT_HOST;
+
+  async function sendWebhook(event: Record<string, unknown>): Promise<void> {
+    if (!options.webhookUrl) {
+      return;
+    }
+    const body = JSON.stringify(event);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (options.webhookSecret) {
+      const id = String(event.id);
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers[MOCK_WEBHOOK_HEADERS.id] = id;
+      headers[MOCK_WEBHOOK_HEADERS.timestamp] = String(timestamp);
+      headers[MOCK_WEBHOOK_HEADERS.signature] = await signStandardWebhook(
+        body,
+        id,
+        timestamp,
+        options.webhookSecret
+      );
+    }
+    try {
+      const response = await fetch(options.webhookUrl, {
+        method: "POST",
+        headers,
+        body,
+      });
+      if (!response.ok) {
+        // eslint-disable-next-line no-console
+        console.error(
+          `Mock checkout server: webhook ${event.type} was answered with ${response.status}`
+        );
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(
+        `Mock checkout server: failed to send webhook ${event.type}:`,
+        error
+      );
+    }
+  }
+
+  async function handleCheckoutAction(
+    checkoutId: string,
+    action: string,
+    res: ServerResponse
+  ): Promise<void> {
+    const outcome = CHECKOUT_ACTIONS[action];
+    if (!outcome) {
+      sendPage(
+        res,
+        400,
+        "Unknown action",
+        `<p>Unknown action ${escapeHtml(action)}.</p>`
+      );
+      return;
+    }
+
+    const before = store.getCheckout(checkoutId);
+    const checkout = store.completeCheckout(checkoutId, outcome);
+    for (const event of getCheckoutEvents(store, before, checkout, outcome)) {
+      await sendWebhook(event);
+    }
+
+    const redirectUrl =
+      outcome === "paid" ? checkout.successUrl : checkout.cancelUrl;
+    if (redirectUrl) {
+      res.writeHead(303, { Location: redirectUrl });
+      res.end();
+      return;
+    }
+    sendPage(
+      res,
+      200,
+      "Checkout finished",
+      `<p>Checkout ${escapeHtml(checkout.status)}.</p>`
+    );
+  }
+
+  async function handlePortalAction(
+    email: string,
+    subscriptionId: string,
+    action: string,
+    res: ServerResponse
+  ): Promise<void> {
+    const portalAction = PORTAL_ACTIONS[action];
+    const subscription = store.getSubscription(subscriptionId);
+    if (!portalAction) {
+      sendPage(
+        res,
+        400,
+        "Unknown action",
+        `<p>Unknown action ${escapeHtml(action)}.</p>`
+      );
+      return;
+    }
+    if (!subscription || subscription.email !== email) {
+      sendPage(
+        res,
+        404,
+        "Not found",
+        `<p>Subscription ${escapeHtml(subscriptionId)} not found.</p>`
+      );
+      return;
+    }
+
+    const updated = store.transitionSubscription(
+      subscriptionId,
+      portalAction.status
+    );
+    await sendWebhook(
+      createEvent(portalAction.type, { subscription: updated })
+    );
+
+    res.writeHead(303, { Location: getPortalPath(email) });
+    res.end();
+  }
+
+  async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    const segments = pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    const method = req.method || "GET";
+
+    if (segments[0] === "checkout" && segments.length === 2) {
+      if (method === "GET") {
+        sendCheckoutPage(res, store.getCheckout(segments[1]), segments[1]);
+        return;
+      }
+      if (method === "POST") {
+        const form = await readForm(req);
+        await handleCheckoutAction(segments[1], form.get("action") || "", res);
+        return;
+      }
+    }
+
+    if (
+      segments[0] === "customer" &&
+      segments.length === 2 &&
+      method === "GET"
+    ) {
+      sendPortalPage(
+        res,
+        segments[1],
+        store.listSubscriptions({ email: segments[1] })
+      );
+      return;
+    }
+
+    if (
+      segments[0] === "customer" &&
+      segments[2] === "subscriptions" &&
+      segments.length === 4 &&
+      method === "POST"
+    ) {
+      const form = await readForm(req);
+      await handlePortalAction(
+        segments[1],
+        segments[3],
+        form.get("action") || "",
+        res
+      );
+      return;
+    }
+
+    if (segments[0] === "api" && segments.length === 2 && method === "POST") {
+      await handleApiCall(segments[1], req, res);
+      return;
+    }
+
+    sendPage(res, 404, "Not found", "<p>Page not found.</p>");
+  }
+
+  // Runs a RemoteMockProvider call against this server's store
+  async function handleApiCall(
+    name: string,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (!REMOTE_MOCK_METHODS.includes(name as RemoteMockMethod)) {
+      sendJson(res, 404, { error: { message: `Unknown method ${name}` } });
+      return;
+    }
+    const args = JSON.parse((await readBody(req)) || "[]") as unknown[];
+    const method = provider[name as RemoteMockMethod] as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+    try {
+      sendJson(res, 200, { result: await method.apply(provider, args) });
+    } catch (error) {
+      const status = error instanceof PayLayerError ? error.status || 500 : 500;
+      sendJson(res, status, {
+        error: {
+          message: error instanceof Error ? error.message : String(error),
+          code: error instanceof PayLayerError ? error.code : undefined,
+        },
+      });
+    }
+  }
+
+  // Loaded on first use so edge bundles of the SDK never resolve node:http
+  const { createServer } = await import("node:http");
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      const status = error instanceof PayLayerError ? error.status || 500 : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      sendPage(res, status, "Error", `<p>${escapeHtml(message)}</p>`);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_PORT, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const urlHost = host === "0.0.0.0" || host === "::" ? "localhost" : host;
+  const url = `http://${urlHost.includes(":") ? `[${urlHost}]` : urlHost}:${port}`;
+  // Links created for remote callers must point at this server
+  const provider = new MockProvider({
+    store,
+    checkoutBaseUrl: url,
+    portalBaseUrl: url,
+  });
+
+  return {
+    url,
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeIdleConnections?.();
+      });
+    },
+  };
+}
+
+/**
+ * Webhook events a real provider would send when a checkout finishes
+ */
+function getCheckoutEvents(
+  store: MockStore,
+  before: MockCheckout | undefined,
+  checkout: MockCheckout,
+  outcome: MockCheckoutOutcome
+): Record<string, unknown>[] {
+  const charge = checkout.chargeId
+    ? store.getCharge(checkout.chargeId)
+    : undefined;
+  const subscription = checkout.subscriptionId
+    ? store.getSubscription(checkout.subscriptionId)
+    : undefined;
+  const details = { checkout, charge, subscription };
+
+  if (outcome === "paid") {
+    const events = [createEvent("payment.success", details)];
+    // Subscription checkouts opened with checkout() start their subscription when paid
+    if (subscription && !before?.subscriptionId) {
+      events.push(createEvent("subscription.created", details));
+    }
+    return events;
+  }
+  if (outcome === "declined") {
+    return [createEvent("payment.failed", details)];
+  }
+  if (checkout.mode === "payment") {
+    return [createEvent("payment.failed", details)];
+  }
+  return subscription ? [createEvent("subscription.cancelled", details)] : [];
+}
+
+/**
+ * Builds a webhook event in the flat format the mock provider passes through
+ */
+function createEvent(
+  type: EventType,
+  details: {
+    checkout?: MockCheckout;
+    charge?: MockCharge;
+    subscription?: MockSubscription;
+  }
+): Record<string, unknown> {
+  const { checkout, charge, subscription } = details;
+  return {
+    id: `evt_mock_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+    type,
+    // Plan checkouts have no charge; like Stripe they are identified by the
+    // checkout, and with no plan prices in the mock they report an amount of 0
+    amount: charge?.amount ?? checkout?.amount ?? (checkout ? 0 : undefined),
+    currency: checkout?.currency || subscription?.currency,
+    email: checkout?.email || subscription?.email,
+    customerId: checkout?.customerId || subscription?.customerId,
+    paymentId: charge?.id ?? checkout?.id,
+    subscriptionId: subscription?.id,
+    plan: subscription?.plan || checkout?.plan,
+    status:
+      subscription && type.startsWith("subscription.")
+        ? subscription.status
+        : checkout?.status,
+    checkoutId: checkout?.id,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function sendCheckoutPage(
+  res: ServerResponse,
+  checkout: MockCheckout | undefined,
+  checkoutId: string
+): void {
+  if (!checkout) {
+    sendPage(
+      res,
+      404,
+      "Not found",
+      `<p>Checkout ${escapeHtml(checkoutId)} not found.</p>`
+    );
+    return;
+  }
+
+  const summary =
+    checkout.mode === "subscription"
+      ? `Subscribe to <strong>${escapeHtml(checkout.plan || "unknown")}</strong>`
+      : `Pay <strong>${escapeHtml(String(checkout.amount ?? 0))} ${escapeHtml(checkout.currency)}</strong>`;
+  const email = checkout.email ? `<p>${escapeHtml(checkout.email)}</p>` : "";
+
+  if (checkout.status !== "open") {
+    sendPage(
+      res,
+      200,
+      "Mock checkout",
+      `<p>${summary}</p>${email}<p>This checkout is ${escapeHtml(checkout.status)}.</p>`
+    );
+    return;
+  }
+
+  const path = `/checkout/${encodeURIComponent(checkout.id)}`;
+  sendPage(
+    res,
+    200,
+    "Mock checkout",
+    `<p>${summary}</p>${email}` +
+      actionButton(path, "pay", "Pay") +
+      actionButton(path, "decline", "Decline") +
+      actionButton(path, "cancel", "Cancel")
+  );
+}
+
+function sendPortalPage(
+  res: ServerResponse,
+  email: string,
+  subscriptions: MockSubscription[]
+): void {
+  const path = getPortalPath(email);
+  const rows = subscriptions.map((subscription) => {
+    const actionsPath = `${path}/subscriptions/${encodeURIComponent(subscription.id)}`;
+    const actions =
+      subscription.status === "active"
+        ? actionButton(actionsPath, "pause", "Pause") +
+          actionButton(actionsPath, "cancel", "Cancel")
+        : subscription.status === "paused"
+          ? actionButton(actionsPath, "resume", "Resume") +
+            actionButton(actionsPath, "cancel", "Cancel")
+          : subscription.status !== "cancelled"
+            ? actionButton(actionsPath, "cancel", "Cancel")
+            : "";
+    return `<li>${escapeHtml(subscription.plan)}: ${escapeHtml(subscription.status)} ${actions}</li>`;
+  });
+
+  sendPage(
+    res,
+    200,
+    "Mock billing portal",
+    `<p>${escapeHtml(email)}</p>` +
+      (rows.length > 0
+        ? `<ul>${rows.join("")}</ul>`
+        : "<p>No subscriptions.</p>")
+  );
+}
+
+function getPortalPath(email: string): string {
+  return `/customer/${encodeURIComponent(email)}`;
+}
+
+function actionButton(path: string, action: string, label: string): string {
+  return `<form method="post" action="${escapeHtml(path)}" style="display:inline"><button name="action" value="${action}">${label}</button></form>`;
+}
+
+function sendPage(
+  res: ServerResponse,
+  status: number,
+  title: string,
+  body: string
+): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+      `<body><h1>${escapeHtml(title)}</h1>${body}</body></html>`
+  );
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  return new URLSearchParams(await readBody(req));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,511 @@
+/**
+ * In-memory billing state for the mock provider
+ *
+ * Records every customer, charge, checkout, subscription and refund created through
+ * the mock provider and enforces the same state transitions as a real billing backend,
+ * so integration tests can run realistic flows without a provider account.
+ */
+
+import type {
+  ChargeResult,
+  CurrencyCode,
+  RefundReason,
+  RefundResult,
+  SubscriptionResult,
+  SubscriptionStatus,
+} from "../types.js";
+import { InvalidRequestError, NotFoundError } from "../errors.js";
+
+export interface MockCustomer {
+  id: string;
+  email: string;
+  createdAt: string; // ISO 8601 timestamp
+}
+
+export interface MockCharge extends ChargeResult {
+  customerId?: string;
+  checkoutId: string;
+  refundedAmount: number;
+  createdAt: string;
+}
+
+/**
+ * Checkout lifecycle: open until the customer pays, is declined or abandons it
+ */
+export type MockCheckoutStatus = "open" | "completed" | "declined" | "expired";
+
+/**
+ * How the customer leaves a mock checkout
+ */
+export type MockCheckoutOutcome = "paid" | "declined" | "cancelled";
+
+export interface MockCheckout {
+  id: string;
+  url: string;
+  mode: "payment" | "subscription";
+  status: MockCheckoutStatus;
+  amount?: number;
+  currency: CurrencyCode;
+  plan?: string;
+  email?: string;
+  customerId?: string;
+  successUrl?: string;
+  cancelUrl?: string;
+  chargeId?: string;
+  subscriptionId?: string;
+  createdAt: string;
+}
+
+export interface MockSubscription extends SubscriptionResult {
+  createdAt: string;
+}
+
+export interface MockRefund extends RefundResult {
+  createdAt: string;
+}
+
+/**
+ * Copy of the full mock state, keyed by object ID
+ */
+export interface MockSnapshot {
+  customers: Record<string, MockCustomer>;
+  charges: Record<string, MockCharge>;
+  checkouts: Record<string, MockCheckout>;
+  subscriptions: Record<string, MockSubscription>;
+  refunds: Record<string, MockRefund>;
+}
+
+/**
+ * Details for a new checkout
+ */
+export interface MockCheckoutInput {
+  mode: "payment" | "subscription";
+  amount?: number;
+  currency: CurrencyCode;
+  plan?: string;
+  email?: string;
+  successUrl?: string;
+  cancelUrl?: string;
+}
+
+/**
+ * In-memory state shared by mock provider instances
+ *
+ * Lookups return copies; change state through the store's methods.
+ */
+export interface MockStore {
+  getCustomer(id: string): MockCustomer | undefined;
+  getCharge(id: string): MockCharge | undefined;
+  getCheckout(id: string): MockCheckout | undefined;
+  getSubscription(id: string): MockSubscription | undefined;
+  getRefund(id: string): MockRefund | undefined;
+  findCustomerByEmail(email: string): MockCustomer | undefined;
+
+  /**
+   * Opens a checkout; payment checkouts get a pending charge and
+   * subscription checkouts create their subscription when paid
+   *
+   * @param input - Checkout details
+   * @param checkoutBaseUrl - Base URL of the hosted checkout page
+   */
+  createCheckout(
+    input: MockCheckoutInput,
+    checkoutBaseUrl: string
+  ): MockCheckout;
+
+  /**
+   * Creates an active subscription with a checkout link for its first payment
+   */
+  createSubscription(
+    input: {
+      plan: string;
+      currency: CurrencyCode;
+      email?: string;
+      successUrl?: string;
+      cancelUrl?: string;
+    },
+    checkoutBaseUrl: string
+  ): MockSubscription;
+
+  /**
+   * Finishes an open checkout
+   * - paid: the charge succeeds and the subscription becomes active
+   * - declined: the charge fails and the subscription becomes past_due
+   * - cancelled: the checkout expires, its charge fails and its subscription is cancelled
+   *
+   * @throws NotFoundError if the checkout does not exist
+   * @throws InvalidRequestError if the checkout is no longer open
+   */
+  completeCheckout(id: string, outcome?: MockCheckoutOutcome): MockCheckout;
+
+  /**
+   * Moves a subscription to a new status, enforcing valid transitions:
+   * active → paused, paused → active, and anything but cancelled → cancelled
+   *
+   * @throws NotFoundError if the subscription does not exist
+   * @throws InvalidRequestError if the transition is not allowed
+   */
+  transitionSubscription(
+    id: string,
+    status: "active" | "paused" | "cancelled"
+  ): MockSubscription;
+
+  /**
+   * Switches a subscription's plan or quantity
+   *
+   * @throws InvalidRequestError if the subscription is cancelled
+   */
+  changeSubscriptionPlan(
+    id: string,
+    plan: string,
+    quantity?: number
+  ): MockSubscription;
+
+  /**
+   * Lists subscriptions for a customer, newest first
+   */
+  listSubscriptions(filter: {
+    email?: string;
+    customerId?: string;
+    status?: SubscriptionStatus;
+  }): MockSubscription[];
+
+  /**
+   * Refunds part or all of a succeeded charge
+   *
+   * @throws NotFoundError if the charge does not exist
+   * @throws InvalidRequestError if the charge has not succeeded or the amount exceeds what is left
+   */
+  createRefund(input: {
+    paymentId: string;
+    amount?: number;
+    reason?: RefundReason;
+  }): MockRefund;
+
+  /** Returns a deep copy of the current state */
+  snapshot(): MockSnapshot;
+  /** Replaces the current state with a snapshot */
+  restore(snapshot: MockSnapshot): void;
+  /** Removes all objects */
+  reset(): void;
+}
+
+const PROVIDER = "mock";
+const BILLING_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Creates an empty mock store
+ *
+ * @example
+ * ```ts
+ * const store = createMockStore();
+ * const paylayer = createPayLayer({ providers: { mock: { store } } });
+ *
+ * const charge = await paylayer.pay.charge({ amount: 10, currency: "USD" });
+ * store.completeCheckout(store.getCharge(charge.id)!.checkoutId, "paid");
+ * store.getCharge(charge.id)?.status; // "succeeded"
+ * ```
+ */
+export function createMockStore(): MockStore {
+  let state = emptySnapshot();
+
+  function now(): string {
+    return new Date().toISOString();
+  }
+
+  function notFound(kind: string, id: string): NotFoundError {
+    return new NotFoundError(`${kind} ${id} not found`, {
+      provider: PROVIDER,
+      status: 404,
+    });
+  }
+
+  function invalid(message: string): InvalidRequestError {
+    return new InvalidRequestError(message, {
+      provider: PROVIDER,
+      status: 400,
+    });
+  }
+
+  function ensureCustomer(email: string | undefined): MockCustomer | undefined {
+    if (!email) {
+      return undefined;
+    }
+    const existing = Object.values(state.customers).find(
+      (customer) => customer.email === email
+    );
+    if (existing) {
+      return existing;
+    }
+    const customer: MockCustomer = {
+      id: createId("cus"),
+      email,
+      createdAt: now(),
+    };
+    state.customers[customer.id] = customer;
+    return customer;
+  }
+
+  function requireSubscription(id: string): MockSubscription {
+    const subscription = state.subscriptions[id];
+    if (!subscription) {
+      throw notFound("Subscription", id);
+    }
+    return subscription;
+  }
+
+  function openSubscription(
+    checkout: MockCheckout,
+    status: SubscriptionStatus
+  ): MockSubscription {
+    const periodStart = new Date();
+    const subscription: MockSubscription = {
+      id: createId("sub"),
+      status,
+      plan: checkout.plan || "unknown",
+      currency: checkout.currency,
+      provider: PROVIDER,
+      email: checkout.email,
+      url: checkout.url,
+      customerId: checkout.customerId,
+      quantity: 1,
+      currentPeriodStart: periodStart.toISOString(),
+      currentPeriodEnd: new Date(
+        periodStart.getTime() + BILLING_PERIOD_MS
+      ).toISOString(),
+      cancelAtPeriodEnd: false,
+      createdAt: now(),
+    };
+    state.subscriptions[subscription.id] = subscription;
+    checkout.subscriptionId = subscription.id;
+    return subscription;
+  }
+
+  function createCheckout(
+    input: MockCheckoutInput,
+    checkoutBaseUrl: string
+  ): MockCheckout {
+    const customer = ensureCustomer(input.email);
+    const id = createId("cs");
+    const checkout: MockCheckout = {
+      id,
+      url: `${checkoutBaseUrl}/checkout/${id}?provider=${PROVIDER}`,
+      mode: input.mode,
+      status: "open",
+      amount: input.amount,
+      currency: input.currency,
+      plan: input.plan,
+      email: input.email,
+      customerId: customer?.id,
+      successUrl: input.successUrl,
+      cancelUrl: input.cancelUrl,
+      createdAt: now(),
+    };
+    state.checkouts[id] = checkout;
+
+    if (input.mode === "payment") {
+      const charge: MockCharge = {
+        id: createId("ch"),
+        status: "pending",
+        amount: input.amount || 0,
+        currency: input.currency,
+        provider: PROVIDER,
+        email: input.email,
+        url: checkout.url,
+        customerId: customer?.id,
+        checkoutId: id,
+        refundedAmount: 0,
+        createdAt: now(),
+      };
+      state.charges[charge.id] = charge;
+      checkout.chargeId = charge.id;
+    }
+
+    return checkout;
+  }
+
+  return {
+    getCustomer: (id) => copy(state.customers[id]),
+    getCharge: (id) => copy(state.charges[id]),
+    getCheckout: (id) => copy(state.checkouts[id]),
+    getSubscription: (id) => copy(state.subscriptions[id]),
+    getRefund: (id) => copy(state.refunds[id]),
+
+    findCustomerByEmail(email) {
+      return copy(
+        Object.values(state.customers).find(
+          (customer) => customer.email === email
+        )
+      );
+    },
+
+    createCheckout: (input, checkoutBaseUrl) =>
+      copy(createCheckout(input, checkoutBaseUrl))!,
+
+    createSubscription(input, checkoutBaseUrl) {
+      const checkout = createCheckout(
+        { mode: "subscription", ...input },
+        checkoutBaseUrl
+      );
+      // subscribe() starts the subscription right away; its checkout collects the first payment
+      return copy(openSubscription(checkout, "active"))!;
+    },
+
+    completeCheckout(id, outcome = "paid") {
+      const checkout = state.checkouts[id];
+      if (!checkout) {
+        throw notFound("Checkout", id);
+      }
+      if (checkout.status !== "open") {
+        throw invalid(`Checkout ${id} is already ${checkout.status}`);
+      }
+
+      checkout.status =
+        outcome === "paid"
+          ? "completed"
+          : outcome === "declined"
+            ? "declined"
+            : "expired";
+
+      const charge = checkout.chargeId
+        ? state.charges[checkout.chargeId]
+        : undefined;
+      if (charge) {
+        charge.status = outcome === "paid" ? "succeeded" : "failed";
+      }
+
+      if (checkout.mode === "subscription") {
+        const status: SubscriptionStatus =
+          outcome === "paid"
+            ? "active"
+            : outcome === "declined"
+              ? "past_due"
+              : "cancelled";
+        const subscription = checkout.subscriptionId
+          ? state.subscriptions[checkout.subscriptionId]
+          : undefined;
+        if (subscription) {
+          subscription.status = status;
+        } else if (outcome === "paid") {
+          openSubscription(checkout, status);
+        }
+      }
+
+      return copy(checkout)!;
+    },
+
+    transitionSubscription(id, status) {
+      const subscription = requireSubscription(id);
+      const current = subscription.status;
+      const allowed =
+        (status === "paused" && current === "active") ||
+        (status === "active" && current === "paused") ||
+        (status === "cancelled" && current !== "cancelled");
+      if (!allowed) {
+        throw invalid(
+          `Cannot move subscription ${id} from ${current} to ${status}`
+        );
+      }
+      subscription.status = status;
+      subscription.cancelAtPeriodEnd = false;
+      return copy(subscription)!;
+    },
+
+    changeSubscriptionPlan(id, plan, quantity) {
+      const subscription = requireSubscription(id);
+      if (subscription.status === "cancelled") {
+        throw invalid(`Cannot change the plan of cancelled subscription ${id}`);
+      }
+      subscription.plan = plan;
+      subscription.quantity = quantity ?? subscription.quantity;
+      return copy(subscription)!;
+    },
+
+    listSubscriptions(filter) {
+      const customerIds = new Set(
+        Object.values(state.customers)
+          .filter(
+            (customer) =>
+              customer.id === filter.customerId ||
+              customer.email === filter.email
+          )
+          .map((customer) => customer.id)
+      );
+      return Object.values(state.subscriptions)
+        .filter(
+          (subscription) =>
+            subscription.customerId !== undefined &&
+            customerIds.has(subscription.customerId) &&
+            (!filter.status || subscription.status === filter.status)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map((subscription) => copy(subscription)!);
+    },
+
+    createRefund(input) {
+      const charge = state.charges[input.paymentId];
+      if (!charge) {
+        throw notFound("Payment", input.paymentId);
+      }
+      if (charge.status !== "succeeded") {
+        throw invalid(
+          `Cannot refund payment ${input.paymentId}: payment is ${charge.status}`
+        );
+      }
+      const remaining = charge.amount - charge.refundedAmount;
+      const amount = input.amount ?? remaining;
+      if (amount <= 0 || amount > remaining) {
+        throw invalid(
+          `Refund amount ${amount} exceeds the ${remaining} left to refund on payment ${input.paymentId}`
+        );
+      }
+
+      const refund: MockRefund = {
+        id: createId("re"),
+        paymentId: charge.id,
+        status: "succeeded",
+        amount,
+        currency: charge.currency,
+        provider: PROVIDER,
+        reason: input.reason,
+        createdAt: now(),
+      };
+      state.refunds[refund.id] = refund;
+      charge.refundedAmount += amount;
+      return copy(refund)!;
+    },
+
+    snapshot: () => structuredClone(state),
+
+    restore(snapshot) {
+      state = structuredClone(snapshot);
+    },
+
+    reset() {
+      state = emptySnapshot();
+    },
+  };
+}
+
+/**
+ * Store used by the default mock provider (PAYLAYER_PROVIDER=mock)
+ */
+export const mockStore: MockStore = createMockStore();
+
+function emptySnapshot(): MockSnapshot {
+  return {
+    customers: {},
+    charges: {},
+    checkouts: {},
+    subscriptions: {},
+    refunds: {},
+  };
+}
+
+function createId(prefix: string): string {
+  return `${prefix}_mock_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+}
+
+function copy<T extends object>(value: T | undefined): T | undefined {
+  return value ? { ...value } : undefined;
+}
@@ -2,7 +2,7 @@
  * Mock provider for testing and development
  */
 
-import type { PaymentProvider } from "./types.js";
+import type { PaymentProvider, WebhookVerifyOptions } from "./types.js";
 import type {
   ChargeInput,
   ChargeResult,
@@ -10,93 +10,376 @@ import type {
   SubscriptionResult,
   CheckoutInput,
   CheckoutResult,
+  RefundInput,
+  RefundResult,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  ChangePlanInput,
+  WebhookVerificationResult,
 } from "../types.js";
+import {
+  createProviderError,
+  NotFoundError,
+  ProviderUnavailableError,
+} from "../errors.js";
+import { verifyStandardWebhook } from "../standard-webhooks.js";
 
+import {
+  createMockStore,
+  type MockStore,
+  type MockSubscription,
+} from "./mock-store.js";
+
+/**
+ * Settings for a mock provider instance
+ */
+export interface MockConfig {
+  /** Base URL used for mock checkout links */
+  checkoutBaseUrl?: string;
+  /** Base URL used for mock billing portal links */
+  portalBaseUrl?: string;
+  /** State shared with the test code (defaults to a new empty store) */
+  store?: MockStore;
+  /**
+   * URL of a mock checkout server running in another process, e.g. one started
+   * with `npx paylayer-mock-server`; calls are then run by the server's store
+   */
+  serverUrl?: string;
+  /** Secret the mock checkout server signs its webhooks with; list several while rotating, newest first */
+  webhookSecret?: string | string[];
+}
+
+/**
+ * Headers carrying the mock checkout server's Standard Webhooks signature
+ * Prefixed so they are not mistaken for a Polar delivery
+ */
+export const MOCK_WEBHOOK_HEADERS = {
+  id: "paylayer-webhook-id",
+  timestamp: "paylayer-webhook-timestamp",
+  signature: "paylayer-webhook-signature",
+} as const;
+
+/**
+ * Provider methods a remote mock checkout server runs on behalf of RemoteMockProvider
+ */
+export const REMOTE_MOCK_METHODS = [
+  "charge",
+  "subscribe",
+  "cancel",
+  "pause",
+  "resume",
+  "changePlan",
+  "getSubscription",
+  "listSubscriptions",
+  "portal",
+  "checkout",
+  "refund",
+] as const;
+
+export type RemoteMockMethod = (typeof REMOTE_MOCK_METHODS)[number];
+
+/**
+ * Stateful mock provider for testing and development
+ *
+ * Everything it creates is recorded in its MockStore, and subscriptions follow
+ * the same rules as a real provider (a cancelled subscription cannot be resumed).
+ */
 export class MockProvider implements PaymentProvider {
   readonly name = "mock";
+  readonly supportsIdempotencyKeys = false;
+  readonly store: MockStore;
+  private checkoutBaseUrl: string;
+  private portalBaseUrl: string;
+
+  constructor(config: MockConfig = {}) {
+    this.checkoutBaseUrl =
+      config.checkoutBaseUrl || "https://checkout.paylayer.com";
+    this.portalBaseUrl = config.portalBaseUrl || "https://portal.paylayer.com";
+    this.store = config.store || createMockStore();
+  }
 
   async charge(input: ChargeInput): Promise<ChargeResult> {
-    const baseUrl =
-      process.env.PAYLAYER_CHECKOUT_BASE_URL || "https://checkout.paylayer.com";
-    const sessionId = `ch_mock_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const checkout = this.store.createCheckout(
+      {
+        mode: "payment",
+        amount: input.amount,
+        currency: input.currency,
+        email: input.email,
+        successUrl: input.successUrl,
+        cancelUrl: input.cancelUrl,
+      },
+      this.checkoutBaseUrl
+    );
+    const charge = this.store.getCharge(checkout.chargeId!)!;
     return {
-      id: sessionId,
-      url: `${baseUrl}/payment/${sessionId}?provider=${this.name}${input.productId ? `&productId=${input.productId}` : ""}`,
-      status: "pending",
-      amount: input.amount || 0,
-      currency: input.currency,
+      id: charge.id,
+      url: charge.url,
+      status: charge.status,
+      amount: charge.amount,
+      currency: charge.currency,
       provider: this.name,
-      email: input.email,
+      email: charge.email,
     };
   }
 
   async subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
-    const baseUrl =
-      process.env.PAYLAYER_CHECKOUT_BASE_URL || "https://checkout.paylayer.com";
-    const sessionId = `sub_mock_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    return {
-      id: sessionId,
-      url: `${baseUrl}/subscription/${sessionId}?provider=${this.name}`,
-      status: "pending",
-      plan: input.plan,
-      currency: input.currency,
-      provider: this.name,
-      email: input.email,
-    };
+    return toSubscriptionResult(
+      this.store.createSubscription(
+        {
+          plan: input.plan,
+          currency: input.currency,
+          email: input.email,
+          successUrl: input.successUrl,
+          cancelUrl: input.cancelUrl,
+        },
+        this.checkoutBaseUrl
+      )
+    );
   }
 
   async cancel(subscriptionId: string): Promise<SubscriptionResult> {
-    return {
-      id: subscriptionId,
-      status: "cancelled",
-      plan: "unknown",
-      currency: "USD",
-      provider: this.name,
-    };
+    return toSubscriptionResult(
+      this.store.transitionSubscription(subscriptionId, "cancelled")
+    );
   }
 
   async pause(subscriptionId: string): Promise<SubscriptionResult> {
-    return {
-      id: subscriptionId,
-      status: "paused",
-      plan: "unknown",
-      currency: "USD",
-      provider: this.name,
-    };
+    return toSubscriptionResult(
+      this.store.transitionSubscription(subscriptionId, "paused")
+    );
   }
 
   async resume(subscriptionId: string): Promise<SubscriptionResult> {
+    return toSubscriptionResult(
+      this.store.transitionSubscription(subscriptionId, "active")
+    );
+  }
+
+  async changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    const subscription = this.store.changeSubscriptionPlan(
+      input.subscriptionId,
+      input.plan,
+      input.quantity
+    );
+    // The mock has no price list, so plan changes never cost anything
+    return { ...toSubscriptionResult(subscription), prorationAmount: 0 };
+  }
+
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    const subscription = this.store.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new NotFoundError(`Subscription ${subscriptionId} not found`, {
+        provider: this.name,
+        status: 404,
+      });
+    }
+    return toSubscriptionResult(subscription);
+  }
+
+  async listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    const subscriptions = this.store.listSubscriptions(input);
+    const offset = input.cursor ? parseInt(input.cursor, 10) : 0;
+    const limit = input.limit ?? 10;
+    const page = subscriptions.slice(offset, offset + limit);
+    const hasMore = offset + limit < subscriptions.length;
     return {
-      id: subscriptionId,
-      status: "active",
-      plan: "unknown",
-      currency: "USD",
-      provider: this.name,
+      data: page.map(toSubscriptionResult),
+      hasMore,
+      nextCursor: hasMore ? String(offset + limit) : undefined,
     };
   }
 
   async portal(email: string): Promise<string> {
-    const baseUrl =
-      process.env.PAYLAYER_PORTAL_BASE_URL || "https://portal.paylayer.com";
+    const baseUrl = this.portalBaseUrl;
     return `${baseUrl}/customer/${encodeURIComponent(email)}?provider=${this.name}`;
   }
 
   async checkout(input: CheckoutInput): Promise<CheckoutResult> {
-    const baseUrl =
-      process.env.PAYLAYER_CHECKOUT_BASE_URL || "https://checkout.paylayer.com";
-    const sessionId = `checkout_mock_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const checkout = this.store.createCheckout(
+      {
+        mode: input.plan ? "subscription" : "payment",
+        amount: input.amount,
+        currency: input.currency,
+        plan: input.plan,
+        email: input.email,
+        successUrl: input.successUrl,
+        cancelUrl: input.cancelUrl,
+      },
+      this.checkoutBaseUrl
+    );
     return {
-      url: `${baseUrl}/session/${sessionId}?provider=${this.name}`,
-      id: sessionId,
+      url: checkout.url,
+      id: checkout.id,
       provider: this.name,
     };
   }
 
-  verifyWebhook(): boolean {
-    return true; // Mock always verifies
+  async refund(input: RefundInput): Promise<RefundResult> {
+    const refund = this.store.createRefund(input);
+    return {
+      id: refund.id,
+      paymentId: refund.paymentId,
+      status: refund.status,
+      amount: refund.amount,
+      currency: refund.currency,
+      provider: this.name,
+      reason: refund.reason,
+    };
+  }
+
+  verifyWebhook(
+    payload: string | Uint8Array,
+    signature: string,
+    secret: string,
+    headers: Record<string, string> = {},
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookVerificationResult> {
+    return verifyMockWebhook(payload, signature, secret, headers, options);
+  }
+
+  normalizeWebhookEvent(rawEvent: unknown): unknown {
+    return rawEvent;
+  }
+}
+
+/**
+ * Mock provider whose calls run on a mock checkout server in another process
+ *
+ * The server keeps the MockStore, so checkouts created through this provider
+ * can be completed on its pages and its webhooks describe the same objects.
+ */
+export class RemoteMockProvider implements PaymentProvider {
+  readonly name = "mock";
+  readonly supportsIdempotencyKeys = false;
+  private serverUrl: string;
+
+  constructor(serverUrl: string) {
+    this.serverUrl = serverUrl.replace(/\/$/, "");
+  }
+
+  charge(input: ChargeInput): Promise<ChargeResult> {
+    return this.call("charge", input);
+  }
+
+  subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
+    return this.call("subscribe", input);
+  }
+
+  cancel(subscriptionId: string): Promise<SubscriptionResult> {
+    return this.call("cancel", subscriptionId);
+  }
+
+  pause(subscriptionId: string): Promise<SubscriptionResult> {
+    return this.call("pause", subscriptionId);
+  }
+
+  resume(subscriptionId: string): Promise<SubscriptionResult> {
+    return this.call("resume", subscriptionId);
+  }
+
+  changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    return this.call("changePlan", input);
+  }
+
+  getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    return this.call("getSubscription", subscriptionId);
+  }
+
+  listSubscriptions(input: ListSubscriptionsInput): Promise<SubscriptionList> {
+    return this.call("listSubscriptions", input);
+  }
+
+  portal(email: string): Promise<string> {
+    return this.call("portal", email);
+  }
+
+  checkout(input: CheckoutInput): Promise<CheckoutResult> {
+    return this.call("checkout", input);
+  }
+
+  refund(input: RefundInput): Promise<RefundResult> {
+    return this.call("refund", input);
+  }
+
+  verifyWebhook(
+    payload: string | Uint8Array,
+    signature: string,
+    secret: string,
+    headers: Record<string, string> = {},
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookVerificationResult> {
+    return verifyMockWebhook(payload, signature, secret, headers, options);
   }
 
   normalizeWebhookEvent(rawEvent: unknown): unknown {
     return rawEvent;
   }
+
+  /**
+   * Runs a provider method on the server, rethrowing its errors with their status
+   */
+  private async call<T>(
+    method: RemoteMockMethod,
+    ...args: unknown[]
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.serverUrl}/api/${method}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(args),
+      });
+    } catch (error) {
+      throw new ProviderUnavailableError(
+        `Mock checkout server at ${this.serverUrl} could not be reached`,
+        { provider: this.name, cause: error }
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as {
+      result?: T;
+      error?: { message?: string; code?: string };
+    };
+    if (!response.ok) {
+      throw createProviderError(
+        body.error?.message || `Mock checkout server error: ${response.status}`,
+        { provider: this.name, status: response.status, code: body.error?.code }
+      );
+    }
+    return body.result as T;
+  }
+}
+
+/**
+ * Verifies a webhook signed by the mock checkout server
+ */
+function verifyMockWebhook(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  headers: Record<string, string>,
+  options: WebhookVerifyOptions
+): Promise<WebhookVerificationResult> {
+  return verifyStandardWebhook(
+    payload,
+    {
+      "webhook-id": headers[MOCK_WEBHOOK_HEADERS.id],
+      "webhook-timestamp": headers[MOCK_WEBHOOK_HEADERS.timestamp],
+      "webhook-signature": signature,
+    },
+    secret,
+    { now: options.now }
+  );
+}
+
+/**
+ * Strips store bookkeeping fields from a subscription
+ */
+function toSubscriptionResult({
+  createdAt: _createdAt,
+  ...subscription
+}: MockSubscription): SubscriptionResult {
+  return subscription;
 }
@@ -2,15 +2,48 @@
  * Paddle provider implementation
  */
 
-import { createHmac } from "node:crypto";
-import type { PaymentProvider } from "./types.js";
+import type { PaymentProvider, WebhookVerifyOptions } from "./types.js";
 import type {
   ChargeInput,
   ChargeResult,
   SubscribeInput,
   SubscriptionResult,
+  RefundInput,
+  RefundResult,
+  CurrencyCode,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  SubscriptionStatus,
+  ChangePlanInput,
+  WebhookVerificationResult,
 } from "../types.js";
-import { isSandbox } from "./env.js";
+import { toMinorUnits, fromMinorUnits } from "../money.js";
+import {
+  ConfigurationError,
+  createProviderError,
+  InvalidRequestError,
+  NotFoundError,
+  withErrorMessage,
+} from "../errors.js";
+import {
+  createHttpClient,
+  isRetryableRequest,
+  type HttpClient,
+  type HttpConfig,
+} from "./http.js";
+import {
+  checkWebhookTimestamp,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  VERIFIED,
+  verificationFailed,
+} from "./webhook-verification.js";
+import {
+  hmacSha256,
+  timingSafeEqual,
+  toBytes,
+  toHex,
+  toText,
+} from "../crypto.js";
 
 // Paddle API response types
 interface PaddleTransactionResponse {
@@ -35,13 +68,43 @@ interface PaddleTransactionResponse {
   };
 }
 
+interface PaddleSubscription {
+  id: string;
+  status: string;
+  items: Array<{
+    price: { id: string };
+    quantity?: number;
+    trial_dates?: { starts_at: string; ends_at: string } | null;
+  }>;
+  currency_code: string;
+  customer_id?: string;
+  current_billing_period?: { starts_at: string; ends_at: string } | null;
+  scheduled_change?: { action: string; effective_at: string } | null;
+}
+
 interface PaddleSubscriptionResponse {
-  data: {
-    id: string;
-    status: string;
-    items: Array<{ price: { id: string } }>;
-    currency_code: string;
-    customer_id?: string;
+  data: PaddleSubscription;
+}
+
+interface PaddleSubscriptionPreviewResponse {
+  data: PaddleSubscription & {
+    update_summary?: {
+      result: {
+        action: "credit" | "charge";
+        amount: string;
+        currency_code: string;
+      };
+    } | null;
+  };
+}
+
+interface PaddleSubscriptionListResponse {
+  data: PaddleSubscription[];
+  meta: {
+    pagination: {
+      has_more: boolean;
+      next?: string;
+    };
   };
 }
 
@@ -67,6 +130,20 @@ interface PaddlePortalSessionResponse {
   };
 }
 
+interface PaddleAdjustmentResponse {
+  data: {
+    id: string;
+    action: string;
+    transaction_id: string;
+    status: "pending_approval" | "approved" | "rejected" | "reversed";
+    currency_code: string;
+    totals?: {
+      total: string;
+      currency_code: string;
+    };
+  };
+}
+
 interface PaddlePrice {
   id: string;
   billing_cycle: {
@@ -75,24 +152,54 @@ interface PaddlePrice {
   } | null;
 }
 
+/**
+ * Credentials and settings for a Paddle provider instance
+ */
+export interface PaddleConfig extends HttpConfig {
+  /** Paddle Billing API key */
+  apiKey: string;
+  /** Webhook notification secret; list several while rotating, newest first */
+  webhookSecret?: string | string[];
+  /** Accepted age of a webhook's signed timestamp, in seconds (defaults to 5 minutes) */
+  toleranceSeconds?: number;
+  /** Use the Paddle sandbox API */
+  sandbox?: boolean;
+  /** Overrides the API base URL */
+  baseUrl?: string;
+  /** Paddle-Version header value (defaults to "1") */
+  apiVersion?: string;
+  /** Price charged when a one-time charge passes neither productId nor priceId */
+  defaultPriceId?: string;
+}
+
 export class PaddleProvider implements PaymentProvider {
   readonly name = "paddle";
+  readonly supportsIdempotencyKeys = false;
   private apiKey: string;
   private baseUrl: string;
-
-  constructor() {
-    const apiKey = process.env.PADDLE_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "PADDLE_API_KEY environment variable is required for Paddle provider"
+  private apiVersion: string;
+  private http: HttpClient;
+  private toleranceSeconds: number;
+  private defaultPriceId: string | undefined;
+
+  constructor(config: PaddleConfig) {
+    if (!config.apiKey) {
+      throw new ConfigurationError(
+        "An API key is required for Paddle provider",
+        { provider: "paddle" }
       );
     }
-    this.apiKey = apiKey;
+    this.apiKey = config.apiKey;
+    this.apiVersion = config.apiVersion || "1";
     this.baseUrl =
-      process.env.PADDLE_BASE_URL ||
-      (isSandbox(this.name)
+      config.baseUrl ||
+      (config.sandbox
         ? "https://sandbox-api.paddle.com"
         : "https://api.paddle.com");
+    this.http = createHttpClient(this.name, "Paddle", config);
+    this.toleranceSeconds =
+      config.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    this.defaultPriceId = config.defaultPriceId;
   }
 
   private async request(
@@ -114,7 +221,7 @@ export class PaddleProvider implements PaymentProvider {
 
     const headers: Record<string, string> = {
       Authorization: `Bearer ${this.apiKey}`,
-      "Paddle-Version": process.env.PADDLE_API_VERSION || "1",
+      "Paddle-Version": this.apiVersion,
     };
 
     // Only add Content-Type and body for non-GET requests
@@ -123,50 +230,78 @@ export class PaddleProvider implements PaymentProvider {
       headers["Content-Type"] = "application/json";
     }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: !isGet && body ? JSON.stringify(body) : undefined,
-    });
+    const response = await this.http.fetch(
+      url,
+      {
+        method,
+        headers,
+        body: !isGet && body ? JSON.stringify(body) : undefined,
+      },
+      { retry: isRetryableRequest(method) }
+    );
 
     if (!response.ok) {
       const error = await response
         .json()
         .catch(() => ({ message: "Unknown error" }));
 
-      // Check for specific Paddle error codes and provide helpful messages
-      if (typeof error === "object" && error !== null && "error" in error) {
-        const paddleError = error as {
-          error?: {
-            code?: string;
-            detail?: string;
-            type?: string;
-          };
+      const paddleError = error as {
+        error?: {
+          code?: string;
+          detail?: string;
+          type?: string;
         };
+        meta?: { request_id?: string };
+      };
+      const errorOptions = {
+        provider: this.name,
+        status: response.status,
+        code: paddleError.error?.code,
+        requestId: paddleError.meta?.request_id,
+        raw: error,
+      };
 
-        if (
-          paddleError.error?.code === "transaction_default_checkout_url_not_set"
-        ) {
-          throw new Error(
-            `Paddle configuration error: A Default Payment Link has not been set in your Paddle Dashboard.\n` +
-              `To fix this:\n` +
-              `1. Go to your Paddle Dashboard → Settings → Checkout Settings\n` +
-              `2. Set up a Default Payment Link\n` +
-              `3. Save your changes\n` +
-              `4. Try your request again\n\n` +
-              `For more information, visit: https://developer.paddle.com/v1/errors/transactions/transaction_default_checkout_url_not_set`
-          );
-        }
+      // Check for specific Paddle error codes and provide helpful messages
+      if (
+        paddleError.error?.code === "transaction_default_checkout_url_not_set"
+      ) {
+        throw new ConfigurationError(
+          `Paddle configuration error: A Default Payment Link has not been set in your Paddle Dashboard.\n` +
+            `To fix this:\n` +
+            `1. Go to your Paddle Dashboard → Settings → Checkout Settings\n` +
+            `2. Set up a Default Payment Link\n` +
+            `3. Save your changes\n` +
+            `4. Try your request again\n\n` +
+            `For more information, visit: https://developer.paddle.com/v1/errors/transactions/transaction_default_checkout_url_not_set`,
+          errorOptions
+        );
       }
 
-      throw new Error(
-        `Paddle API error: ${response.status} - ${JSON.stringify(error)}`
+      throw createProviderError(
+        `Paddle API error: ${response.status} - ${JSON.stringify(error)}`,
+        errorOptions
       );
     }
 
     return response.json();
   }
 
+  /**
+   * Looks up a price to validate it before use
+   * Lookup failures (network, invalid price ID, etc.) are left for the
+   * transaction request to report, so this returns undefined for them
+   */
+  private async findPrice(priceId: string): Promise<PaddlePrice | undefined> {
+    try {
+      const price = (await this.request("GET", `/prices/${priceId}`)) as {
+        data: PaddlePrice;
+      };
+      return price.data;
+    } catch {
+      return undefined;
+    }
+  }
+
   async charge(input: ChargeInput): Promise<ChargeResult> {
     // Paddle uses transactions for one-time payments via checkout
     // Note: Paddle requires a price_id for transactions
@@ -189,81 +324,49 @@ export class PaddleProvider implements PaymentProvider {
       };
 
       if (!product.data.prices || product.data.prices.length === 0) {
-        throw new Error(
-          `No prices found for product "${input.productId}". Please ensure the product has at least one price configured.`
+        throw new NotFoundError(
+          `No prices found for product "${input.productId}". Please ensure the product has at least one price configured.`,
+          { provider: this.name }
         );
       }
 
       priceId = product.data.prices[0].id;
 
       // Validate that the price is one-time (not recurring)
-      try {
-        const price = (await this.request("GET", `/prices/${priceId}`)) as {
-          data: PaddlePrice;
-        };
-        if (
-          price.data.billing_cycle &&
-          price.data.billing_cycle !== null &&
-          price.data.billing_cycle !== undefined
-        ) {
-          throw new Error(
-            `The price "${priceId}" for product "${input.productId}" is configured as a recurring subscription, but you're using it with charge().\n` +
-              `To create a one-time payment, please:\n` +
-              `1. Go to your Paddle Dashboard → Products → Prices\n` +
-              `2. Create a new price without a billing cycle (one-time payment)\n` +
-              `3. Use the new one-time price ID in charge()\n\n` +
-              `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`
-          );
-        }
-      } catch (error) {
-        // If it's our validation error, re-throw it
-        if (
-          error instanceof Error &&
-          error.message.includes("configured as a recurring subscription")
-        ) {
-          throw error;
-        }
-        // For other errors (network, invalid price ID, etc.), let them propagate
-        // The API will handle them appropriately
+      const price = await this.findPrice(priceId);
+      if (price?.billing_cycle) {
+        throw new InvalidRequestError(
+          `The price "${priceId}" for product "${input.productId}" is configured as a recurring subscription, but you're using it with charge().\n` +
+            `To create a one-time payment, please:\n` +
+            `1. Go to your Paddle Dashboard → Products → Prices\n` +
+            `2. Create a new price without a billing cycle (one-time payment)\n` +
+            `3. Use the new one-time price ID in charge()\n\n` +
+            `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`,
+          { provider: this.name }
+        );
       }
     } else {
-      // Prioritize input.priceId over environment variable
-      priceId = input.priceId || process.env.PADDLE_DEFAULT_PRICE_ID;
+      // Prioritize input.priceId over the configured default
+      priceId = input.priceId || this.defaultPriceId;
       if (!priceId) {
-        throw new Error(
-          "Either productId, priceId must be provided in input or PADDLE_DEFAULT_PRICE_ID environment variable must be set. Create a price in Paddle dashboard first."
+        throw new InvalidRequestError(
+          "Either productId, priceId must be provided in input or a default price must be configured (defaultPriceId or PADDLE_DEFAULT_PRICE_ID). Create a price in Paddle dashboard first.",
+          { provider: this.name }
         );
       }
 
       // Validate that the price is one-time (not recurring)
-      try {
-        const price = (await this.request("GET", `/prices/${priceId}`)) as {
-          data: PaddlePrice;
-        };
-        if (
-          price.data.billing_cycle &&
-          price.data.billing_cycle !== null &&
-          price.data.billing_cycle !== undefined
-        ) {
-          throw new Error(
-            `The price "${priceId}" is configured as a recurring subscription, but you're using it with charge().\n` +
-              `To create a one-time payment, please:\n` +
-              `1. Go to your Paddle Dashboard → Products → Prices\n` +
-              `2. Create a new price without a billing cycle (one-time payment)\n` +
-              `3. Use the new one-time price ID in charge()\n\n` +
-              `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`
-          );
-        }
-      } catch (error) {
-        // If it's our validation error, re-throw it
-        if (
-          error instanceof Error &&
-          error.message.includes("configured as a recurring subscription")
-        ) {
-          throw error;
-        }
-        // For other errors (network, invalid price ID, etc.), let them propagate
-        // The API will handle them appropriately
+      const price = await this.findPrice(priceId);
+      if (price?.billing_cycle) {
+        throw new InvalidRequestError(
+          `The price "${priceId}" is configured as a recurring subscription, but you're using it with charge().\n` +
+            `To create a one-time payment, please:\n` +
+            `1. Go to your Paddle Dashboard → Products → Prices\n` +
+            `2. Create a new price without a billing cycle (one-time payment)\n` +
+            `3. Use the new one-time price ID in charge()\n\n` +
+            `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`,
+          { provider: this.name }
+        );
       }
     }
 
@@ -309,7 +412,7 @@ export class PaddleProvider implements PaymentProvider {
     const checkoutUrl = response.data.checkout?.url;
 
     if (!checkoutUrl) {
-      throw new Error(
+      throw new ConfigurationError(
         `No checkout URL returned from Paddle. This usually means:\n` +
           `1. Your Paddle account doesn't have a Default Payment Link configured\n` +
           `2. The domain in your Default Payment Link hasn't been approved\n` +
@@ -319,21 +422,23 @@ export class PaddleProvider implements PaymentProvider {
           `2. Set a Default Payment Link (a page on your site with Paddle.js)\n` +
           `3. Ensure the domain is approved in Checkout → Website Approval → Domain Approval\n` +
           `4. Make sure your checkout page includes Paddle.js and handles the _ptxn parameter\n\n` +
-          `Transaction ID: ${response.data.id}`
+          `Transaction ID: ${response.data.id}`,
+        { provider: this.name }
       );
     }
 
     // Extract amount and currency from response
     // Paddle API may return totals in details.totals or directly in totals
-    const totals = response.data.details?.totals || response.data.totals;
-    const amount = totals?.grand_total
-      ? parseFloat(totals.grand_total)
-      : totals?.total
-        ? parseFloat(totals.total)
-        : 0;
-    const currency = totals?.currency_code
-      ? totals.currency_code.toUpperCase()
-      : response.data.currency_code.toUpperCase();
+    // Totals are strings in the currency's minor unit
+    const detailTotals = response.data.details?.totals;
+    const totals = response.data.totals;
+    const currency = (
+      detailTotals?.currency_code ||
+      totals?.currency_code ||
+      response.data.currency_code
+    ).toUpperCase() as CurrencyCode;
+    const minorTotal = detailTotals?.grand_total ?? totals?.total;
+    const amount = minorTotal ? fromMinorUnits(minorTotal, currency) : 0;
 
     return {
       id: response.data.id,
@@ -353,39 +458,25 @@ export class PaddleProvider implements PaymentProvider {
 
   async subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
     if (!input.email) {
-      throw new Error("Email is required for Paddle subscriptions");
+      throw new InvalidRequestError(
+        "Email is required for Paddle subscriptions",
+        { provider: this.name }
+      );
     }
 
     // Validate that the price is recurring (not one-time)
-    try {
-      const price = (await this.request("GET", `/prices/${input.plan}`)) as {
-        data: PaddlePrice;
-      };
-      if (
-        !price.data.billing_cycle ||
-        price.data.billing_cycle === null ||
-        price.data.billing_cycle === undefined
-      ) {
-        throw new Error(
-          `The price "${input.plan}" is configured as a one-time payment, but you're using it with subscribe().\n` +
-            `To create a subscription, please:\n` +
-            `1. Go to your Paddle Dashboard → Products → Prices\n` +
-            `2. Create a new price with a billing cycle (monthly, yearly, etc.)\n` +
-            `3. Set the interval and frequency for recurring billing\n` +
-            `4. Use the new recurring price ID in subscribe()\n\n` +
-            `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`
-        );
-      }
-    } catch (error) {
-      // If it's our validation error, re-throw it
-      if (
-        error instanceof Error &&
-        error.message.includes("configured as a one-time payment")
-      ) {
-        throw error;
-      }
-      // For other errors (network, invalid price ID, etc.), let them propagate
-      // The API will handle them appropriately
+    const price = await this.findPrice(input.plan);
+    if (price && !price.billing_cycle) {
+      throw new InvalidRequestError(
+        `The price "${input.plan}" is configured as a one-time payment, but you're using it with subscribe().\n` +
+          `To create a subscription, please:\n` +
+          `1. Go to your Paddle Dashboard → Products → Prices\n` +
+          `2. Create a new price with a billing cycle (monthly, yearly, etc.)\n` +
+          `3. Set the interval and frequency for recurring billing\n` +
+          `4. Use the new recurring price ID in subscribe()\n\n` +
+          `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`,
+        { provider: this.name }
+      );
     }
 
     // Paddle doesn't support direct subscription creation
@@ -505,7 +596,8 @@ export class PaddleProvider implements PaymentProvider {
         `/subscriptions/${subscriptionId}`
       )) as PaddleSubscriptionResponse;
     } catch (error) {
-      throw new Error(
+      throw withErrorMessage(
+        error,
         `Failed to fetch subscription ${subscriptionId}: ${error instanceof Error ? error.message : "Unknown error"}`
       );
     }
@@ -514,7 +606,7 @@ export class PaddleProvider implements PaymentProvider {
 
     // Check if subscription can be resumed
     if (currentStatus === "canceled" || currentStatus === "cancelled") {
-      throw new Error(
+      throw new InvalidRequestError(
         `Cannot resume a canceled subscription (${subscriptionId}).\n\n` +
           `Paddle does not allow resuming canceled subscriptions. Once a subscription is canceled, ` +
           `it cannot be reactivated.\n\n` +
@@ -522,7 +614,8 @@ export class PaddleProvider implements PaymentProvider {
           `1. Create a new subscription using pay.subscribe() with the same plan\n` +
           `2. Use the customer's email and the same price ID\n\n` +
           `Note: If you want to temporarily suspend a subscription with the ability to resume it later, ` +
-          `use pay.pause() instead of pay.cancel(). Paused subscriptions can be resumed using pay.resume().`
+          `use pay.pause() instead of pay.cancel(). Paused subscriptions can be resumed using pay.resume().`,
+        { provider: this.name }
       );
     }
 
@@ -550,18 +643,17 @@ export class PaddleProvider implements PaymentProvider {
         }
       )) as PaddleSubscriptionResponse;
     } catch (error) {
-      // Provide helpful error message if resume fails
+      // Paddle rejects resuming a subscription that isn't paused
       if (error instanceof Error) {
-        if (
-          error.message.includes("not paused") ||
-          error.message.includes("cannot be resumed")
-        ) {
-          throw new Error(
+        if (error instanceof InvalidRequestError) {
+          throw withErrorMessage(
+            error,
             `Cannot resume subscription ${subscriptionId}. Current status: ${currentStatus}. ` +
               `Only paused subscriptions can be resumed.`
           );
         }
-        throw new Error(
+        throw withErrorMessage(
+          error,
           `Failed to resume subscription ${subscriptionId}: ${error.message}`
         );
       }
@@ -588,6 +680,159 @@ export class PaddleProvider implements PaymentProvider {
     };
   }
 
+  async changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    const current = (await this.request(
+      "GET",
+      `/subscriptions/${input.subscriptionId}`
+    )) as PaddleSubscriptionResponse;
+
+    // Paddle replaces the full item list, so keep any additional items as they are
+    const [firstItem, ...otherItems] = current.data.items;
+    const prorationBillingModes: Record<ChangePlanInput["proration"], string> =
+      {
+        immediate: "prorated_immediately",
+        next_period: "prorated_next_billing_period",
+        none: "do_not_bill",
+      };
+    const body = {
+      items: [
+        {
+          price_id: input.plan,
+          quantity: input.quantity ?? firstItem?.quantity ?? 1,
+        },
+        ...otherItems.map((item) => ({
+          price_id: item.price.id,
+          quantity: item.quantity ?? 1,
+        })),
+      ],
+      proration_billing_mode: prorationBillingModes[input.proration],
+    };
+
+    // The update response has no proration details, so preview the change first
+    let prorationAmount = 0;
+    if (input.proration !== "none") {
+      const preview = (await this.request(
+        "PATCH",
+        `/subscriptions/${input.subscriptionId}/preview`,
+        body
+      )) as PaddleSubscriptionPreviewResponse;
+      const result = preview.data.update_summary?.result;
+      if (result) {
+        const amount = fromMinorUnits(result.amount, result.currency_code);
+        prorationAmount = result.action === "credit" ? -amount : amount;
+      }
+    }
+
+    const response = (await this.request(
+      "PATCH",
+      `/subscriptions/${input.subscriptionId}`,
+      body
+    )) as PaddleSubscriptionResponse;
+
+    return {
+      ...this.mapSubscription(response.data),
+      prorationAmount,
+    };
+  }
+
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    const response = (await this.request(
+      "GET",
+      `/subscriptions/${subscriptionId}`
+    )) as PaddleSubscriptionResponse;
+
+    return this.mapSubscription(response.data);
+  }
+
+  async listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    let customerId = input.customerId;
+    if (!customerId && input.email) {
+      const customers = (await this.request("GET", "/customers", undefined, {
+        email: input.email,
+        per_page: 1,
+      })) as PaddleCustomerListResponse;
+      if (customers.data.length === 0) {
+        return { data: [], hasMore: false };
+      }
+      customerId = customers.data[0].id;
+    }
+
+    // Paddle accepts a comma-separated list of statuses
+    const statusFilters: Record<SubscriptionStatus, string> = {
+      active: "active,trialing",
+      paused: "paused",
+      cancelled: "canceled",
+      past_due: "past_due",
+    };
+
+    const queryParams: Record<string, string | number> = {
+      customer_id: customerId!,
+      per_page: input.limit ?? 10,
+    };
+    if (input.status) {
+      queryParams.status = statusFilters[input.status];
+    }
+    // Paddle paginates with the ID of the last entity on the previous page
+    if (input.cursor) {
+      queryParams.after = input.cursor;
+    }
+
+    const response = (await this.request(
+      "GET",
+      "/subscriptions",
+      undefined,
+      queryParams
+    )) as PaddleSubscriptionListResponse;
+
+    const lastSubscription = response.data[response.data.length - 1];
+    return {
+      data: response.data.map((subscription) => ({
+        ...this.mapSubscription(subscription),
+        email: input.email,
+      })),
+      hasMore: response.meta.pagination.has_more,
+      nextCursor:
+        response.meta.pagination.has_more && lastSubscription
+          ? lastSubscription.id
+          : undefined,
+    };
+  }
+
+  /**
+   * Maps a Paddle subscription to a SubscriptionResult
+   * Trialing subscriptions are reported as active
+   */
+  private mapSubscription(
+    subscription: PaddleSubscription
+  ): SubscriptionResult {
+    const responseStatus = subscription.status.toLowerCase();
+    let status: SubscriptionStatus = "active";
+    if (responseStatus === "canceled" || responseStatus === "cancelled") {
+      status = "cancelled";
+    } else if (responseStatus === "paused") {
+      status = "paused";
+    } else if (responseStatus === "past_due") {
+      status = "past_due";
+    }
+
+    const item = subscription.items[0];
+    return {
+      id: subscription.id,
+      status,
+      plan: item?.price.id || "unknown",
+      currency: subscription.currency_code.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      customerId: subscription.customer_id,
+      quantity: item?.quantity,
+      currentPeriodStart: subscription.current_billing_period?.starts_at,
+      currentPeriodEnd: subscription.current_billing_period?.ends_at,
+      cancelAtPeriodEnd: subscription.scheduled_change?.action === "cancel",
+      trialEnd: item?.trial_dates?.ends_at,
+    };
+  }
+
   async portal(email: string): Promise<string> {
     // Paddle customer portal - requires customer ID lookup
     // Use query parameters in URL for GET request
@@ -597,7 +842,9 @@ export class PaddleProvider implements PaymentProvider {
     })) as PaddleCustomerListResponse;
 
     if (customers.data.length === 0) {
-      throw new Error(`No customer found with email: ${email}`);
+      throw new NotFoundError(`No customer found with email: ${email}`, {
+        provider: this.name,
+      });
     }
 
     const customerId = customers.data[0].id;
@@ -613,59 +860,155 @@ export class PaddleProvider implements PaymentProvider {
     return portalSession.data.urls.general.overview;
   }
 
-  verifyWebhook(
-    payload: string | Buffer,
+  /**
+   * Refunds a transaction by creating a refund adjustment
+   * Paddle reviews refunds before they are approved, so most refunds start as pending
+   *
+   * @param input - Refund input with transaction ID, optional amount and reason
+   * @returns Refund result with adjustment ID, status and refunded amount
+   * @throws {InvalidRequestError} If metadata is passed
+   */
+  async refund(input: RefundInput): Promise<RefundResult> {
+    // Adjustments have no custom data, so metadata would be silently lost
+    if (input.metadata) {
+      throw new InvalidRequestError(
+        "Paddle refunds cannot carry metadata. Remove metadata from the refund input.",
+        { provider: this.name }
+      );
+    }
+
+    // Paddle requires a human-readable reason on every adjustment
+    const reasonText: Record<string, string> = {
+      duplicate: "Duplicate payment",
+      fraudulent: "Fraudulent payment",
+      requested_by_customer: "Requested by customer",
+      other: "Refund requested",
+    };
+
+    const adjustmentPayload: Record<string, unknown> = {
+      action: "refund",
+      transaction_id: input.paymentId,
+      reason: reasonText[input.reason || "other"],
+    };
+
+    if (input.amount === undefined) {
+      adjustmentPayload.type = "full";
+    } else {
+      // Partial refunds must be allocated to a transaction line item
+      const transaction = (await this.request(
+        "GET",
+        `/transactions/${input.paymentId}`
+      )) as {
+        data: {
+          id: string;
+          currency_code: string;
+          details?: {
+            line_items?: Array<{ id: string }>;
+          };
+        };
+      };
+
+      const lineItemId = transaction.data.details?.line_items?.[0]?.id;
+      if (!lineItemId) {
+        throw new InvalidRequestError(
+          `Transaction "${input.paymentId}" has no line items to refund. Only completed transactions can be refunded.`,
+          { provider: this.name }
+        );
+      }
+
+      adjustmentPayload.type = "partial";
+      adjustmentPayload.items = [
+        {
+          item_id: lineItemId,
+          type: "partial",
+          amount: String(
+            toMinorUnits(input.amount, transaction.data.currency_code)
+          ),
+        },
+      ];
+    }
+
+    const response = (await this.request(
+      "POST",
+      "/adjustments",
+      adjustmentPayload
+    )) as PaddleAdjustmentResponse;
+
+    const amount = response.data.totals?.total
+      ? fromMinorUnits(response.data.totals.total, response.data.currency_code)
+      : input.amount || 0;
+
+    return {
+      id: response.data.id,
+      paymentId: response.data.transaction_id,
+      status:
+        response.data.status === "approved"
+          ? "succeeded"
+          : response.data.status === "rejected"
+            ? "failed"
+            : response.data.status === "reversed"
+              ? "cancelled"
+              : "pending",
+      amount,
+      currency: response.data.currency_code.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      reason: input.reason,
+    };
+  }
+
+  async verifyWebhook(
+    payload: string | Uint8Array,
     signature: string,
-    secret: string
-  ): boolean {
-    const webhookSecret = secret || process.env.PADDLE_WEBHOOK_SECRET || "";
-    if (!webhookSecret || !signature) {
-      return false;
+    secret: string,
+    _headers?: Record<string, string>,
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookVerificationResult> {
+    if (!signature) {
+      return verificationFailed("missing_signature");
+    }
+    if (!secret) {
+      return verificationFailed("invalid_signature");
     }
 
     // Paddle uses HMAC SHA256 for webhook verification
     // The signature is in the format: "ts=timestamp;h1=hash"
     // The signed payload format is: "timestamp:raw_body"
-    const payloadString =
-      typeof payload === "string" ? payload : payload.toString("utf-8");
-
     try {
-      // Extract timestamp and hash from signature
+      // Extract timestamp and hashes from signature; Paddle may send several h1 entries
       const parts = signature.split(";");
       const tsPart = parts.find((p) => p.startsWith("ts="));
-      const h1Part = parts.find((p) => p.startsWith("h1="));
+      const providedHashes = parts
+        .filter((p) => p.startsWith("h1="))
+        .map((p) => p.substring(3)); // Remove "h1=" prefix
 
-      if (!tsPart || !h1Part) {
-        return false;
+      if (!tsPart || providedHashes.length === 0) {
+        return verificationFailed("malformed_header");
       }
 
       const timestamp = tsPart.substring(3); // Remove "ts=" prefix
-      const providedHash = h1Part.substring(3); // Remove "h1=" prefix
+      const timestampFailure = checkWebhookTimestamp(
+        timestamp,
+        this.toleranceSeconds,
+        options.now
+      );
+      if (timestampFailure) {
+        return verificationFailed(timestampFailure);
+      }
 
       // Construct signed payload: "timestamp:raw_body"
-      const signedPayload = `${timestamp}:${payloadString}`;
+      const signedPayload = `${timestamp}:${toText(payload)}`;
 
       // Compute HMAC SHA256 on the signed payload
-      const hmac = createHmac("sha256", webhookSecret);
-      hmac.update(signedPayload);
-      const computedHash = hmac.digest("hex");
+      const computedHash = toHex(await hmacSha256(secret, signedPayload));
 
       // Compare hashes using constant-time comparison
-      return this.constantTimeEquals(providedHash, computedHash);
+      const matched = providedHashes.some((providedHash) =>
+        timingSafeEqual(toBytes(providedHash), toBytes(computedHash))
+      );
+      return matched ? VERIFIED : verificationFailed("invalid_signature");
     } catch {
-      return false;
-    }
-  }
-
-  private constantTimeEquals(a: string, b: string): boolean {
-    if (a.length !== b.length) {
-      return false;
-    }
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+      return verificationFailed("invalid_signature");
     }
-    return result === 0;
   }
 
   normalizeWebhookEvent(rawEvent: unknown): unknown {
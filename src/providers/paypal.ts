@@ -5,52 +5,137 @@ import type {
   SubscribeInput,
   SubscriptionResult,
   CurrencyCode,
+  RefundInput,
+  RefundResult,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  SubscriptionStatus,
+  ChangePlanInput,
+  SubscriptionActionOptions,
+  WebhookVerificationResult,
 } from "../types.js";
-import { isSandbox } from "./env.js";
+import { formatDecimalAmount } from "../money.js";
+import {
+  AuthenticationError,
+  ConfigurationError,
+  createProviderError,
+  InvalidRequestError,
+  NotFoundError,
+  withErrorMessage,
+} from "../errors.js";
+import {
+  createHttpClient,
+  isRetryableRequest,
+  type HttpClient,
+  type HttpConfig,
+} from "./http.js";
+import { VERIFIED, verificationFailed } from "./webhook-verification.js";
+import { toBase64, toBytes, toText } from "../crypto.js";
+
+// PayPal issue codes that mean the buyer's payment method was declined
+const DECLINE_ISSUES = new Set([
+  "INSTRUMENT_DECLINED",
+  "TRANSACTION_REFUSED",
+  "PAYER_CANNOT_PAY",
+  "CARD_EXPIRED",
+]);
+
+interface PayPalSubscription {
+  id: string;
+  status: string;
+  plan_id: string;
+  quantity?: string;
+  start_time?: string;
+  subscriber?: {
+    email_address?: string;
+    payer_id?: string;
+  };
+  billing_info?: {
+    outstanding_balance?: {
+      currency_code: string;
+      value: string;
+    };
+    last_payment?: {
+      amount: {
+        currency_code: string;
+        value: string;
+      };
+      time?: string;
+    };
+    next_billing_time?: string;
+    failed_payments_count?: number;
+    cycle_executions?: Array<{
+      tenure_type: string;
+      cycles_remaining: number;
+    }>;
+  };
+}
+
+interface PayPalPlan {
+  id: string;
+  billing_cycles?: Array<{
+    tenure_type?: string;
+    frequency?: { interval_unit?: string; interval_count?: number };
+  }>;
+}
+
+/**
+ * Credentials and settings for a PayPal provider instance
+ */
+export interface PayPalConfig extends HttpConfig {
+  /** REST app client ID */
+  clientId: string;
+  /** REST app client secret */
+  clientSecret: string;
+  /** Webhook ID used for signature verification; list several while moving to a new webhook, newest first */
+  webhookId?: string | string[];
+  /** Use the PayPal sandbox API */
+  sandbox?: boolean;
+  /** Overrides the API base URL */
+  baseUrl?: string;
+  /** Approval return URL used when a call doesn't pass a success URL */
+  returnUrl?: string;
+  /** Approval cancel URL used when a call doesn't pass one */
+  cancelUrl?: string;
+  /** Brand name shown on PayPal's approval pages (defaults to "PayLayer") */
+  brandName?: string;
+  /** Account management base URL (defaults to https://www.paypal.com) */
+  portalBaseUrl?: string;
+}
 
 export class PayPalProvider implements PaymentProvider {
   readonly name = "paypal";
+  readonly supportsIdempotencyKeys = true;
   private clientId: string;
   private clientSecret: string;
   private baseUrl: string;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
+  private http: HttpClient;
+  private returnUrl: string;
+  private cancelUrl: string;
+  private brandName: string;
+  private portalBaseUrl: string;
 
-  constructor() {
-    const clientId = process.env.PAYPAL_CLIENT_ID;
-    const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
-    if (!clientId || !clientSecret) {
-      throw new Error(
-        "PAYPAL_CLIENT_ID and PAYPAL_CLIENT_SECRET environment variables are required for PayPal provider"
+  constructor(config: PayPalConfig) {
+    if (!config.clientId || !config.clientSecret) {
+      throw new ConfigurationError(
+        "A client ID and client secret are required for PayPal provider",
+        { provider: "paypal" }
       );
     }
-    this.clientId = clientId;
-    this.clientSecret = clientSecret;
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
     this.baseUrl =
-      process.env.PAYPAL_BASE_URL ||
-      (isSandbox(this.name)
+      config.baseUrl ||
+      (config.sandbox
         ? "https://api-m.sandbox.paypal.com"
         : "https://api-m.paypal.com");
-
-    // Validate optional but recommended environment variables
-    // PAYPAL_RETURN_URL and PAYPAL_CANCEL_URL are required for charge() redirect flow
-    // PAYPAL_WEBHOOK_ID is required for webhook verification
-    if (
-      process.env.NODE_ENV === "production" &&
-      (!process.env.PAYPAL_RETURN_URL || !process.env.PAYPAL_CANCEL_URL)
-    ) {
-      console.warn(
-        "PayPal: PAYPAL_RETURN_URL and PAYPAL_CANCEL_URL should be set for production use with charge() method"
-      );
-    }
-    if (
-      process.env.NODE_ENV === "production" &&
-      !process.env.PAYPAL_WEBHOOK_ID
-    ) {
-      console.warn(
-        "PayPal: PAYPAL_WEBHOOK_ID should be set for production webhook verification"
-      );
-    }
+    this.http = createHttpClient(this.name, "PayPal", config);
+    this.returnUrl = config.returnUrl || "https://app.example.com/success";
+    this.cancelUrl = config.cancelUrl || "https://app.example.com/cancel";
+    this.brandName = config.brandName || "PayLayer";
+    this.portalBaseUrl = config.portalBaseUrl || "https://www.paypal.com";
   }
 
   private async getAccessToken(): Promise<string> {
@@ -60,21 +145,32 @@ export class PayPalProvider implements PaymentProvider {
     }
 
     // Get new access token
-    const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString(
-      "base64"
-    );
-    const response = await fetch(`${this.baseUrl}/v1/oauth2/token`, {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${auth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
+    const auth = toBase64(toBytes(`${this.clientId}:${this.clientSecret}`));
+    // Requesting a token has no side effects, so it is always safe to retry
+    const response = await this.http.fetch(
+      `${this.baseUrl}/v1/oauth2/token`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "grant_type=client_credentials",
       },
-      body: "grant_type=client_credentials",
-    });
+      { retry: true }
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`PayPal auth error: ${response.status} - ${errorText}`);
+      throw new AuthenticationError(
+        `PayPal auth error: ${response.status} - ${errorText}`,
+        {
+          provider: this.name,
+          status: response.status,
+          requestId: response.headers.get("paypal-debug-id") || undefined,
+          raw: errorText,
+        }
+      );
     }
 
     const data = (await response.json()) as {
@@ -87,22 +183,37 @@ export class PayPalProvider implements PaymentProvider {
     return this.accessToken;
   }
 
+  /**
+   * Sends a request to the PayPal API
+   * The idempotency key is sent as PayPal-Request-Id so PayPal can deduplicate retries;
+   * without one, every request gets a fresh ID
+   */
   private async request(
     method: string,
     endpoint: string,
-    body?: unknown
+    body?: unknown,
+    idempotencyKey?: string
   ): Promise<unknown> {
     const token = await this.getAccessToken();
     const url = `${this.baseUrl}${endpoint}`;
-    const response = await fetch(url, {
-      method,
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-        "PayPal-Request-Id": crypto.randomUUID(),
+    // The request ID stays the same across retries, so PayPal deduplicates retried POSTs
+    const requestId = idempotencyKey || crypto.randomUUID();
+    const response = await this.http.fetch(
+      url,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+          "PayPal-Request-Id": requestId,
+        },
+        body: body ? JSON.stringify(body) : undefined,
       },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+      {
+        // A generated request ID doesn't make a POST safe to retry; only the caller's key does
+        retry: isRetryableRequest(method, idempotencyKey),
+      }
+    );
 
     if (!response.ok) {
       const error = (await response.json().catch(() => ({
@@ -136,11 +247,20 @@ export class PayPalProvider implements PaymentProvider {
         fullMessage += ` - More info: ${infoLink}`;
       }
 
-      const errorObj = new Error(fullMessage);
-      (errorObj as unknown as { debug_id?: string }).debug_id = debugId;
-      (errorObj as unknown as { paypal_error?: typeof error }).paypal_error =
-        error;
-      throw errorObj;
+      // The first detail carries the specific issue (e.g. INSTRUMENT_DECLINED)
+      const code = details[0]?.issue || error.name;
+      throw createProviderError(
+        fullMessage,
+        {
+          provider: this.name,
+          status: response.status,
+          code,
+          requestId:
+            debugId || response.headers.get("paypal-debug-id") || undefined,
+          raw: error,
+        },
+        code !== undefined && DECLINE_ISSUES.has(code)
+      );
     }
 
     return response.json();
@@ -175,6 +295,7 @@ export class PayPalProvider implements PaymentProvider {
         // For now, we'll check the product type and warn if it might be a subscription
         if (product.type === "SERVICE") {
           // Try to check if there are subscription plans for this product
+          let hasPlans = false;
           try {
             const plans = (await this.request("GET", "/v1/billing/plans", {
               product_id: input.productId,
@@ -182,25 +303,20 @@ export class PayPalProvider implements PaymentProvider {
             })) as {
               plans?: Array<unknown>;
             };
-            if (plans.plans && plans.plans.length > 0) {
-              throw new Error(
-                `The product "${input.productId}" is associated with subscription plans, but you're using it with charge().\n` +
-                  `To create a one-time payment, please:\n` +
-                  `1. Go to your PayPal Dashboard → Products & Plans\n` +
-                  `2. Create a new product for one-time payments\n` +
-                  `3. Use the new product ID in charge()\n\n` +
-                  `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`
-              );
-            }
-          } catch (error) {
-            // If it's our validation error, re-throw it
-            if (
-              error instanceof Error &&
-              error.message.includes("associated with subscription plans")
-            ) {
-              throw error;
-            }
-            // For other errors, continue with product price extraction
+            hasPlans = !!plans.plans && plans.plans.length > 0;
+          } catch {
+            // If the lookup fails, continue with product price extraction
+          }
+          if (hasPlans) {
+            throw new InvalidRequestError(
+              `The product "${input.productId}" is associated with subscription plans, but you're using it with charge().\n` +
+                `To create a one-time payment, please:\n` +
+                `1. Go to your PayPal Dashboard → Products & Plans\n` +
+                `2. Create a new product for one-time payments\n` +
+                `3. Use the new product ID in charge()\n\n` +
+                `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`,
+              { provider: this.name }
+            );
           }
         }
 
@@ -222,31 +338,28 @@ export class PayPalProvider implements PaymentProvider {
         }
 
         if (!amount) {
-          throw new Error(
-            `Could not determine price for product "${input.productId}". Please provide amount directly or ensure the product has pricing configured.`
+          throw new InvalidRequestError(
+            `Could not determine price for product "${input.productId}". Please provide amount directly or ensure the product has pricing configured.`,
+            { provider: this.name }
           );
         }
       } catch (error) {
-        throw new Error(
+        throw withErrorMessage(
+          error,
           `Failed to fetch product "${input.productId}": ${error instanceof Error ? error.message : "Unknown error"}. Please provide amount directly.`
         );
       }
     } else if (input.amount) {
       amount = input.amount;
     } else {
-      throw new Error(
-        "PayPal requires either productId or amount for one-time payments. priceId is not supported for charges."
+      throw new InvalidRequestError(
+        "PayPal requires either productId or amount for one-time payments. priceId is not supported for charges.",
+        { provider: this.name }
       );
     }
 
-    const returnUrl =
-      input.successUrl ||
-      process.env.PAYPAL_RETURN_URL ||
-      "https://app.example.com/success";
-    const cancelUrl =
-      input.cancelUrl ||
-      process.env.PAYPAL_CANCEL_URL ||
-      "https://app.example.com/cancel";
+    const returnUrl = input.successUrl || this.returnUrl;
+    const cancelUrl = input.cancelUrl || this.cancelUrl;
 
     const purchaseUnit: {
       amount: {
@@ -259,7 +372,7 @@ export class PayPalProvider implements PaymentProvider {
     } = {
       amount: {
         currency_code: input.currency,
-        value: amount.toFixed(2),
+        value: formatDecimalAmount(amount, input.currency),
       },
       description: `Payment of ${amount} ${input.currency}`,
       payee: input.email
@@ -273,14 +386,19 @@ export class PayPalProvider implements PaymentProvider {
       purchaseUnit.custom_id = JSON.stringify(input.metadata);
     }
 
-    const order = (await this.request("POST", "/v2/checkout/orders", {
-      intent: "CAPTURE",
-      purchase_units: [purchaseUnit],
-      application_context: {
-        return_url: returnUrl,
-        cancel_url: cancelUrl,
+    const order = (await this.request(
+      "POST",
+      "/v2/checkout/orders",
+      {
+        intent: "CAPTURE",
+        purchase_units: [purchaseUnit],
+        application_context: {
+          return_url: returnUrl,
+          cancel_url: cancelUrl,
+        },
       },
-    })) as {
+      input.idempotencyKey
+    )) as {
       id: string;
       status: string;
       links?: Array<{ href: string; rel: string; method: string }>;
@@ -354,51 +472,51 @@ export class PayPalProvider implements PaymentProvider {
     };
   }
 
+  /**
+   * Looks up a billing plan to validate it before use
+   * Lookup failures (network, invalid plan ID, etc.) are left for the
+   * subscription request to report, so this returns undefined for them
+   */
+  private async findPlan(planId: string): Promise<PayPalPlan | undefined> {
+    try {
+      return (await this.request(
+        "GET",
+        `/v1/billing/plans/${planId}`
+      )) as PayPalPlan;
+    } catch {
+      return undefined;
+    }
+  }
+
   async subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
     if (!input.email) {
-      throw new Error("Email is required for PayPal subscriptions");
+      throw new InvalidRequestError(
+        "Email is required for PayPal subscriptions",
+        { provider: this.name }
+      );
     }
 
     // Validate that the plan is configured for recurring billing
-    try {
-      const plan = (await this.request(
-        "GET",
-        `/v1/billing/plans/${input.plan}`
-      )) as {
-        id: string;
-        billing_cycles?: Array<{
-          tenure_type?: string;
-          frequency?: { interval_unit?: string; interval_count?: number };
-        }>;
-      };
-      if (
-        !plan.billing_cycles ||
+    const plan = await this.findPlan(input.plan);
+    if (
+      plan &&
+      (!plan.billing_cycles ||
         plan.billing_cycles.length === 0 ||
         !plan.billing_cycles.some(
           (cycle) =>
             cycle.tenure_type === "REGULAR" || cycle.tenure_type === "TRIAL"
-        )
-      ) {
-        throw new Error(
-          `The plan "${input.plan}" is not configured for recurring billing, but you're using it with subscribe().\n` +
-            `To create a subscription, please:\n` +
-            `1. Go to your PayPal Dashboard → Products & Plans\n` +
-            `2. Create a new subscription plan with billing cycles configured\n` +
-            `3. Set the billing frequency (monthly, yearly, etc.)\n` +
-            `4. Use the new subscription plan ID in subscribe()\n\n` +
-            `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`
-        );
-      }
-    } catch (error) {
-      // If it's our validation error, re-throw it
-      if (
-        error instanceof Error &&
-        error.message.includes("not configured for recurring billing")
-      ) {
-        throw error;
-      }
-      // For other errors (network, invalid plan ID, etc.), let them propagate
-      // The API will handle them appropriately
+        ))
+    ) {
+      throw new InvalidRequestError(
+        `The plan "${input.plan}" is not configured for recurring billing, but you're using it with subscribe().\n` +
+          `To create a subscription, please:\n` +
+          `1. Go to your PayPal Dashboard → Products & Plans\n` +
+          `2. Create a new subscription plan with billing cycles configured\n` +
+          `3. Set the billing frequency (monthly, yearly, etc.)\n` +
+          `4. Use the new subscription plan ID in subscribe()\n\n` +
+          `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`,
+        { provider: this.name }
+      );
     }
 
     // PayPal uses Subscriptions API
@@ -418,11 +536,9 @@ export class PayPalProvider implements PaymentProvider {
         email_address: input.email,
       },
       application_context: {
-        brand_name: process.env.PAYPAL_BRAND_NAME || "PayLayer",
-        return_url:
-          process.env.PAYPAL_RETURN_URL || "https://app.example.com/success",
-        cancel_url:
-          process.env.PAYPAL_CANCEL_URL || "https://app.example.com/cancel",
+        brand_name: this.brandName,
+        return_url: this.returnUrl,
+        cancel_url: this.cancelUrl,
       },
     };
 
@@ -433,7 +549,8 @@ export class PayPalProvider implements PaymentProvider {
     const subscription = (await this.request(
       "POST",
       "/v1/billing/subscriptions",
-      subscriptionData
+      subscriptionData,
+      input.idempotencyKey
     )) as {
       id: string;
       status: string;
@@ -465,13 +582,17 @@ export class PayPalProvider implements PaymentProvider {
     };
   }
 
-  async cancel(subscriptionId: string): Promise<SubscriptionResult> {
+  async cancel(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
     await this.request(
       "POST",
       `/v1/billing/subscriptions/${subscriptionId}/cancel`,
       {
         reason: "User requested cancellation",
-      }
+      },
+      options.idempotencyKey
     );
 
     const subscription = (await this.request(
@@ -535,13 +656,17 @@ export class PayPalProvider implements PaymentProvider {
     };
   }
 
-  async pause(subscriptionId: string): Promise<SubscriptionResult> {
+  async pause(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
     await this.request(
       "POST",
       `/v1/billing/subscriptions/${subscriptionId}/suspend`,
       {
         reason: "User requested pause",
-      }
+      },
+      options.idempotencyKey
     );
 
     const subscription = (await this.request(
@@ -597,13 +722,17 @@ export class PayPalProvider implements PaymentProvider {
     };
   }
 
-  async resume(subscriptionId: string): Promise<SubscriptionResult> {
+  async resume(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
     await this.request(
       "POST",
       `/v1/billing/subscriptions/${subscriptionId}/activate`,
       {
         reason: "User requested resume",
-      }
+      },
+      options.idempotencyKey
     );
 
     const subscription = (await this.request(
@@ -659,26 +788,228 @@ export class PayPalProvider implements PaymentProvider {
     };
   }
 
+  async changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    // PayPal plan revisions take effect at the next billing cycle and are never prorated
+    if (input.proration === "immediate") {
+      throw new InvalidRequestError(
+        'PayPal does not support immediate proration. Plan revisions take effect at the next billing cycle; use proration "next_period" or "none".',
+        { provider: this.name }
+      );
+    }
+
+    const revision = (await this.request(
+      "POST",
+      `/v1/billing/subscriptions/${input.subscriptionId}/revise`,
+      {
+        plan_id: input.plan,
+        quantity:
+          input.quantity !== undefined ? String(input.quantity) : undefined,
+      },
+      input.idempotencyKey
+    )) as {
+      plan_id: string;
+      quantity?: string;
+      effective_time?: string;
+      links?: Array<{ href: string; rel: string }>;
+    };
+
+    // Revisions that change the price need the subscriber's approval
+    const approveLink = revision.links?.find((link) => link.rel === "approve");
+    const subscription = await this.getSubscription(input.subscriptionId);
+
+    return {
+      ...subscription,
+      plan: revision.plan_id || input.plan,
+      quantity: revision.quantity
+        ? parseInt(revision.quantity, 10)
+        : subscription.quantity,
+      url: approveLink?.href,
+      prorationAmount: 0,
+    };
+  }
+
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    const subscription = (await this.request(
+      "GET",
+      `/v1/billing/subscriptions/${subscriptionId}`
+    )) as PayPalSubscription;
+
+    // Map PayPal subscription status to our normalized status
+    // Active subscriptions with failed payments are reported as past_due
+    const responseStatus = subscription.status.toUpperCase();
+    let status: SubscriptionStatus = "active";
+    if (responseStatus === "CANCELLED" || responseStatus === "EXPIRED") {
+      status = "cancelled";
+    } else if (responseStatus === "SUSPENDED") {
+      status = "paused";
+    } else if ((subscription.billing_info?.failed_payments_count ?? 0) > 0) {
+      status = "past_due";
+    }
+
+    const currency = (
+      subscription.billing_info?.last_payment?.amount?.currency_code ||
+      subscription.billing_info?.outstanding_balance?.currency_code ||
+      "USD"
+    ).toUpperCase() as CurrencyCode;
+
+    // The current period runs from the last payment (or the start) to the next billing time
+    const inTrial = subscription.billing_info?.cycle_executions?.some(
+      (cycle) => cycle.tenure_type === "TRIAL" && cycle.cycles_remaining > 0
+    );
+
+    return {
+      id: subscription.id,
+      status,
+      plan: subscription.plan_id || "unknown",
+      currency,
+      provider: this.name,
+      email: subscription.subscriber?.email_address,
+      customerId: subscription.subscriber?.payer_id,
+      quantity: subscription.quantity
+        ? parseInt(subscription.quantity, 10)
+        : undefined,
+      currentPeriodStart:
+        subscription.billing_info?.last_payment?.time ||
+        subscription.start_time,
+      currentPeriodEnd: subscription.billing_info?.next_billing_time,
+      cancelAtPeriodEnd: false,
+      trialEnd: inTrial
+        ? subscription.billing_info?.next_billing_time
+        : undefined,
+    };
+  }
+
+  async listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    // PayPal's Subscriptions API can only retrieve subscriptions by ID
+    throw new InvalidRequestError(
+      "PayPal does not support listing subscriptions. Store subscription IDs from pay.subscribe() or webhooks and use pay.getSubscription() instead.",
+      { provider: this.name }
+    );
+  }
+
   async portal(email: string): Promise<string> {
     // PayPal account management URL
-    const baseUrl =
-      process.env.PAYPAL_PORTAL_BASE_URL || "https://www.paypal.com";
-    return `${baseUrl}/myaccount/autopay`;
+    return `${this.portalBaseUrl}/myaccount/autopay`;
+  }
+
+  /**
+   * Refunds a captured payment
+   * Accepts either a capture ID or the order ID returned by charge()
+   *
+   * @param input - Refund input with capture/order ID, optional amount and reason
+   * @returns Refund result with refund ID, status and refunded amount
+   */
+  async refund(input: RefundInput): Promise<RefundResult> {
+    type PayPalCapture = {
+      id: string;
+      status: string;
+      amount: { currency_code: string; value: string };
+    };
+
+    // charge() returns an order ID, but refunds are issued against captures
+    // Try the ID as a capture first, then fall back to resolving it as an order
+    let capture: PayPalCapture;
+    try {
+      capture = (await this.request(
+        "GET",
+        `/v2/payments/captures/${input.paymentId}`
+      )) as PayPalCapture;
+    } catch (error) {
+      // Only a missing capture means the ID may be an order; auth failures and outages surface as is
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      const order = (await this.request(
+        "GET",
+        `/v2/checkout/orders/${input.paymentId}`
+      )) as {
+        id: string;
+        status: string;
+        purchase_units?: Array<{
+          payments?: {
+            captures?: Array<PayPalCapture>;
+          };
+        }>;
+      };
+
+      const orderCapture = order.purchase_units?.[0]?.payments?.captures?.[0];
+      if (!orderCapture) {
+        throw new InvalidRequestError(
+          `Order "${input.paymentId}" has no captured payment to refund (status: ${order.status}). ` +
+            `Orders must be captured with captureOrder() before they can be refunded.`,
+          { provider: this.name }
+        );
+      }
+      capture = orderCapture;
+    }
+
+    const refundData: {
+      amount?: { value: string; currency_code: string };
+      note_to_payer?: string;
+      custom_id?: string;
+    } = {};
+
+    if (input.amount !== undefined) {
+      refundData.amount = {
+        value: formatDecimalAmount(input.amount, capture.amount.currency_code),
+        currency_code: capture.amount.currency_code,
+      };
+    }
+
+    if (input.reason) {
+      refundData.note_to_payer = input.reason.replace(/_/g, " ");
+    }
+
+    if (input.metadata) {
+      refundData.custom_id = JSON.stringify(input.metadata);
+    }
+
+    const refund = (await this.request(
+      "POST",
+      `/v2/payments/captures/${capture.id}/refund`,
+      refundData,
+      input.idempotencyKey
+    )) as {
+      id: string;
+      status: "CANCELLED" | "FAILED" | "PENDING" | "COMPLETED";
+      amount?: { currency_code: string; value: string };
+    };
+
+    const refundAmount = refund.amount ?? capture.amount;
+
+    return {
+      id: refund.id,
+      paymentId: input.paymentId,
+      status:
+        refund.status === "COMPLETED"
+          ? "succeeded"
+          : refund.status === "FAILED"
+            ? "failed"
+            : refund.status === "CANCELLED"
+              ? "cancelled"
+              : "pending",
+      amount: parseFloat(refundAmount.value),
+      currency: refundAmount.currency_code.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      reason: input.reason,
+    };
   }
 
   async verifyWebhook(
-    payload: string | Buffer,
+    payload: string | Uint8Array,
     signature: string,
     secret: string,
     headers?: Record<string, string>
-  ): Promise<boolean> {
+  ): Promise<WebhookVerificationResult> {
     // PayPal webhook verification uses PayPal's verification API endpoint
     // This is the recommended approach per PayPal documentation
 
     if (!headers) {
       // eslint-disable-next-line no-console
       console.warn("PayPal webhook verification: Missing headers");
-      return false;
+      return verificationFailed("missing_signature");
     }
 
     // Normalize headers to lowercase for case-insensitive lookup
@@ -720,33 +1051,33 @@ export class PayPalProvider implements PaymentProvider {
         hasTransmissionSig: !!transmissionSig,
         hasTransmissionTime: !!transmissionTime,
       });
-      return false;
+      return verificationFailed(
+        transmissionSig ? "malformed_header" : "missing_signature"
+      );
     }
 
-    // Get webhook ID from environment (required for verification)
-    const webhookId = secret || process.env.PAYPAL_WEBHOOK_ID;
+    // The webhook ID is required for verification
+    const webhookId = secret;
     if (!webhookId) {
       // eslint-disable-next-line no-console
       console.warn(
-        "PAYPAL_WEBHOOK_ID not set. Webhook verification requires webhook ID."
+        "PayPal webhook ID not set. Webhook verification requires webhook ID."
       );
-      return false;
+      return verificationFailed("invalid_signature");
     }
 
     // Parse payload as JSON for verification
     let webhookEvent: unknown;
     try {
-      const payloadString =
-        typeof payload === "string" ? payload : payload.toString("utf-8");
-      webhookEvent = JSON.parse(payloadString);
+      webhookEvent = JSON.parse(toText(payload));
     } catch {
-      return false;
+      return verificationFailed("invalid_signature");
     }
 
     try {
       // Call PayPal's verification API endpoint
       const token = await this.getAccessToken();
-      const verificationResponse = await fetch(
+      const verificationResponse = await this.http.fetch(
         `${this.baseUrl}/v1/notifications/verify-webhook-signature`,
         {
           method: "POST",
@@ -763,7 +1094,8 @@ export class PayPalProvider implements PaymentProvider {
             webhook_id: webhookId,
             webhook_event: webhookEvent,
           }),
-        }
+        },
+        { retry: true }
       );
 
       if (!verificationResponse.ok) {
@@ -774,7 +1106,13 @@ export class PayPalProvider implements PaymentProvider {
         console.error(
           `PayPal webhook verification failed: ${verificationResponse.status} - ${errorText}`
         );
-        return false;
+        // PayPal being down or rate limiting says nothing about the signature
+        return verificationFailed(
+          verificationResponse.status === 429 ||
+            verificationResponse.status >= 500
+            ? "verification_unavailable"
+            : "invalid_signature"
+        );
       }
 
       const verificationResult = (await verificationResponse.json()) as {
@@ -788,11 +1126,11 @@ export class PayPalProvider implements PaymentProvider {
           `PayPal webhook verification status: ${verificationResult.verification_status}`
         );
       }
-      return isValid;
+      return isValid ? VERIFIED : verificationFailed("invalid_signature");
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error("PayPal webhook verification error:", error);
-      return false;
+      return verificationFailed("verification_unavailable");
     }
   }
 
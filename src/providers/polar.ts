@@ -2,15 +2,38 @@
  * Polar.sh provider implementation
  */
 
-import { createHmac } from "node:crypto";
-import type { PaymentProvider } from "./types.js";
+import type { PaymentProvider, WebhookVerifyOptions } from "./types.js";
 import type {
   ChargeInput,
   ChargeResult,
   SubscribeInput,
   SubscriptionResult,
+  RefundInput,
+  RefundResult,
+  CurrencyCode,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  SubscriptionStatus,
+  ChangePlanInput,
+  WebhookVerificationResult,
 } from "../types.js";
-import { isSandbox } from "./env.js";
+import { toMinorUnits, fromMinorUnits } from "../money.js";
+import {
+  ConfigurationError,
+  createProviderError,
+  InvalidRequestError,
+  NotFoundError,
+  PayLayerError,
+  ProviderUnavailableError,
+  withErrorMessage,
+} from "../errors.js";
+import {
+  createHttpClient,
+  isRetryableRequest,
+  type HttpClient,
+  type HttpConfig,
+} from "./http.js";
+import { verifyStandardWebhook } from "../standard-webhooks.js";
 
 // Polar API response types
 interface PolarCustomer {
@@ -57,7 +80,35 @@ interface PolarSubscription {
   currency?: string;
   cancel_at_period_end?: boolean;
   canceled_at?: string | null;
-  current_period_end?: string;
+  current_period_start?: string;
+  current_period_end?: string | null;
+  trial_end?: string | null;
+  seats?: number | null;
+  customer?: PolarCustomer;
+}
+
+interface PolarSubscriptionList {
+  items: PolarSubscription[];
+  pagination: {
+    total_count: number;
+    max_page: number;
+  };
+}
+
+interface PolarOrder {
+  id: string;
+  amount: number;
+  refunded_amount?: number;
+  currency: string;
+}
+
+interface PolarRefund {
+  id: string;
+  status: "pending" | "succeeded" | "failed" | "canceled";
+  reason: string;
+  amount: number;
+  currency: string;
+  order_id: string;
 }
 
 interface PolarCustomerSession {
@@ -67,30 +118,54 @@ interface PolarCustomerSession {
   customer_id: string;
 }
 
+/**
+ * Credentials and settings for a Polar provider instance
+ */
+export interface PolarConfig extends HttpConfig {
+  /** Organization access token */
+  accessToken: string;
+  /** Webhook signing secret; list several while rotating, newest first */
+  webhookSecret?: string | string[];
+  /** Accepted age of a webhook's signed timestamp, in seconds (defaults to 5 minutes) */
+  toleranceSeconds?: number;
+  /** Use the Polar sandbox API */
+  sandbox?: boolean;
+  /** Overrides the API base URL */
+  baseUrl?: string;
+  /** Checkout success URL used when a call doesn't pass one */
+  successUrl?: string;
+  /** Checkout cancel URL used when a call doesn't pass one */
+  cancelUrl?: string;
+}
+
 export class PolarProvider implements PaymentProvider {
   readonly name = "polar";
+  readonly supportsIdempotencyKeys = false;
   private apiKey: string;
   private baseUrl: string;
-
-  constructor() {
-    // Support both POLAR_API_KEY (legacy) and POLAR_OAT/POLAR_ACCESS_TOKEN
-    const apiKey =
-      process.env.POLAR_OAT ||
-      process.env.POLAR_ACCESS_TOKEN ||
-      process.env.POLAR_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "POLAR_OAT or POLAR_ACCESS_TOKEN environment variable is required for Polar provider"
+  private http: HttpClient;
+  private toleranceSeconds?: number;
+  private successUrl: string | undefined;
+  private cancelUrl: string | undefined;
+
+  constructor(config: PolarConfig) {
+    if (!config.accessToken) {
+      throw new ConfigurationError(
+        "An access token is required for Polar provider",
+        { provider: "polar" }
       );
     }
-    this.apiKey = apiKey;
+    this.apiKey = config.accessToken;
+    this.http = createHttpClient(this.name, "Polar", config);
+    this.toleranceSeconds = config.toleranceSeconds;
+    this.successUrl = config.successUrl;
+    this.cancelUrl = config.cancelUrl;
 
     // Support sandbox environment
-    const sandboxMode = isSandbox(this.name);
-    if (process.env.POLAR_BASE_URL) {
-      this.baseUrl = process.env.POLAR_BASE_URL;
+    if (config.baseUrl) {
+      this.baseUrl = config.baseUrl;
     } else {
-      this.baseUrl = sandboxMode
+      this.baseUrl = config.sandbox
         ? "https://sandbox-api.polar.sh/v1"
         : "https://api.polar.sh/v1";
     }
@@ -118,27 +193,34 @@ export class PolarProvider implements PaymentProvider {
     }
 
     try {
-      const response = await fetch(url, {
-        method,
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          Accept: "application/json",
-          "Content-Type": "application/json",
+      const response = await this.http.fetch(
+        url,
+        {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            Accept: "application/json",
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
         },
-        body: body ? JSON.stringify(body) : undefined,
-      });
+        { retry: isRetryableRequest(method) }
+      );
 
       if (!response.ok) {
         const error = await response
           .json()
           .catch(() => ({ detail: "Unknown error" }));
-        throw new Error(
-          `Polar API error: ${response.status} - ${JSON.stringify(error)}`
-        );
+        throw this.createApiError(response, error);
       }
 
       return response.json() as Promise<T>;
     } catch (error) {
+      if (error instanceof PayLayerError) {
+        throw error;
+      }
+      const networkError = { provider: this.name, cause: error };
+
       // Handle network-level errors (fetch failures)
       if (error instanceof Error) {
         // Check for specific network error codes
@@ -146,42 +228,40 @@ export class PolarProvider implements PaymentProvider {
           const errorCode = (error as Error & { code?: string }).code;
 
           if (errorCode === "ETIMEDOUT") {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Polar API connection timed out. Please check your network connection.\n` +
-                `Request URL: ${url}`
+                `Request URL: ${url}`,
+              networkError
             );
           }
 
           if (errorCode === "ECONNREFUSED") {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Polar API connection refused. The server is not accepting connections.\n` +
-                `Request URL: ${url}`
+                `Request URL: ${url}`,
+              networkError
             );
           }
 
           if (errorCode === "ENOTFOUND") {
-            throw new Error(
+            throw new ProviderUnavailableError(
               `Polar API hostname not found. DNS resolution failed.\n` +
-                `Request URL: ${url}`
+                `Request URL: ${url}`,
+              networkError
             );
           }
         }
 
-        // Check if error message contains fetch failed or network-related keywords
-        const errorMessage = error.message.toLowerCase();
-        if (
-          errorMessage.includes("fetch failed") ||
-          errorMessage.includes("network") ||
-          errorMessage.includes("timeout") ||
-          errorMessage.includes("timed out")
-        ) {
-          throw new Error(
+        // fetch() rejects with a TypeError when no response arrives
+        if (error instanceof TypeError) {
+          throw new ProviderUnavailableError(
             `Polar API request failed: ${error.message}\n` +
               `This usually indicates a network connectivity issue. Please verify:\n` +
               `  - Your internet connection is working\n` +
               `  - The API endpoint is reachable: ${url}\n` +
               `  - No firewall or proxy is blocking the connection\n` +
-              `  - Your API key (POLAR_OAT or POLAR_ACCESS_TOKEN) is correctly configured`
+              `  - Your API key (POLAR_OAT or POLAR_ACCESS_TOKEN) is correctly configured`,
+            networkError
           );
         }
       }
@@ -215,6 +295,23 @@ export class PolarProvider implements PaymentProvider {
     return customer.id;
   }
 
+  /**
+   * Maps a failed API response to a PayLayer error
+   * Polar returns { error, detail } where error names the error type (e.g. "ResourceNotFound")
+   */
+  private createApiError(response: Response, error: unknown): PayLayerError {
+    const errorType = (error as { error?: unknown }).error;
+    return createProviderError(
+      `Polar API error: ${response.status} - ${JSON.stringify(error)}`,
+      {
+        provider: this.name,
+        status: response.status,
+        code: typeof errorType === "string" ? errorType : undefined,
+        raw: error,
+      }
+    );
+  }
+
   async charge(input: ChargeInput): Promise<ChargeResult> {
     // Polar requires a product ID to create checkouts.
     // Only productId is supported - amount and priceId are not supported.
@@ -228,35 +325,35 @@ export class PolarProvider implements PaymentProvider {
 
     // productId is required
     if (!input.productId) {
-      throw new Error(
+      throw new InvalidRequestError(
         "productId is required for Polar charges. " +
-          "Please create a one-time product in Polar dashboard and provide the productId in the charge() input."
+          "Please create a one-time product in Polar dashboard and provide the productId in the charge() input.",
+        { provider: this.name }
       );
     }
 
     // Reject amount and priceId - only productId is supported
     if (input.amount !== undefined) {
-      throw new Error(
+      throw new InvalidRequestError(
         "amount is not supported for Polar charges. " +
-          "Only productId is supported. The product must have a price configured in Polar dashboard."
+          "Only productId is supported. The product must have a price configured in Polar dashboard.",
+        { provider: this.name }
       );
     }
 
     if (input.priceId !== undefined) {
-      throw new Error(
+      throw new InvalidRequestError(
         "priceId is not supported for Polar charges. " +
-          "Only productId is supported. The product must have a price configured in Polar dashboard."
+          "Only productId is supported. The product must have a price configured in Polar dashboard.",
+        { provider: this.name }
       );
     }
 
     const productId = input.productId;
 
-    // Prioritize input URLs over environment variables
+    // Prioritize input URLs over the configured ones
     const successUrl =
-      input.successUrl ??
-      process.env.PAYLAYER_SUCCESS_URL ??
-      process.env.POLAR_SUCCESS_URL ??
-      "https://app.example.com/success";
+      input.successUrl ?? this.successUrl ?? "https://app.example.com/success";
 
     // Get the product to find a matching price
     const product = await this.request<PolarProduct>(
@@ -270,10 +367,11 @@ export class PolarProvider implements PaymentProvider {
       product.recurring_interval !== undefined;
 
     if (isSubscriptionProduct) {
-      throw new Error(
+      throw new InvalidRequestError(
         `Product ${productId} is a subscription product (recurring_interval: ${product.recurring_interval}). ` +
           `Only one-time products (recurring_interval: null) can be used for charges. ` +
-          `Please use a one-time product or use pay.subscribe() for subscriptions.`
+          `Please use a one-time product or use pay.subscribe() for subscriptions.`,
+        { provider: this.name }
       );
     }
 
@@ -286,9 +384,10 @@ export class PolarProvider implements PaymentProvider {
     );
 
     if (!oneTimePrice) {
-      throw new Error(
+      throw new NotFoundError(
         `No one-time price found for product ${productId} with currency ${input.currency}. ` +
-          `Please ensure the product has a one-time price configured for this currency in Polar dashboard.`
+          `Please ensure the product has a one-time price configured for this currency in Polar dashboard.`,
+        { provider: this.name }
       );
     }
 
@@ -368,7 +467,10 @@ export class PolarProvider implements PaymentProvider {
     }
 
     // Get amount from the price (convert from smallest currency unit to regular amount)
-    const amount = oneTimePrice.price_amount / 100;
+    const amount = fromMinorUnits(
+      oneTimePrice.price_amount,
+      oneTimePrice.price_currency
+    );
 
     return {
       id: response.id,
@@ -392,7 +494,10 @@ export class PolarProvider implements PaymentProvider {
 
     // Polar validates email domains strictly
     if (!input.email) {
-      throw new Error("Email is required for Polar subscriptions");
+      throw new InvalidRequestError(
+        "Email is required for Polar subscriptions",
+        { provider: this.name }
+      );
     }
 
     // Skip email validation errors for test domains
@@ -400,8 +505,9 @@ export class PolarProvider implements PaymentProvider {
       input.email.includes("@example.com") ||
       input.email.includes("@test.")
     ) {
-      throw new Error(
-        "Polar API validates email domains. Please use a real email address (not @example.com or @test.*)"
+      throw new InvalidRequestError(
+        "Polar API validates email domains. Please use a real email address (not @example.com or @test.*)",
+        { provider: this.name }
       );
     }
 
@@ -417,24 +523,19 @@ export class PolarProvider implements PaymentProvider {
       product.recurring_interval !== undefined;
 
     if (!isSubscriptionProduct) {
-      throw new Error(
+      throw new InvalidRequestError(
         `Product ${input.plan} is not a subscription product (recurring_interval: ${product.recurring_interval}). ` +
-          `For subscriptions, you must use a product with recurring_interval set (day/week/month/year).`
+          `For subscriptions, you must use a product with recurring_interval set (day/week/month/year).`,
+        { provider: this.name }
       );
     }
 
-    // Prioritize input URLs over environment variables
+    // Prioritize input URLs over the configured ones
     const successUrl =
-      input.successUrl ??
-      process.env.PAYLAYER_SUCCESS_URL ??
-      process.env.POLAR_SUCCESS_URL ??
-      "https://app.example.com/success";
+      input.successUrl ?? this.successUrl ?? "https://app.example.com/success";
 
     const cancelUrl =
-      input.cancelUrl ??
-      process.env.PAYLAYER_CANCEL_URL ??
-      process.env.POLAR_CANCEL_URL ??
-      "https://app.example.com/cancel";
+      input.cancelUrl ?? this.cancelUrl ?? "https://app.example.com/cancel";
 
     // Create checkout session for subscription
     // Polar will create the subscription automatically when customer completes checkout
@@ -489,8 +590,9 @@ export class PolarProvider implements PaymentProvider {
       );
     } catch (error) {
       // If subscription doesn't exist, throw a more helpful error
-      if (error instanceof Error && error.message.includes("404")) {
-        throw new Error(
+      if (error instanceof NotFoundError) {
+        throw withErrorMessage(
+          error,
           `Subscription ${subscriptionId} not found. Please verify the subscription ID is correct.`
         );
       }
@@ -502,21 +604,23 @@ export class PolarProvider implements PaymentProvider {
     const path = `/subscriptions/${subscriptionId}`;
     const url = `${this.baseUrl}${path}`;
 
-    const response = await fetch(url, {
-      method: "DELETE",
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        Accept: "application/json",
+    const response = await this.http.fetch(
+      url,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          Accept: "application/json",
+        },
       },
-    });
+      { retry: true }
+    );
 
     if (!response.ok) {
       const error = await response
         .json()
         .catch(() => ({ detail: "Not Found" }));
-      throw new Error(
-        `Polar API error: ${response.status} - ${JSON.stringify(error)}`
-      );
+      throw this.createApiError(response, error);
     }
 
     // DELETE may return empty body or subscription object
@@ -559,23 +663,19 @@ export class PolarProvider implements PaymentProvider {
       );
     } catch (error) {
       // If subscription doesn't exist, throw a more helpful error
-      if (error instanceof Error) {
-        if (error.message.includes("404")) {
-          throw new Error(
-            `Subscription ${subscriptionId} not found. Please verify the subscription ID is correct. ` +
-              `If the subscription was permanently cancelled (deleted), it cannot be resumed.`
-          );
-        }
-        // Re-throw network errors with context
-        if (
-          error.message.includes("fetch failed") ||
-          error.message.includes("network") ||
-          error.message.includes("connection")
-        ) {
-          throw new Error(
-            `Failed to fetch subscription ${subscriptionId}: ${error.message}`
-          );
-        }
+      if (error instanceof NotFoundError) {
+        throw withErrorMessage(
+          error,
+          `Subscription ${subscriptionId} not found. Please verify the subscription ID is correct. ` +
+            `If the subscription was permanently cancelled (deleted), it cannot be resumed.`
+        );
+      }
+      // Re-throw network errors with context
+      if (error instanceof ProviderUnavailableError) {
+        throw withErrorMessage(
+          error,
+          `Failed to fetch subscription ${subscriptionId}: ${error.message}`
+        );
       }
       throw error;
     }
@@ -586,9 +686,10 @@ export class PolarProvider implements PaymentProvider {
       subscription.status === "canceled" ||
       subscription.status === "cancelled"
     ) {
-      throw new Error(
+      throw new InvalidRequestError(
         `Cannot resume subscription ${subscriptionId}: subscription is permanently cancelled. ` +
-          `Permanently cancelled subscriptions cannot be resumed. You may need to create a new subscription.`
+          `Permanently cancelled subscriptions cannot be resumed. You may need to create a new subscription.`,
+        { provider: this.name }
       );
     }
 
@@ -628,8 +729,9 @@ export class PolarProvider implements PaymentProvider {
       };
     } catch (error) {
       // Handle 410 error specifically
-      if (error instanceof Error && error.message.includes("410")) {
-        throw new Error(
+      if (error instanceof PayLayerError && error.status === 410) {
+        throw withErrorMessage(
+          error,
           `Cannot resume subscription ${subscriptionId}: subscription is no longer available for resuming. ` +
             `This typically means the subscription was permanently cancelled or is in a state that cannot be resumed.`
         );
@@ -638,6 +740,139 @@ export class PolarProvider implements PaymentProvider {
     }
   }
 
+  async changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    // Polar always prorates: "invoice" charges the difference now, "prorate" adds it to the next invoice
+    if (input.proration === "none") {
+      throw new InvalidRequestError(
+        'Polar does not support plan changes without proration. Use proration "immediate" or "next_period".',
+        { provider: this.name }
+      );
+    }
+    const prorationBehavior =
+      input.proration === "immediate" ? "invoice" : "prorate";
+
+    let subscription = await this.request<PolarSubscription>(
+      "PATCH",
+      `/subscriptions/${input.subscriptionId}`,
+      {
+        product_id: input.plan,
+        proration_behavior: prorationBehavior,
+      }
+    );
+
+    // Seats are updated separately from the product
+    if (input.quantity !== undefined) {
+      subscription = await this.request<PolarSubscription>(
+        "PATCH",
+        `/subscriptions/${input.subscriptionId}`,
+        {
+          seats: input.quantity,
+          proration_behavior: prorationBehavior,
+        }
+      );
+    }
+
+    // Polar does not report the prorated amount
+    return this.mapSubscription(subscription);
+  }
+
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    const subscription = await this.request<PolarSubscription>(
+      "GET",
+      `/subscriptions/${subscriptionId}`
+    );
+
+    return this.mapSubscription(subscription);
+  }
+
+  async listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    let customerId = input.customerId;
+    if (!customerId && input.email) {
+      const customers = await this.request<PolarCustomerList>(
+        "GET",
+        "/customers",
+        undefined,
+        { email: input.email }
+      );
+      if (!customers.items || customers.items.length === 0) {
+        return { data: [], hasMore: false };
+      }
+      customerId = customers.items[0].id;
+    }
+
+    // Polar uses page-number pagination, so the cursor is the page number
+    const page = input.cursor ? parseInt(input.cursor, 10) : 1;
+    const params: Record<string, string> = {
+      customer_id: customerId!,
+      page: String(page),
+      limit: String(input.limit ?? 10),
+    };
+    // Polar can only filter on active/inactive; other statuses are filtered below
+    if (input.status === "active") {
+      params.active = "true";
+    } else if (input.status === "cancelled") {
+      params.active = "false";
+    }
+
+    const response = await this.request<PolarSubscriptionList>(
+      "GET",
+      "/subscriptions",
+      undefined,
+      params
+    );
+
+    const subscriptions = response.items.map((subscription) =>
+      this.mapSubscription(subscription)
+    );
+    const hasMore = page < response.pagination.max_page;
+    return {
+      data: input.status
+        ? subscriptions.filter(
+            (subscription) => subscription.status === input.status
+          )
+        : subscriptions,
+      hasMore,
+      nextCursor: hasMore ? String(page + 1) : undefined,
+    };
+  }
+
+  /**
+   * Maps a Polar subscription to a SubscriptionResult
+   * Trialing subscriptions are reported as active
+   */
+  private mapSubscription(subscription: PolarSubscription): SubscriptionResult {
+    let status: SubscriptionStatus = "active";
+    if (
+      subscription.status === "canceled" ||
+      subscription.status === "incomplete_expired"
+    ) {
+      status = "cancelled";
+    } else if (
+      subscription.status === "past_due" ||
+      subscription.status === "unpaid" ||
+      subscription.status === "incomplete"
+    ) {
+      status = "past_due";
+    }
+
+    return {
+      id: subscription.id,
+      status,
+      plan: subscription.product_id || "unknown",
+      currency: (subscription.currency?.toUpperCase() || "USD") as CurrencyCode,
+      provider: this.name,
+      email: subscription.customer?.email,
+      customerId: subscription.customer_id,
+      quantity: subscription.seats ?? undefined,
+      currentPeriodStart: subscription.current_period_start,
+      currentPeriodEnd: subscription.current_period_end || undefined,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
+      trialEnd: subscription.trial_end || undefined,
+    };
+  }
+
   async portal(email: string): Promise<string> {
     // Polar requires creating a customer session to get portal URL
     // First, find the customer by email
@@ -656,54 +891,88 @@ export class PolarProvider implements PaymentProvider {
     return session.customer_portal_url;
   }
 
-  verifyWebhook(
-    payload: string | Buffer,
-    signature: string,
-    secret: string
-  ): boolean {
-    const webhookSecret = secret || process.env.POLAR_WEBHOOK_SECRET || "";
-    if (!webhookSecret || !signature) {
-      return false;
-    }
+  /**
+   * Refunds an order in full or in part
+   * Polar always requires an explicit amount, so full refunds refund the remaining order balance
+   *
+   * @param input - Refund input with order ID, optional amount, reason and metadata
+   * @returns Refund result with refund ID, status and refunded amount
+   */
+  async refund(input: RefundInput): Promise<RefundResult> {
+    // The order's currency is needed to convert the amount to minor units
+    const order = await this.request<PolarOrder>(
+      "GET",
+      `/orders/${input.paymentId}`
+    );
 
-    // Polar.sh follows Standard Webhooks specification
-    // The webhook secret may need to be base64 decoded
-    // However, we'll try both raw and base64 decoded versions
-    try {
-      const payloadString =
-        typeof payload === "string" ? payload : payload.toString("utf-8");
-
-      // Try with raw secret first
-      let secretKey: string | Buffer = webhookSecret;
-      try {
-        // Try base64 decoding (Standard Webhooks format)
-        secretKey = Buffer.from(webhookSecret, "base64");
-      } catch {
-        // If base64 decode fails, use raw secret
-        secretKey = webhookSecret;
+    let refundAmount: number;
+    if (input.amount !== undefined) {
+      refundAmount = toMinorUnits(input.amount, order.currency);
+    } else {
+      refundAmount = order.amount - (order.refunded_amount || 0);
+      if (refundAmount <= 0) {
+        throw new InvalidRequestError(
+          `Order ${input.paymentId} has already been fully refunded.`,
+          { provider: this.name }
+        );
       }
+    }
 
-      // Compute HMAC SHA256
-      const hmac = createHmac("sha256", secretKey);
-      hmac.update(payloadString);
-      const computedHash = hmac.digest("hex");
+    // Map normalized reasons to Polar's refund reasons
+    const polarReasons: Record<string, string> = {
+      duplicate: "duplicate",
+      fraudulent: "fraudulent",
+      requested_by_customer: "customer_request",
+      other: "other",
+    };
 
-      // Compare hashes using constant-time comparison
-      return this.constantTimeEquals(signature, computedHash);
-    } catch {
-      return false;
+    const metadata: Record<string, unknown> = {
+      paylayer_provider: this.name,
+    };
+    if (input.metadata) {
+      Object.assign(metadata, input.metadata);
     }
+
+    const refund = await this.request<PolarRefund>("POST", "/refunds", {
+      order_id: input.paymentId,
+      reason: polarReasons[input.reason || "requested_by_customer"],
+      amount: refundAmount,
+      metadata,
+    });
+
+    return {
+      id: refund.id,
+      paymentId: refund.order_id || input.paymentId,
+      status:
+        refund.status === "succeeded"
+          ? "succeeded"
+          : refund.status === "failed"
+            ? "failed"
+            : refund.status === "canceled"
+              ? "cancelled"
+              : "pending",
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      currency: refund.currency.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      reason: input.reason,
+    };
   }
 
-  private constantTimeEquals(a: string, b: string): boolean {
-    if (a.length !== b.length) {
-      return false;
-    }
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-    }
-    return result === 0;
+  verifyWebhook(
+    payload: string | Uint8Array,
+    signature: string,
+    secret: string,
+    headers?: Record<string, string>,
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookVerificationResult> {
+    // Polar follows the Standard Webhooks specification: the signature covers
+    // the webhook-id and webhook-timestamp headers as well as the body
+    return verifyStandardWebhook(
+      payload,
+      { ...headers, "webhook-signature": signature },
+      secret,
+      { toleranceSeconds: this.toleranceSeconds, now: options.now }
+    );
   }
 
   normalizeWebhookEvent(rawEvent: unknown): unknown {
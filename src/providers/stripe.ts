@@ -2,8 +2,7 @@
  * Stripe provider implementation using REST API
  */
 
-import { createHmac } from "node:crypto";
-import type { PaymentProvider } from "./types.js";
+import type { PaymentProvider, WebhookVerifyOptions } from "./types.js";
 import type {
   ChargeInput,
   ChargeResult,
@@ -11,8 +10,42 @@ import type {
   SubscriptionResult,
   CheckoutInput,
   CheckoutResult,
+  CurrencyCode,
+  RefundInput,
+  RefundResult,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  SubscriptionStatus,
+  ChangePlanInput,
+  SubscriptionActionOptions,
+  WebhookVerificationResult,
 } from "../types.js";
-import { isSandbox } from "./env.js";
+import { toMinorUnits, fromMinorUnits } from "../money.js";
+import {
+  ConfigurationError,
+  createProviderError,
+  InvalidRequestError,
+  NotFoundError,
+} from "../errors.js";
+import {
+  createHttpClient,
+  isRetryableRequest,
+  type HttpClient,
+  type HttpConfig,
+} from "./http.js";
+import {
+  checkWebhookTimestamp,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  VERIFIED,
+  verificationFailed,
+} from "./webhook-verification.js";
+import {
+  hmacSha256,
+  timingSafeEqual,
+  toBytes,
+  toHex,
+  toText,
+} from "../crypto.js";
 
 // Stripe API response types
 
@@ -83,18 +116,66 @@ interface StripeSubscription {
     | "unpaid"
     | "paused";
   currency: string;
+  customer: string | StripeCustomer;
   cancel_at_period_end: boolean;
   pause_collection?: { behavior: string } | null;
+  // Moved to subscription items in newer API versions
+  current_period_start?: number;
+  current_period_end?: number;
+  trial_end?: number | null;
+  latest_invoice?: string | StripeInvoice | null;
   items: {
     data: Array<{
+      id: string;
       price: {
         id: string;
         lookup_key?: string;
       };
+      quantity?: number;
+      current_period_start?: number;
+      current_period_end?: number;
     }>;
   };
 }
 
+/**
+ * Stripe Invoice object (only the fields needed to read proration amounts)
+ * Proration lines are flagged with `proration` (older API versions) or under `parent`
+ */
+interface StripeInvoice {
+  id: string;
+  total: number;
+  currency: string;
+  lines?: {
+    data: Array<{
+      amount: number;
+      proration?: boolean;
+      parent?: {
+        subscription_item_details?: { proration?: boolean } | null;
+      } | null;
+    }>;
+  };
+}
+
+interface StripeSubscriptionList {
+  data: StripeSubscription[];
+  has_more: boolean;
+}
+
+/**
+ * Stripe Refund object
+ * Refunds are created against a PaymentIntent or a Charge
+ */
+interface StripeRefund {
+  id: string;
+  amount: number;
+  currency: string;
+  status: "pending" | "requires_action" | "succeeded" | "failed" | "canceled";
+  payment_intent?: string | null;
+  charge?: string | null;
+  reason?: string | null;
+}
+
 interface StripeBillingPortalSession {
   url: string;
 }
@@ -124,31 +205,67 @@ interface StripeError {
   };
 }
 
+/**
+ * Credentials and settings for a Stripe provider instance
+ */
+export interface StripeConfig extends HttpConfig {
+  /** Secret API key (sk_test_... or sk_live_...) */
+  secretKey: string;
+  /** Webhook signing secret (whsec_...); list several while rotating, newest first */
+  webhookSecret?: string | string[];
+  /** Accepted age of a webhook's signed timestamp, in seconds (defaults to 5 minutes) */
+  toleranceSeconds?: number;
+  /** Whether the instance is expected to run in test mode, used to warn about mismatched keys */
+  sandbox?: boolean;
+  /** Checkout success URL used when a call doesn't pass one */
+  successUrl?: string;
+  /** Checkout cancel URL used when a call doesn't pass one */
+  cancelUrl?: string;
+  /** Where the billing portal sends customers back to */
+  portalReturnUrl?: string;
+}
+
 export class StripeProvider implements PaymentProvider {
   readonly name = "stripe";
+  readonly supportsIdempotencyKeys = true;
   private apiKey: string;
   private readonly baseUrl = "https://api.stripe.com";
-
-  constructor() {
-    const apiKey = process.env.STRIPE_SECRET_KEY;
+  private http: HttpClient;
+  private toleranceSeconds: number;
+  private successUrl: string | undefined;
+  private cancelUrl: string | undefined;
+  private portalReturnUrl: string | undefined;
+
+  constructor(config: StripeConfig) {
+    const apiKey = config.secretKey;
     if (!apiKey) {
-      throw new Error(
-        "STRIPE_SECRET_KEY environment variable is required for Stripe provider"
+      throw new ConfigurationError(
+        "A secret key is required for Stripe provider",
+        { provider: "stripe" }
       );
     }
     this.apiKey = apiKey;
+    this.http = createHttpClient(this.name, "Stripe", config);
+    this.toleranceSeconds =
+      config.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    this.successUrl = config.successUrl;
+    this.cancelUrl = config.cancelUrl;
+    this.portalReturnUrl = config.portalReturnUrl;
+
+    if (config.sandbox === undefined) {
+      return;
+    }
 
-    const sandboxMode = isSandbox(this.name);
     const isTestKey = apiKey.startsWith("sk_test_");
     const isLiveKey = apiKey.startsWith("sk_live_");
 
-    if (sandboxMode && isLiveKey) {
+    if (config.sandbox && isLiveKey) {
       console.warn(
-        "Warning: PAYLAYER_ENVIRONMENT is set to sandbox/test mode, but STRIPE_SECRET_KEY appears to be a live key (starts with 'sk_live_'). This may cause issues."
+        "Warning: Stripe is configured for sandbox/test mode, but the secret key appears to be a live key (starts with 'sk_live_'). This may cause issues."
       );
-    } else if (!sandboxMode && isTestKey) {
+    } else if (!config.sandbox && isTestKey) {
       console.warn(
-        "Warning: PAYLAYER_ENVIRONMENT is set to production mode, but STRIPE_SECRET_KEY appears to be a test key (starts with 'sk_test_'). This may cause issues."
+        "Warning: Stripe is configured for production mode, but the secret key appears to be a test key (starts with 'sk_test_'). This may cause issues."
       );
     }
   }
@@ -192,16 +309,25 @@ export class StripeProvider implements PaymentProvider {
     }
   }
 
+  /**
+   * Sends a request to the Stripe API
+   * Pass an idempotency key on POST requests so Stripe can safely deduplicate retries
+   */
   private async request<T>(
     method: string,
     endpoint: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    idempotencyKey?: string
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const headers: Record<string, string> = {
       Authorization: `Bearer ${this.apiKey}`,
       "Stripe-Version": "2025-11-17.clover",
     };
+    if (idempotencyKey && method !== "GET") {
+      headers["Idempotency-Key"] = idempotencyKey;
+    }
+    const retry = isRetryableRequest(method, idempotencyKey);
 
     let body: string | undefined;
     if (params && Object.keys(params).length > 0) {
@@ -218,10 +344,11 @@ export class StripeProvider implements PaymentProvider {
         }
         const queryString = queryParams.toString();
         const fullUrl = queryString ? `${url}?${queryString}` : url;
-        const response = await fetch(fullUrl, {
-          method,
-          headers,
-        });
+        const response = await this.http.fetch(
+          fullUrl,
+          { method, headers },
+          { retry }
+        );
 
         if (!response.ok) {
           await this.handleError(response);
@@ -284,11 +411,11 @@ export class StripeProvider implements PaymentProvider {
       }
     }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body,
-    });
+    const response = await this.http.fetch(
+      url,
+      { method, headers, body },
+      { retry }
+    );
 
     if (!response.ok) {
       await this.handleError(response);
@@ -303,8 +430,18 @@ export class StripeProvider implements PaymentProvider {
     }))) as StripeError;
 
     const errorInfo = error.error;
+    const errorOptions = {
+      provider: this.name,
+      status: response.status,
+      code: errorInfo?.decline_code || errorInfo?.code,
+      requestId: response.headers.get("request-id") || undefined,
+      raw: error,
+    };
     if (!errorInfo) {
-      throw new Error(`Stripe API error: ${response.status} - Unknown error`);
+      throw createProviderError(
+        `Stripe API error: ${response.status} - Unknown error`,
+        errorOptions
+      );
     }
 
     // Build detailed error message with all available information
@@ -330,7 +467,11 @@ export class StripeProvider implements PaymentProvider {
       errorMessage += ` (decline_code: ${errorInfo.decline_code})`;
     }
 
-    throw new Error(errorMessage);
+    throw createProviderError(
+      errorMessage,
+      errorOptions,
+      errorInfo.type === "card_error"
+    );
   }
 
   /**
@@ -343,14 +484,10 @@ export class StripeProvider implements PaymentProvider {
   async charge(input: ChargeInput): Promise<ChargeResult> {
     const successUrl =
       input.successUrl ??
-      process.env.PAYLAYER_SUCCESS_URL ??
-      process.env.STRIPE_CHECKOUT_SUCCESS_URL ??
+      this.successUrl ??
       "https://app.example.com/success?session_id={CHECKOUT_SESSION_ID}";
     const cancelUrl =
-      input.cancelUrl ??
-      process.env.PAYLAYER_CANCEL_URL ??
-      process.env.STRIPE_CHECKOUT_CANCEL_URL ??
-      "https://app.example.com/cancel";
+      input.cancelUrl ?? this.cancelUrl ?? "https://app.example.com/cancel";
 
     let lineItems: Array<{
       price?: string;
@@ -370,8 +507,9 @@ export class StripeProvider implements PaymentProvider {
       });
 
       if (prices.data.length === 0) {
-        throw new Error(
-          `No one-time price found for product "${input.productId}". Please ensure the product has a one-time price configured.`
+        throw new NotFoundError(
+          `No one-time price found for product "${input.productId}". Please ensure the product has a one-time price configured.`,
+          { provider: this.name }
         );
       }
 
@@ -382,28 +520,17 @@ export class StripeProvider implements PaymentProvider {
         },
       ];
     } else if (input.priceId) {
-      try {
-        const price = await this.request<StripePrice>(
-          "GET",
-          `/v1/prices/${input.priceId}`
+      const price = await this.findPrice(input.priceId);
+      if (price?.type === "recurring") {
+        throw new InvalidRequestError(
+          `The price "${input.priceId}" is configured as a recurring subscription, but you're using it with charge().\n` +
+            `To create a one-time payment, please:\n` +
+            `1. Go to your Stripe Dashboard → Products\n` +
+            `2. Create a new price for this product with type "One-time"\n` +
+            `3. Use the new one-time price ID in charge()\n\n` +
+            `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`,
+          { provider: this.name }
         );
-        if (price.type === "recurring") {
-          throw new Error(
-            `The price "${input.priceId}" is configured as a recurring subscription, but you're using it with charge().\n` +
-              `To create a one-time payment, please:\n` +
-              `1. Go to your Stripe Dashboard → Products\n` +
-              `2. Create a new price for this product with type "One-time"\n` +
-              `3. Use the new one-time price ID in charge()\n\n` +
-              `Alternatively, if you want a recurring subscription, use pay.subscribe() instead of pay.charge().`
-          );
-        }
-      } catch (error) {
-        if (
-          error instanceof Error &&
-          error.message.includes("configured as a recurring subscription")
-        ) {
-          throw error;
-        }
       }
 
       lineItems = [
@@ -413,7 +540,7 @@ export class StripeProvider implements PaymentProvider {
         },
       ];
     } else if (input.amount) {
-      const amountInCents = Math.round(input.amount * 100);
+      const unitAmount = toMinorUnits(input.amount, input.currency);
       lineItems = [
         {
           price_data: {
@@ -421,13 +548,16 @@ export class StripeProvider implements PaymentProvider {
             product_data: {
               name: "Payment",
             },
-            unit_amount: amountInCents,
+            unit_amount: unitAmount,
           },
           quantity: 1,
         },
       ];
     } else {
-      throw new Error("Either productId, priceId, or amount must be provided");
+      throw new InvalidRequestError(
+        "Either productId, priceId, or amount must be provided",
+        { provider: this.name }
+      );
     }
 
     const metadata: Record<string, string> = {
@@ -450,7 +580,8 @@ export class StripeProvider implements PaymentProvider {
         success_url: successUrl,
         cancel_url: cancelUrl,
         metadata,
-      }
+      },
+      input.idempotencyKey
     );
 
     const amount = input.amount || 0;
@@ -466,6 +597,19 @@ export class StripeProvider implements PaymentProvider {
     };
   }
 
+  /**
+   * Looks up a price to validate it before use
+   * Lookup failures (network, invalid price ID, etc.) are left for the
+   * Checkout Session request to report, so this returns undefined for them
+   */
+  private async findPrice(priceId: string): Promise<StripePrice | undefined> {
+    try {
+      return await this.request<StripePrice>("GET", `/v1/prices/${priceId}`);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Creates a subscription using Stripe Checkout Session
    * Returns a payment URL that can be opened in a browser to complete subscription
@@ -473,23 +617,10 @@ export class StripeProvider implements PaymentProvider {
    * @param input - Subscription input with plan, currency, email, and optional URLs
    * @returns Subscription result with Checkout Session ID, URL, and status
    */
-  async subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
-    if (!input.email) {
-      throw new Error("Email is required for Stripe subscriptions");
-    }
-
-    // Prioritize input URLs over environment variables
-    const successUrl =
-      input.successUrl ??
-      process.env.PAYLAYER_SUCCESS_URL ??
-      process.env.STRIPE_CHECKOUT_SUCCESS_URL ??
-      "https://app.example.com/success?session_id={CHECKOUT_SESSION_ID}";
-    const cancelUrl =
-      input.cancelUrl ??
-      process.env.PAYLAYER_CANCEL_URL ??
-      process.env.STRIPE_CHECKOUT_CANCEL_URL ??
-      "https://app.example.com/cancel";
-
+  /**
+   * Resolves a plan identifier to a Stripe price ID
+   */
+  private async resolvePriceId(plan: string): Promise<string> {
     // Find price by plan identifier
     // Supports three formats:
     // 1. Price ID (price_xxx) - use directly
@@ -497,20 +628,21 @@ export class StripeProvider implements PaymentProvider {
     // 3. Lookup key (string) - find price by lookup_key
     let priceId: string;
 
-    if (input.plan.startsWith("price_")) {
+    if (plan.startsWith("price_")) {
       // Direct price ID
-      priceId = input.plan;
-    } else if (input.plan.startsWith("prod_")) {
+      priceId = plan;
+    } else if (plan.startsWith("prod_")) {
       // Product ID - find prices for this product
       const prices = await this.request<StripePriceList>("GET", "/v1/prices", {
-        product: input.plan,
+        product: plan,
         type: "recurring",
         limit: 1,
       });
 
       if (prices.data.length === 0) {
-        throw new Error(
-          `No recurring price found for product "${input.plan}". Please ensure the product has a recurring price configured.`
+        throw new NotFoundError(
+          `No recurring price found for product "${plan}". Please ensure the product has a recurring price configured.`,
+          { provider: this.name }
         );
       }
 
@@ -518,46 +650,54 @@ export class StripeProvider implements PaymentProvider {
     } else {
       // Lookup key - find price by lookup_key
       const prices = await this.request<StripePriceList>("GET", "/v1/prices", {
-        lookup_keys: [input.plan],
+        lookup_keys: [plan],
         limit: 1,
       });
 
       if (prices.data.length === 0) {
-        throw new Error(
-          `No price found with lookup_key "${input.plan}". Please create a price in Stripe dashboard with this lookup_key first, or use a price ID (price_xxx) or product ID (prod_xxx).`
+        throw new NotFoundError(
+          `No price found with lookup_key "${plan}". Please create a price in Stripe dashboard with this lookup_key first, or use a price ID (price_xxx) or product ID (prod_xxx).`,
+          { provider: this.name }
         );
       }
 
       priceId = prices.data[0].id;
     }
 
+    return priceId;
+  }
+
+  async subscribe(input: SubscribeInput): Promise<SubscriptionResult> {
+    if (!input.email) {
+      throw new InvalidRequestError(
+        "Email is required for Stripe subscriptions",
+        { provider: this.name }
+      );
+    }
+
+    // Prioritize input URLs over the configured ones
+    const successUrl =
+      input.successUrl ??
+      this.successUrl ??
+      "https://app.example.com/success?session_id={CHECKOUT_SESSION_ID}";
+    const cancelUrl =
+      input.cancelUrl ?? this.cancelUrl ?? "https://app.example.com/cancel";
+
+    const priceId = await this.resolvePriceId(input.plan);
+
     // Validate that the price is recurring (not one-time)
-    try {
-      const price = await this.request<StripePrice>(
-        "GET",
-        `/v1/prices/${priceId}`
+    const price = await this.findPrice(priceId);
+    if (price?.type === "one_time") {
+      throw new InvalidRequestError(
+        `The price "${priceId}" is configured as a one-time payment, but you're using it with subscribe().\n` +
+          `To create a subscription, please:\n` +
+          `1. Go to your Stripe Dashboard → Products\n` +
+          `2. Create a new price for this product with type "Recurring"\n` +
+          `3. Set the billing interval (monthly, yearly, etc.)\n` +
+          `4. Use the new recurring price ID in subscribe()\n\n` +
+          `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`,
+        { provider: this.name }
       );
-      if (price.type === "one_time") {
-        throw new Error(
-          `The price "${priceId}" is configured as a one-time payment, but you're using it with subscribe().\n` +
-            `To create a subscription, please:\n` +
-            `1. Go to your Stripe Dashboard → Products\n` +
-            `2. Create a new price for this product with type "Recurring"\n` +
-            `3. Set the billing interval (monthly, yearly, etc.)\n` +
-            `4. Use the new recurring price ID in subscribe()\n\n` +
-            `Alternatively, if you want a one-time payment, use pay.charge() instead of pay.subscribe().`
-        );
-      }
-    } catch (error) {
-      // If it's our validation error, re-throw it
-      if (
-        error instanceof Error &&
-        error.message.includes("configured as a one-time payment")
-      ) {
-        throw error;
-      }
-      // For other errors (network, invalid price ID, etc.), let them propagate
-      // The API will handle them appropriately
     }
 
     // Create Checkout Session for subscription
@@ -599,7 +739,8 @@ export class StripeProvider implements PaymentProvider {
         subscription_data: {
           metadata: subscriptionMetadata,
         },
-      }
+      },
+      input.idempotencyKey
     );
 
     return {
@@ -618,15 +759,20 @@ export class StripeProvider implements PaymentProvider {
    * The subscription remains active until the period ends
    *
    * @param subscriptionId - Stripe subscription ID
+   * @param options - Optional idempotency key, sent as the Idempotency-Key header
    * @returns Subscription result with updated status
    */
-  async cancel(subscriptionId: string): Promise<SubscriptionResult> {
+  async cancel(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
     const subscription = await this.request<StripeSubscription>(
       "POST",
       `/v1/subscriptions/${subscriptionId}`,
       {
         cancel_at_period_end: true,
-      }
+      },
+      options.idempotencyKey
     );
 
     return {
@@ -646,9 +792,13 @@ export class StripeProvider implements PaymentProvider {
    * Invoices generated during the pause will be marked as uncollectible
    *
    * @param subscriptionId - Stripe subscription ID
+   * @param options - Optional idempotency key, sent as the Idempotency-Key header
    * @returns Subscription result with paused status
    */
-  async pause(subscriptionId: string): Promise<SubscriptionResult> {
+  async pause(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
     // Stripe pause collection with mark_uncollectible behavior
     const subscription = await this.request<StripeSubscription>(
       "POST",
@@ -657,7 +807,8 @@ export class StripeProvider implements PaymentProvider {
         pause_collection: {
           behavior: "mark_uncollectible",
         },
-      }
+      },
+      options.idempotencyKey
     );
 
     return {
@@ -677,9 +828,13 @@ export class StripeProvider implements PaymentProvider {
    * Clears the pause_collection setting to resume normal billing
    *
    * @param subscriptionId - Stripe subscription ID
+   * @param options - Optional idempotency key, sent as the Idempotency-Key header
    * @returns Subscription result with active status
    */
-  async resume(subscriptionId: string): Promise<SubscriptionResult> {
+  async resume(
+    subscriptionId: string,
+    options: SubscriptionActionOptions = {}
+  ): Promise<SubscriptionResult> {
     // To remove pause_collection, send empty string
     // This will be form-encoded as pause_collection= which Stripe accepts to clear the field
     const subscription = await this.request<StripeSubscription>(
@@ -687,7 +842,8 @@ export class StripeProvider implements PaymentProvider {
       `/v1/subscriptions/${subscriptionId}`,
       {
         pause_collection: "",
-      }
+      },
+      options.idempotencyKey
     );
 
     return {
@@ -702,6 +858,220 @@ export class StripeProvider implements PaymentProvider {
     };
   }
 
+  /**
+   * Swaps the price on a subscription's first item
+   *
+   * Proration behavior maps to Stripe as follows:
+   * - immediate: always_invoice (the prorated difference is invoiced right away)
+   * - next_period: create_prorations (the difference is added to the next invoice)
+   * - none: none
+   *
+   * @param input - Subscription ID, new plan, proration behavior and optional quantity
+   * @returns Subscription result with the proration amount
+   */
+  async changePlan(input: ChangePlanInput): Promise<SubscriptionResult> {
+    const current = await this.request<StripeSubscription>(
+      "GET",
+      `/v1/subscriptions/${input.subscriptionId}`
+    );
+    const item = current.items.data[0];
+    if (!item) {
+      throw new InvalidRequestError(
+        `Subscription ${input.subscriptionId} has no items to change`,
+        { provider: this.name }
+      );
+    }
+
+    const priceId = await this.resolvePriceId(input.plan);
+    const prorationBehaviors: Record<ChangePlanInput["proration"], string> = {
+      immediate: "always_invoice",
+      next_period: "create_prorations",
+      none: "none",
+    };
+
+    const subscription = await this.request<StripeSubscription>(
+      "POST",
+      `/v1/subscriptions/${input.subscriptionId}`,
+      {
+        items: [
+          {
+            id: item.id,
+            price: priceId,
+            quantity: input.quantity,
+          },
+        ],
+        proration_behavior: prorationBehaviors[input.proration],
+        expand: ["customer", "latest_invoice"],
+      },
+      input.idempotencyKey
+    );
+
+    let prorationAmount = 0;
+    if (input.proration === "immediate") {
+      // always_invoice creates and finalizes an invoice for the prorations
+      const invoice = subscription.latest_invoice;
+      if (invoice && typeof invoice === "object") {
+        prorationAmount = fromMinorUnits(invoice.total, invoice.currency);
+      }
+    } else if (input.proration === "next_period") {
+      // Prorations are pending until the next invoice, so preview it
+      const preview = await this.request<StripeInvoice>(
+        "POST",
+        "/v1/invoices/create_preview",
+        {
+          subscription: input.subscriptionId,
+        }
+      );
+      const prorationTotal = (preview.lines?.data || [])
+        .filter(
+          (line) =>
+            line.proration || line.parent?.subscription_item_details?.proration
+        )
+        .reduce((total, line) => total + line.amount, 0);
+      prorationAmount = fromMinorUnits(prorationTotal, preview.currency);
+    }
+
+    return {
+      ...this.mapSubscription(subscription),
+      prorationAmount,
+    };
+  }
+
+  /**
+   * Retrieves a subscription with its customer expanded
+   *
+   * @param subscriptionId - Stripe subscription ID
+   * @returns Subscription result with billing period details
+   */
+  async getSubscription(subscriptionId: string): Promise<SubscriptionResult> {
+    const subscription = await this.request<StripeSubscription>(
+      "GET",
+      `/v1/subscriptions/${subscriptionId}`,
+      {
+        expand: ["customer"],
+      }
+    );
+
+    return this.mapSubscription(subscription);
+  }
+
+  /**
+   * Lists subscriptions for a customer
+   *
+   * Note: When filtering by email, the first customer found with that email is used.
+   * The cursor is the ID of the last subscription on the previous page.
+   *
+   * @param input - Customer email or ID, status filter and cursor
+   * @returns Page of subscriptions
+   */
+  async listSubscriptions(
+    input: ListSubscriptionsInput
+  ): Promise<SubscriptionList> {
+    let customerId = input.customerId;
+    if (!customerId && input.email) {
+      const customers = await this.request<StripeCustomerList>(
+        "GET",
+        "/v1/customers",
+        {
+          email: input.email,
+          limit: 1,
+        }
+      );
+      if (customers.data.length === 0) {
+        return { data: [], hasMore: false };
+      }
+      customerId = customers.data[0].id;
+    }
+
+    // Stripe excludes canceled subscriptions unless a status is given, so ask for all of them
+    const statusFilters: Record<SubscriptionStatus, string> = {
+      active: "active",
+      paused: "paused",
+      cancelled: "canceled",
+      past_due: "past_due",
+    };
+
+    const list = await this.request<StripeSubscriptionList>(
+      "GET",
+      "/v1/subscriptions",
+      {
+        customer: customerId,
+        status: input.status ? statusFilters[input.status] : "all",
+        limit: input.limit ?? 10,
+        starting_after: input.cursor,
+        expand: ["data.customer"],
+      }
+    );
+
+    const lastSubscription = list.data[list.data.length - 1];
+    return {
+      data: list.data.map((subscription) => this.mapSubscription(subscription)),
+      hasMore: list.has_more,
+      nextCursor:
+        list.has_more && lastSubscription ? lastSubscription.id : undefined,
+    };
+  }
+
+  /**
+   * Maps a Stripe subscription to a SubscriptionResult
+   * Trialing subscriptions are reported as active, unpaid and incomplete ones as past_due
+   */
+  private mapSubscription(
+    subscription: StripeSubscription
+  ): SubscriptionResult {
+    let status: SubscriptionStatus;
+    if (
+      subscription.status === "canceled" ||
+      subscription.status === "incomplete_expired"
+    ) {
+      status = "cancelled";
+    } else if (
+      subscription.status === "paused" ||
+      subscription.pause_collection
+    ) {
+      status = "paused";
+    } else if (
+      subscription.status === "past_due" ||
+      subscription.status === "unpaid" ||
+      subscription.status === "incomplete"
+    ) {
+      status = "past_due";
+    } else {
+      status = "active";
+    }
+
+    const item = subscription.items.data[0];
+    const periodStart =
+      item?.current_period_start ?? subscription.current_period_start;
+    const periodEnd =
+      item?.current_period_end ?? subscription.current_period_end;
+    const customer =
+      typeof subscription.customer === "string"
+        ? { id: subscription.customer }
+        : subscription.customer;
+
+    return {
+      id: subscription.id,
+      status,
+      plan: item?.price.lookup_key || item?.price.id || "unknown",
+      currency: subscription.currency.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      email: customer.email,
+      customerId: customer.id,
+      quantity: item?.quantity,
+      currentPeriodStart: periodStart
+        ? new Date(periodStart * 1000).toISOString()
+        : undefined,
+      currentPeriodEnd: periodEnd
+        ? new Date(periodEnd * 1000).toISOString()
+        : undefined,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      trialEnd: subscription.trial_end
+        ? new Date(subscription.trial_end * 1000).toISOString()
+        : undefined,
+    };
+  }
+
   /**
    * Creates a billing portal session for customer self-service
    *
@@ -723,7 +1093,9 @@ export class StripeProvider implements PaymentProvider {
     );
 
     if (customers.data.length === 0) {
-      throw new Error(`No customer found with email: ${email}`);
+      throw new NotFoundError(`No customer found with email: ${email}`, {
+        provider: this.name,
+      });
     }
 
     const customerId = customers.data[0].id;
@@ -734,8 +1106,7 @@ export class StripeProvider implements PaymentProvider {
       "/v1/billing_portal/sessions",
       {
         customer: customerId,
-        return_url:
-          process.env.STRIPE_PORTAL_RETURN_URL || "https://app.example.com",
+        return_url: this.portalReturnUrl || "https://app.example.com",
       }
     );
 
@@ -751,22 +1122,19 @@ export class StripeProvider implements PaymentProvider {
    */
   async checkout(input: CheckoutInput): Promise<CheckoutResult> {
     if (!input.plan && !input.amount) {
-      throw new Error(
-        "Either 'amount' (for one-time payment) or 'plan' (for subscription) is required"
+      throw new InvalidRequestError(
+        "Either 'amount' (for one-time payment) or 'plan' (for subscription) is required",
+        { provider: this.name }
       );
     }
 
-    // Prioritize input URLs over environment variables
+    // Prioritize input URLs over the configured ones
     const successUrl =
       input.successUrl ??
-      process.env.PAYLAYER_SUCCESS_URL ??
-      process.env.STRIPE_CHECKOUT_SUCCESS_URL ??
+      this.successUrl ??
       "https://example.com/success?session_id={CHECKOUT_SESSION_ID}";
     const cancelUrl =
-      input.cancelUrl ??
-      process.env.PAYLAYER_CANCEL_URL ??
-      process.env.STRIPE_CHECKOUT_CANCEL_URL ??
-      "https://example.com/cancel";
+      input.cancelUrl ?? this.cancelUrl ?? "https://example.com/cancel";
 
     if (input.plan) {
       // Subscription checkout
@@ -787,8 +1155,9 @@ export class StripeProvider implements PaymentProvider {
         );
 
         if (prices.data.length === 0) {
-          throw new Error(
-            `No recurring price found for product "${input.plan}". Please ensure the product has a recurring price configured.`
+          throw new NotFoundError(
+            `No recurring price found for product "${input.plan}". Please ensure the product has a recurring price configured.`,
+            { provider: this.name }
           );
         }
 
@@ -804,8 +1173,9 @@ export class StripeProvider implements PaymentProvider {
         );
 
         if (prices.data.length === 0) {
-          throw new Error(
-            `No price found with lookup_key "${input.plan}". Please create a price in Stripe dashboard with this lookup_key first, or use a price ID (price_xxx) or product ID (prod_xxx).`
+          throw new NotFoundError(
+            `No price found with lookup_key "${input.plan}". Please create a price in Stripe dashboard with this lookup_key first, or use a price ID (price_xxx) or product ID (prod_xxx).`,
+            { provider: this.name }
           );
         }
 
@@ -827,7 +1197,8 @@ export class StripeProvider implements PaymentProvider {
           customer_email: input.email,
           success_url: successUrl,
           cancel_url: cancelUrl,
-        }
+        },
+        input.idempotencyKey
       );
 
       return {
@@ -838,10 +1209,13 @@ export class StripeProvider implements PaymentProvider {
     } else {
       // One-time payment checkout
       if (!input.amount) {
-        throw new Error("Amount is required for one-time payment checkout");
+        throw new InvalidRequestError(
+          "Amount is required for one-time payment checkout",
+          { provider: this.name }
+        );
       }
 
-      const amountInCents = Math.round(input.amount * 100);
+      const unitAmount = toMinorUnits(input.amount, input.currency);
 
       const session = await this.request<StripeCheckoutSession>(
         "POST",
@@ -856,7 +1230,7 @@ export class StripeProvider implements PaymentProvider {
                 product_data: {
                   name: "Payment",
                 },
-                unit_amount: amountInCents,
+                unit_amount: unitAmount,
               },
               quantity: 1,
             },
@@ -864,7 +1238,8 @@ export class StripeProvider implements PaymentProvider {
           customer_email: input.email,
           success_url: successUrl,
           cancel_url: cancelUrl,
-        }
+        },
+        input.idempotencyKey
       );
 
       return {
@@ -875,73 +1250,159 @@ export class StripeProvider implements PaymentProvider {
     }
   }
 
+  /**
+   * Refunds a payment using the Stripe Refunds API
+   * Accepts a Checkout Session ID (cs_), PaymentIntent ID (pi_) or Charge ID (ch_/py_)
+   *
+   * @param input - Refund input with payment ID, optional amount, reason and metadata
+   * @returns Refund result with refund ID, status and refunded amount
+   */
+  async refund(input: RefundInput): Promise<RefundResult> {
+    // charge() and checkout() return Checkout Session IDs, which cannot be refunded directly
+    // Resolve the session to its PaymentIntent first
+    let paymentIntentId: string | undefined;
+    let chargeId: string | undefined;
+
+    if (input.paymentId.startsWith("cs_")) {
+      const session = await this.request<{
+        id: string;
+        payment_intent?: string | null;
+      }>("GET", `/v1/checkout/sessions/${input.paymentId}`);
+
+      if (!session.payment_intent) {
+        throw new InvalidRequestError(
+          `Checkout Session "${input.paymentId}" has no payment to refund. The customer may not have completed checkout yet.`,
+          { provider: this.name }
+        );
+      }
+      paymentIntentId = session.payment_intent;
+    } else if (input.paymentId.startsWith("pi_")) {
+      paymentIntentId = input.paymentId;
+    } else {
+      chargeId = input.paymentId;
+    }
+
+    const params: Record<string, unknown> = {
+      payment_intent: paymentIntentId,
+      charge: chargeId,
+    };
+
+    if (input.amount !== undefined) {
+      // Stripe needs the payment's currency to convert the amount, so fetch it first
+      const payment = paymentIntentId
+        ? await this.request<{ currency: string }>(
+            "GET",
+            `/v1/payment_intents/${paymentIntentId}`
+          )
+        : await this.request<{ currency: string }>(
+            "GET",
+            `/v1/charges/${chargeId}`
+          );
+      params.amount = toMinorUnits(input.amount, payment.currency);
+    }
+
+    // Stripe only accepts its own three reasons; "other" is recorded in metadata instead
+    if (input.reason && input.reason !== "other") {
+      params.reason = input.reason;
+    }
+
+    const metadata: Record<string, string> = {
+      paylayer_provider: this.name,
+    };
+    if (input.reason === "other") {
+      metadata.paylayer_reason = input.reason;
+    }
+    if (input.metadata) {
+      for (const [key, value] of Object.entries(input.metadata)) {
+        metadata[key] = String(value);
+      }
+    }
+    params.metadata = metadata;
+
+    const refund = await this.request<StripeRefund>(
+      "POST",
+      "/v1/refunds",
+      params,
+      input.idempotencyKey
+    );
+
+    return {
+      id: refund.id,
+      paymentId: input.paymentId,
+      status:
+        refund.status === "succeeded"
+          ? "succeeded"
+          : refund.status === "failed"
+            ? "failed"
+            : refund.status === "canceled"
+              ? "cancelled"
+              : "pending",
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      currency: refund.currency.toUpperCase() as CurrencyCode,
+      provider: this.name,
+      reason: input.reason,
+    };
+  }
+
   /**
    * Verifies Stripe webhook signature using HMAC SHA256
    *
    * Implements Stripe's webhook signature verification with 5-minute timestamp tolerance
    * to prevent replay attacks while allowing for network delays.
    *
-   * @param payload - Raw webhook payload (string or Buffer)
+   * @param payload - Raw webhook payload (string or bytes)
    * @param signature - Stripe signature from 'stripe-signature' header
-   * @param secret - Webhook secret (if provided, overrides STRIPE_WEBHOOK_SECRET env var)
-   * @returns true if signature is valid, false otherwise
+   * @param secret - Webhook signing secret
+   * @returns Valid, or the reason the signature was rejected
    */
-  verifyWebhook(
-    payload: string | Buffer,
+  async verifyWebhook(
+    payload: string | Uint8Array,
     signature: string,
-    secret: string
-  ): boolean {
-    // Use provided secret parameter if available, otherwise fall back to environment variable
-    const webhookSecret = secret || process.env.STRIPE_WEBHOOK_SECRET || "";
-    if (!webhookSecret || !signature) {
-      return false;
+    secret: string,
+    _headers?: Record<string, string>,
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookVerificationResult> {
+    if (!signature) {
+      return verificationFailed("missing_signature");
+    }
+    if (!secret) {
+      return verificationFailed("invalid_signature");
     }
 
     try {
       // Stripe signature format: t={timestamp},v1={signature},v0={signature}
+      // While a secret is being rolled, Stripe sends one v1 signature per active secret
       const elements = signature.split(",");
       const timestamp = elements.find((e) => e.startsWith("t="))?.substring(2);
-      const signatureV1 = elements
-        .find((e) => e.startsWith("v1="))
-        ?.substring(3);
+      const signaturesV1 = elements
+        .filter((e) => e.startsWith("v1="))
+        .map((e) => e.substring(3));
 
-      if (!timestamp || !signatureV1) {
-        return false;
+      if (!timestamp || signaturesV1.length === 0) {
+        return verificationFailed("malformed_header");
       }
 
-      // Check timestamp is within 5 minutes
-      const timestampNum = parseInt(timestamp, 10);
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (Math.abs(currentTime - timestampNum) > 300) {
-        // 5 minutes tolerance
-        return false;
+      const timestampFailure = checkWebhookTimestamp(
+        timestamp,
+        this.toleranceSeconds,
+        options.now
+      );
+      if (timestampFailure) {
+        return verificationFailed(timestampFailure);
       }
 
       // Compute HMAC SHA256 of {timestamp}.{payload}
-      const payloadString =
-        typeof payload === "string" ? payload : payload.toString("utf-8");
-      const signedPayload = `${timestamp}.${payloadString}`;
-
-      const hmac = createHmac("sha256", webhookSecret);
-      hmac.update(signedPayload);
-      const computedSignature = hmac.digest("hex");
+      const signedPayload = `${timestamp}.${toText(payload)}`;
+      const computedSignature = toHex(await hmacSha256(secret, signedPayload));
 
       // Compare using constant-time comparison
-      return this.constantTimeEquals(signatureV1, computedSignature);
+      const matched = signaturesV1.some((signatureV1) =>
+        timingSafeEqual(toBytes(signatureV1), toBytes(computedSignature))
+      );
+      return matched ? VERIFIED : verificationFailed("invalid_signature");
     } catch {
-      return false;
-    }
-  }
-
-  private constantTimeEquals(a: string, b: string): boolean {
-    if (a.length !== b.length) {
-      return false;
-    }
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+      return verificationFailed("invalid_signature");
     }
-    return result === 0;
   }
 
   /**
@@ -9,14 +9,35 @@ import type {
   SubscriptionResult,
   CheckoutInput,
   CheckoutResult,
+  RefundInput,
+  RefundResult,
+  ListSubscriptionsInput,
+  SubscriptionList,
+  ChangePlanInput,
+  SubscriptionActionOptions,
+  WebhookVerificationResult,
 } from "../types.js";
 
+/**
+ * Settings passed to verifyWebhook by the webhook processor
+ */
+export interface WebhookVerifyOptions {
+  /** Current Unix time in seconds, used for timestamp checks (defaults to now) */
+  now?: number;
+}
+
 export interface PaymentProvider {
   /**
    * Provider identifier (e.g., 'stripe', 'paddle')
    */
   readonly name: string;
 
+  /**
+   * Whether the provider API deduplicates requests by idempotency key
+   * When false, PayLayer deduplicates retries in memory instead
+   */
+  readonly supportsIdempotencyKeys: boolean;
+
   /**
    * Creates a one-time payment charge
    */
@@ -30,17 +51,42 @@ export interface PaymentProvider {
   /**
    * Cancels a subscription
    */
-  cancel(subscriptionId: string): Promise<SubscriptionResult>;
+  cancel(
+    subscriptionId: string,
+    options?: SubscriptionActionOptions
+  ): Promise<SubscriptionResult>;
 
   /**
    * Pauses a subscription
    */
-  pause(subscriptionId: string): Promise<SubscriptionResult>;
+  pause(
+    subscriptionId: string,
+    options?: SubscriptionActionOptions
+  ): Promise<SubscriptionResult>;
 
   /**
    * Resumes a paused subscription
    */
-  resume(subscriptionId: string): Promise<SubscriptionResult>;
+  resume(
+    subscriptionId: string,
+    options?: SubscriptionActionOptions
+  ): Promise<SubscriptionResult>;
+
+  /**
+   * Switches a subscription to another plan (upgrade or downgrade)
+   */
+  changePlan(input: ChangePlanInput): Promise<SubscriptionResult>;
+
+  /**
+   * Retrieves a subscription by ID
+   */
+  getSubscription(subscriptionId: string): Promise<SubscriptionResult>;
+
+  /**
+   * Lists a customer's subscriptions, one page at a time
+   * The cursor format is provider-specific and should be treated as opaque
+   */
+  listSubscriptions(input: ListSubscriptionsInput): Promise<SubscriptionList>;
 
   /**
    * Generates a billing portal URL
@@ -53,16 +99,23 @@ export interface PaymentProvider {
    */
   checkout(input: CheckoutInput): Promise<CheckoutResult>;
 
+  /**
+   * Refunds a payment in full or in part
+   * Omitting the amount refunds whatever remains on the payment
+   */
+  refund(input: RefundInput): Promise<RefundResult>;
+
   /**
    * Verifies webhook signature
-   * For PayPal, this method is async and requires additional headers
+   * May resolve asynchronously, since WebCrypto is async; PayPal also requires additional headers
    */
   verifyWebhook(
-    payload: string | Buffer,
+    payload: string | Uint8Array,
     signature: string,
     secret: string,
-    headers?: Record<string, string>
-  ): boolean | Promise<boolean>;
+    headers?: Record<string, string>,
+    options?: WebhookVerifyOptions
+  ): WebhookVerificationResult | Promise<WebhookVerificationResult>;
 
   /**
    * Normalizes provider-specific webhook event
@@ -0,0 +1,43 @@
+/**
+ * Helpers shared by the providers' webhook signature checks
+ */
+
+import type {
+  WebhookVerificationFailure,
+  WebhookVerificationResult,
+} from "../types.js";
+
+/**
+ * Default maximum age (and clock skew) of a signed webhook timestamp
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export const VERIFIED: WebhookVerificationResult = { valid: true };
+
+export function verificationFailed(
+  reason: WebhookVerificationFailure
+): WebhookVerificationResult {
+  return { valid: false, reason };
+}
+
+/**
+ * Checks a signed Unix timestamp against the replay window
+ *
+ * @param timestamp - Timestamp from the signature header, in seconds
+ * @param toleranceSeconds - Accepted difference from the local clock
+ * @param now - Current Unix time in seconds (defaults to now)
+ * @returns The failure reason, or undefined if the timestamp is acceptable
+ */
+export function checkWebhookTimestamp(
+  timestamp: string,
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): WebhookVerificationFailure | undefined {
+  if (!/^\d+$/.test(timestamp)) {
+    return "malformed_header";
+  }
+  if (Math.abs(now - Number(timestamp)) > toleranceSeconds) {
+    return "timestamp_expired";
+  }
+  return undefined;
+}
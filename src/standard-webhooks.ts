@@ -0,0 +1,129 @@
+/**
+ * Standard Webhooks signatures (https://www.standardwebhooks.com)
+ *
+ * Deliveries carry webhook-id, webhook-timestamp and webhook-signature headers.
+ * The signature header lists one or more space-separated `v1,<base64>` entries,
+ * each an HMAC-SHA256 of `${id}.${timestamp}.${body}`; several entries appear
+ * while the sender rotates its secret.
+ */
+
+import {
+  fromBase64,
+  hmacSha256,
+  timingSafeEqual,
+  toBase64,
+  toBytes,
+  type BinaryInput,
+} from "./crypto.js";
+import {
+  checkWebhookTimestamp,
+  VERIFIED,
+  verificationFailed,
+} from "./providers/webhook-verification.js";
+import type { WebhookVerificationResult } from "./types.js";
+
+const SECRET_PREFIX = "whsec_";
+const SIGNATURE_VERSION = "v1";
+
+export interface VerifyStandardWebhookOptions {
+  /** Maximum age (and clock skew) of the delivery, in seconds (defaults to 5 minutes) */
+  toleranceSeconds?: number;
+  /** Current Unix time in seconds, for tests (defaults to now) */
+  now?: number;
+}
+
+/**
+ * Decodes a signing secret into the HMAC key
+ *
+ * `whsec_`-prefixed secrets hold the base64-encoded key. Other secrets, such as
+ * the ones Polar shows in its dashboard, are used as raw UTF-8 bytes.
+ */
+export function decodeStandardWebhookSecret(secret: string): Uint8Array {
+  return secret.startsWith(SECRET_PREFIX)
+    ? fromBase64(secret.substring(SECRET_PREFIX.length))
+    : toBytes(secret);
+}
+
+/**
+ * Computes the `v1,<base64>` signature for a delivery
+ *
+ * @param payload - Raw request body
+ * @param id - webhook-id header
+ * @param timestamp - webhook-timestamp header (Unix seconds)
+ * @param secret - Signing secret
+ */
+export async function signStandardWebhook(
+  payload: BinaryInput,
+  id: string,
+  timestamp: number | string,
+  secret: string
+): Promise<string> {
+  const signature = await computeSignature(payload, id, timestamp, secret);
+  return `${SIGNATURE_VERSION},${toBase64(signature)}`;
+}
+
+/**
+ * Verifies a Standard Webhooks delivery
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param headers - Request headers with lowercase names
+ * @param secret - Signing secret
+ * @param options - Timestamp tolerance and clock
+ * @returns Valid if the timestamp is within tolerance and any listed v1
+ * signature matches; otherwise the reason the delivery was rejected
+ */
+export async function verifyStandardWebhook(
+  payload: BinaryInput,
+  headers: Record<string, string>,
+  secret: string,
+  options: VerifyStandardWebhookOptions = {}
+): Promise<WebhookVerificationResult> {
+  const id = headers["webhook-id"];
+  const timestamp = headers["webhook-timestamp"];
+  const signatureHeader = headers["webhook-signature"];
+  if (!signatureHeader) {
+    return verificationFailed("missing_signature");
+  }
+  if (!id || !timestamp) {
+    return verificationFailed("malformed_header");
+  }
+  if (!secret) {
+    return verificationFailed("invalid_signature");
+  }
+
+  const timestampFailure = checkWebhookTimestamp(
+    timestamp,
+    options.toleranceSeconds,
+    options.now
+  );
+  if (timestampFailure) {
+    return verificationFailed(timestampFailure);
+  }
+
+  const expected = await computeSignature(payload, id, timestamp, secret);
+
+  const matched = signatureHeader.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",", 2);
+    if (version !== SIGNATURE_VERSION || !signature) {
+      return false;
+    }
+    return timingSafeEqual(fromBase64(signature), expected);
+  });
+  return matched ? VERIFIED : verificationFailed("invalid_signature");
+}
+
+function computeSignature(
+  payload: BinaryInput,
+  id: string,
+  timestamp: number | string,
+  secret: string
+): Promise<Uint8Array> {
+  // Sign the body's original bytes: decoding and re-encoding would alter a
+  // byte order mark or any bytes that aren't valid UTF-8
+  const prefix = toBytes(`${id}.${timestamp}.`);
+  const body = toBytes(payload);
+  const signedContent = new Uint8Array(prefix.length + body.length);
+  signedContent.set(prefix);
+  signedContent.set(body, prefix.length);
+  return hmacSha256(decodeStandardWebhookSecret(secret), signedContent);
+}
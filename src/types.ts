@@ -164,6 +164,7 @@ export interface ChargeInput {
   successUrl?: string;
   cancelUrl?: string;
   metadata?: Record<string, unknown>;
+  idempotencyKey?: string; // Makes retries safe: repeated calls with the same key return the first result
 }
 
 export interface ChargeResult {
@@ -183,16 +184,67 @@ export interface SubscribeInput {
   successUrl?: string;
   cancelUrl?: string;
   metadata?: Record<string, unknown>;
+  idempotencyKey?: string;
 }
 
+export type SubscriptionStatus = "active" | "paused" | "cancelled" | "past_due";
+
 export interface SubscriptionResult {
   id: string;
-  status: "active" | "paused" | "cancelled" | "past_due";
+  status: SubscriptionStatus;
   plan: string;
   currency: CurrencyCode;
   provider: Provider;
   email?: string;
   url?: string;
+  customerId?: string;
+  quantity?: number;
+  currentPeriodStart?: string; // ISO 8601 timestamp
+  currentPeriodEnd?: string; // ISO 8601 timestamp
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: string; // ISO 8601 timestamp
+  prorationAmount?: number; // Set by changePlan(); positive is charged, negative is credited
+}
+
+/**
+ * How a plan change is billed
+ * - immediate: charge or credit the prorated difference right away
+ * - next_period: add the prorated difference to the next invoice
+ * - none: switch plans without proration
+ */
+export type ProrationBehavior = "immediate" | "next_period" | "none";
+
+/**
+ * Options for cancel(), pause() and resume()
+ */
+export interface SubscriptionActionOptions {
+  idempotencyKey?: string;
+}
+
+export interface ChangePlanInput {
+  subscriptionId: string;
+  plan: string;
+  proration: ProrationBehavior;
+  quantity?: number;
+  idempotencyKey?: string;
+}
+
+/**
+ * Filters for listing subscriptions
+ * Either email or customerId must be provided
+ */
+export interface ListSubscriptionsInput {
+  email?: string;
+  customerId?: string;
+  status?: SubscriptionStatus;
+  cursor?: string; // nextCursor from a previous page
+  limit?: number;
+}
+
+export interface SubscriptionList {
+  data: SubscriptionResult[];
+  hasMore: boolean;
+  nextCursor?: string; // Pass as cursor to fetch the next page
 }
 
 export interface CheckoutInput {
@@ -202,6 +254,7 @@ export interface CheckoutInput {
   plan?: string; // For subscription checkout
   successUrl?: string;
   cancelUrl?: string;
+  idempotencyKey?: string;
 }
 
 export interface CheckoutResult {
@@ -210,6 +263,37 @@ export interface CheckoutResult {
   provider: Provider;
 }
 
+export type RefundReason =
+  | "duplicate"
+  | "fraudulent"
+  | "requested_by_customer"
+  | "other";
+
+export interface RefundInput {
+  paymentId: string;
+  amount?: number; // Omit for a full refund
+  reason?: RefundReason;
+  metadata?: Record<string, unknown>;
+  idempotencyKey?: string;
+}
+
+export interface RefundResult {
+  id: string;
+  paymentId: string;
+  status: "pending" | "succeeded" | "failed" | "cancelled";
+  amount: number;
+  currency: CurrencyCode;
+  provider: Provider;
+  reason?: RefundReason;
+}
+
+/**
+ * Normalized webhook event type
+ *
+ * Provider events with no PayLayer equivalent, or missing a field their type
+ * guarantees, are normalized to "unknown"; `providerEventType` holds the
+ * provider's own event name.
+ */
 export type EventType =
   | "payment.success"
   | "payment.failed"
@@ -218,7 +302,38 @@ export type EventType =
   | "subscription.updated"
   | "subscription.deleted"
   | "subscription.paused"
-  | "subscription.resumed";
+  | "subscription.resumed"
+  | "subscription.renewed"
+  | "subscription.trial_will_end"
+  | "subscription.trial_ended"
+  | "subscription.past_due"
+  | "payment.refunded"
+  | "payment.partially_refunded"
+  | "dispute.created"
+  | "dispute.updated"
+  | "dispute.closed"
+  | "unknown";
+
+/**
+ * Why a webhook request failed verification
+ * - missing_signature: the request has no signature header
+ * - malformed_header: a signature or timestamp header cannot be parsed
+ * - timestamp_expired: the signed timestamp is outside the provider's tolerance
+ * - invalid_signature: no signature matches a configured secret
+ * - verification_unavailable: the provider's verification API could not be
+ *   reached or failed, so the signature could not be checked
+ */
+export type WebhookVerificationFailure =
+  | "missing_signature"
+  | "malformed_header"
+  | "timestamp_expired"
+  | "invalid_signature"
+  | "verification_unavailable";
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  reason?: WebhookVerificationFailure;
+}
 
 export interface CustomerInfo {
   id?: string;
@@ -235,8 +350,14 @@ export interface CustomerInfo {
   };
 }
 
-export interface NormalizedEvent {
+/**
+ * Fields shared by every normalized event; each event type makes the fields
+ * it guarantees required
+ */
+export interface NormalizedEventBase {
   type: EventType;
+  /** Event name as sent by the provider, e.g. "customer.subscription.updated" */
+  providerEventType?: string;
   amount?: number;
   currency?: CurrencyCode;
   email?: string;
@@ -250,8 +371,168 @@ export interface NormalizedEvent {
   createdAt?: string;
   plan?: string;
   productId?: string;
+  /** Total refunded on the payment so far, in major units (refund events) */
+  refundedAmount?: number;
+  /** Provider dispute or chargeback ID (dispute events) */
+  disputeId?: string;
+  /** Reason given for the dispute, in the provider's own terms (dispute events) */
+  disputeReason?: string;
+  /** ISO 8601 deadline for submitting evidence, if the provider sets one (dispute events) */
+  evidenceDueBy?: string;
+  /** ISO 8601 start of the current (or, for renewals, the newly paid) billing period */
+  currentPeriodStart?: string;
+  /** ISO 8601 end of the billing period, when the subscription next renews */
+  currentPeriodEnd?: string;
+  /** ISO 8601 end of the subscription's trial, if it has one */
+  trialEndsAt?: string;
   metadata?: Record<string, unknown>;
   providerResponse?: unknown;
 }
 
-export type EventHandler = (event: NormalizedEvent) => void | Promise<void>;
+export interface PaymentSucceededEvent extends NormalizedEventBase {
+  type: "payment.success";
+  amount: number;
+  currency: CurrencyCode;
+  paymentId: string;
+}
+
+export interface PaymentFailedEvent extends NormalizedEventBase {
+  type: "payment.failed";
+}
+
+interface SubscriptionEventBase extends NormalizedEventBase {
+  subscriptionId: string;
+}
+
+export interface SubscriptionCreatedEvent extends SubscriptionEventBase {
+  type: "subscription.created";
+}
+
+export interface SubscriptionUpdatedEvent extends SubscriptionEventBase {
+  type: "subscription.updated";
+}
+
+export interface SubscriptionCancelledEvent extends SubscriptionEventBase {
+  type: "subscription.cancelled";
+}
+
+export interface SubscriptionDeletedEvent extends SubscriptionEventBase {
+  type: "subscription.deleted";
+}
+
+export interface SubscriptionPausedEvent extends SubscriptionEventBase {
+  type: "subscription.paused";
+}
+
+export interface SubscriptionResumedEvent extends SubscriptionEventBase {
+  type: "subscription.resumed";
+}
+
+export interface SubscriptionRenewedEvent extends SubscriptionEventBase {
+  type: "subscription.renewed";
+  amount: number;
+  currency: CurrencyCode;
+  paymentId: string;
+}
+
+export interface SubscriptionTrialWillEndEvent extends SubscriptionEventBase {
+  type: "subscription.trial_will_end";
+}
+
+export interface SubscriptionTrialEndedEvent extends SubscriptionEventBase {
+  type: "subscription.trial_ended";
+}
+
+export interface SubscriptionPastDueEvent extends SubscriptionEventBase {
+  type: "subscription.past_due";
+}
+
+export interface PaymentRefundedEvent extends NormalizedEventBase {
+  type: "payment.refunded";
+  currency: CurrencyCode;
+  paymentId: string;
+  refundedAmount: number;
+}
+
+export interface PaymentPartiallyRefundedEvent extends NormalizedEventBase {
+  type: "payment.partially_refunded";
+  currency: CurrencyCode;
+  paymentId: string;
+  refundedAmount: number;
+}
+
+interface DisputeEventBase extends NormalizedEventBase {
+  disputeId: string;
+}
+
+export interface DisputeCreatedEvent extends DisputeEventBase {
+  type: "dispute.created";
+}
+
+export interface DisputeUpdatedEvent extends DisputeEventBase {
+  type: "dispute.updated";
+}
+
+export interface DisputeClosedEvent extends DisputeEventBase {
+  type: "dispute.closed";
+}
+
+/**
+ * Provider event with no PayLayer equivalent; see `providerEventType`
+ */
+export interface UnknownEvent extends NormalizedEventBase {
+  type: "unknown";
+}
+
+/**
+ * Normalized webhook event, discriminated on `type`
+ *
+ * @example
+ * ```ts
+ * if (event.type === "payment.success") {
+ *   console.log(event.amount, event.currency); // number, CurrencyCode
+ * }
+ * ```
+ */
+export type NormalizedEvent =
+  | PaymentSucceededEvent
+  | PaymentFailedEvent
+  | SubscriptionCreatedEvent
+  | SubscriptionUpdatedEvent
+  | SubscriptionCancelledEvent
+  | SubscriptionDeletedEvent
+  | SubscriptionPausedEvent
+  | SubscriptionResumedEvent
+  | SubscriptionRenewedEvent
+  | SubscriptionTrialWillEndEvent
+  | SubscriptionTrialEndedEvent
+  | SubscriptionPastDueEvent
+  | PaymentRefundedEvent
+  | PaymentPartiallyRefundedEvent
+  | DisputeCreatedEvent
+  | DisputeUpdatedEvent
+  | DisputeClosedEvent
+  | UnknownEvent;
+
+export type EventHandler<TEvent extends NormalizedEvent = NormalizedEvent> = (
+  event: TEvent
+) => void | Promise<void>;
+
+type EventTypeGroup<T> = T extends `${infer Group}.${string}` ? Group : never;
+
+/**
+ * Events a handler listens to: one event type, every type in a group such as
+ * "subscription.*", or "*" for every event
+ */
+export type EventPattern = EventType | `${EventTypeGroup<EventType>}.*` | "*";
+
+/**
+ * Events a pattern matches, e.g. SubscriptionCreatedEvent | SubscriptionUpdatedEvent | ...
+ * for "subscription.*"
+ */
+export type EventForPattern<TPattern extends EventPattern> =
+  TPattern extends "*"
+    ? NormalizedEvent
+    : TPattern extends `${infer Group}.*`
+      ? Extract<NormalizedEvent, { type: `${Group}.${string}` }>
+      : Extract<NormalizedEvent, { type: TPattern }>;
@@ -0,0 +1,1081 @@
+/**
+ * Signed webhook deliveries for tests
+ *
+ * Builds raw events in each provider's payload format and signs them with the
+ * scheme the provider's verifyWebhook checks, so handlers can be exercised
+ * through webhook.process() with signature verification switched on.
+ */
+
+import type { EventType } from "./types.js";
+import { InvalidRequestError } from "./errors.js";
+import { formatDecimalAmount, toMinorUnits } from "./money.js";
+import { getWebhookSecretsFromEnv, type WebhookRequest } from "./webhooks.js";
+import { signStandardWebhook } from "./standard-webhooks.js";
+import { hmacSha256, toHex } from "./crypto.js";
+
+/**
+ * Providers whose webhooks can be simulated
+ */
+export type SimulatedWebhookProvider =
+  | "stripe"
+  | "paddle"
+  | "paypal"
+  | "lemonsqueezy"
+  | "polar";
+
+export interface SimulateWebhookOptions {
+  provider: SimulatedWebhookProvider;
+  /** Normalized event type the delivery should produce */
+  type: EventType;
+  /** Signing secret (defaults to the first secret in the provider's webhook secret environment variable) */
+  secret?: string;
+  /** Amount in major units (defaults to 29.99) */
+  amount?: number;
+  /** Amount refunded for refund events, in major units (defaults to the full amount, or half of it for partial refunds) */
+  refundedAmount?: number;
+  /** ISO 4217 currency code (defaults to "USD") */
+  currency?: string;
+  /** Customer email, set wherever the provider includes one */
+  email?: string;
+  /** Custom data attached the way the provider passes it through */
+  metadata?: Record<string, unknown>;
+  /** Signing and event time as a Unix timestamp in seconds (defaults to now) */
+  timestamp?: number;
+  /** Deep-merged into the raw event before signing; arrays are replaced */
+  overrides?: Record<string, unknown>;
+}
+
+/**
+ * Simulated delivery, ready to pass to webhook.process()
+ */
+export interface SimulatedWebhookRequest extends WebhookRequest {
+  body: Record<string, unknown>;
+  /** Exact payload that was signed */
+  rawBody: string;
+  headers: Record<string, string>;
+}
+
+interface EventParams {
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  email: string;
+  metadata: Record<string, unknown>;
+  timestamp: number;
+}
+
+type EventBuilder = (
+  nativeType: string,
+  type: EventType,
+  params: EventParams
+) => Record<string, unknown>;
+
+type PayloadSigner = (
+  payload: string,
+  secret: string,
+  timestamp: number
+) => Promise<Record<string, string>>;
+
+interface ProviderSimulator {
+  /** Provider event name sent for each supported normalized type */
+  eventNames: Partial<Record<EventType, string>>;
+  build: EventBuilder;
+  sign: PayloadSigner;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const simulators: Record<SimulatedWebhookProvider, ProviderSimulator> = {
+  stripe: {
+    // Stripe reports cancellations as customer.subscription.deleted
+    eventNames: {
+      "payment.success": "checkout.session.completed",
+      "payment.failed": "payment_intent.payment_failed",
+      "subscription.created": "customer.subscription.created",
+      "subscription.updated": "customer.subscription.updated",
+      "subscription.deleted": "customer.subscription.deleted",
+      "subscription.paused": "customer.subscription.paused",
+      "subscription.resumed": "customer.subscription.resumed",
+      "subscription.renewed": "invoice.paid",
+      "subscription.trial_will_end": "customer.subscription.trial_will_end",
+      "subscription.trial_ended": "customer.subscription.updated",
+      "subscription.past_due": "customer.subscription.updated",
+      "payment.refunded": "charge.refunded",
+      "payment.partially_refunded": "charge.refunded",
+      "dispute.created": "charge.dispute.created",
+      "dispute.updated": "charge.dispute.updated",
+      "dispute.closed": "charge.dispute.closed",
+    },
+    build: buildStripeEvent,
+    async sign(payload, secret, timestamp) {
+      const signature = await hmacHex(secret, `${timestamp}.${payload}`);
+      return { "stripe-signature": `t=${timestamp},v1=${signature}` };
+    },
+  },
+  paddle: {
+    eventNames: {
+      "payment.success": "transaction.completed",
+      "payment.failed": "transaction.payment_failed",
+      "subscription.created": "subscription.created",
+      "subscription.updated": "subscription.updated",
+      "subscription.cancelled": "subscription.canceled",
+      "subscription.paused": "subscription.paused",
+      "subscription.resumed": "subscription.resumed",
+      "subscription.renewed": "transaction.completed",
+      "subscription.trial_ended": "subscription.activated",
+      "subscription.past_due": "subscription.past_due",
+      "payment.refunded": "adjustment.created",
+      "payment.partially_refunded": "adjustment.created",
+      "dispute.created": "adjustment.created",
+      "dispute.updated": "adjustment.updated",
+      "dispute.closed": "adjustment.created",
+    },
+    build: buildPaddleEvent,
+    async sign(payload, secret, timestamp) {
+      const signature = await hmacHex(secret, `${timestamp}:${payload}`);
+      return { "paddle-signature": `ts=${timestamp};h1=${signature}` };
+    },
+  },
+  paypal: {
+    eventNames: {
+      "payment.success": "PAYMENT.CAPTURE.COMPLETED",
+      "payment.failed": "PAYMENT.CAPTURE.DENIED",
+      "subscription.created": "BILLING.SUBSCRIPTION.CREATED",
+      "subscription.updated": "BILLING.SUBSCRIPTION.UPDATED",
+      "subscription.cancelled": "BILLING.SUBSCRIPTION.CANCELLED",
+      "subscription.paused": "BILLING.SUBSCRIPTION.SUSPENDED",
+      "subscription.resumed": "BILLING.SUBSCRIPTION.ACTIVATED",
+      "subscription.renewed": "PAYMENT.SALE.COMPLETED",
+      "payment.partially_refunded": "PAYMENT.CAPTURE.REFUNDED",
+      "dispute.created": "CUSTOMER.DISPUTE.CREATED",
+      "dispute.updated": "CUSTOMER.DISPUTE.UPDATED",
+      "dispute.closed": "CUSTOMER.DISPUTE.RESOLVED",
+    },
+    build: buildPayPalEvent,
+    // PayPal signs with its private key and verification goes through the PayPal API,
+    // so the transmission signature is a placeholder that only passes when
+    // verification is skipped: sandbox mode, allowUnsigned and no webhook ID
+    async sign(_payload, _secret, timestamp) {
+      return {
+        "paypal-auth-algo": "SHA256withRSA",
+        "paypal-cert-url":
+          "https://api.sandbox.paypal.com/v1/notifications/certs/CERT-360caa42-fca2a594-simulated",
+        "paypal-transmission-id": randomUUID(),
+        "paypal-transmission-sig": randomId(344),
+        "paypal-transmission-time": new Date(timestamp * 1000).toISOString(),
+      };
+    },
+  },
+  lemonsqueezy: {
+    eventNames: {
+      "payment.success": "order_created",
+      "payment.failed": "subscription_payment_failed",
+      "subscription.created": "subscription_created",
+      "subscription.updated": "subscription_updated",
+      "subscription.cancelled": "subscription_cancelled",
+      "subscription.paused": "subscription_paused",
+      "subscription.resumed": "subscription_unpaused",
+      "subscription.renewed": "subscription_payment_success",
+      "subscription.past_due": "subscription_updated",
+      "payment.refunded": "order_refunded",
+      "payment.partially_refunded": "order_refunded",
+    },
+    build: buildLemonSqueezyEvent,
+    async sign(payload, secret) {
+      const event = JSON.parse(payload) as { meta: { event_name: string } };
+      return {
+        "x-event-name": event.meta.event_name,
+        "x-signature": await hmacHex(secret, payload),
+      };
+    },
+  },
+  polar: {
+    // Polar has no pause: the normalizer reads a pending cancellation as paused
+    // and clearing it as resumed
+    eventNames: {
+      "payment.success": "checkout.updated",
+      "payment.failed": "checkout.updated",
+      "subscription.created": "subscription.created",
+      "subscription.updated": "subscription.updated",
+      "subscription.cancelled": "subscription.canceled",
+      "subscription.paused": "subscription.updated",
+      "subscription.resumed": "subscription.updated",
+      "subscription.renewed": "order.paid",
+      "subscription.past_due": "subscription.updated",
+      "payment.refunded": "order.refunded",
+      "payment.partially_refunded": "order.refunded",
+    },
+    build: buildPolarEvent,
+    async sign(payload, secret, timestamp) {
+      const id = `msg_${randomId(27)}`;
+      return {
+        "webhook-id": id,
+        "webhook-timestamp": String(timestamp),
+        "webhook-signature": await signStandardWebhook(
+          payload,
+          id,
+          timestamp,
+          secret
+        ),
+      };
+    },
+  },
+};
+
+/**
+ * Builds a signed webhook delivery in a provider's payload format
+ *
+ * @param options - Provider, event type and event details
+ * @returns Request with the parsed body, the signed raw body and the provider's headers
+ * @throws {InvalidRequestError} If the provider never sends the event type
+ *
+ * Simulated PayPal deliveries can't carry a real signature, so they only pass
+ * webhook.process() in sandbox mode with `allowUnsigned: true` and no webhook ID.
+ *
+ * @example
+ * ```ts
+ * const request = await simulateWebhook({
+ *   provider: "stripe",
+ *   type: "payment.success",
+ *   secret: "whsec_test",
+ *   amount: 49,
+ *   overrides: { data: { object: { metadata: { orderId: "1234" } } } },
+ * });
+ * const response = await webhook.process(request);
+ * ```
+ */
+export async function simulateWebhook(
+  options: SimulateWebhookOptions
+): Promise<SimulatedWebhookRequest> {
+  const simulator = simulators[options.provider];
+  if (!simulator) {
+    throw new InvalidRequestError(
+      `Cannot simulate webhooks for provider: ${options.provider}`
+    );
+  }
+
+  const nativeType = simulator.eventNames[options.type];
+  if (!nativeType) {
+    throw new InvalidRequestError(
+      `${options.provider} does not send ${options.type} webhooks`,
+      { provider: options.provider }
+    );
+  }
+
+  const amount = options.amount ?? 29.99;
+  const params: EventParams = {
+    amount,
+    refundedAmount:
+      options.refundedAmount ??
+      (options.type === "payment.partially_refunded" ? amount / 2 : amount),
+    currency: (options.currency ?? "USD").toUpperCase(),
+    email: options.email ?? "customer@example.com",
+    metadata: options.metadata ?? {},
+    timestamp: options.timestamp ?? Math.floor(Date.now() / 1000),
+  };
+
+  let event = simulator.build(nativeType, options.type, params);
+  if (options.overrides) {
+    event = deepMerge(event, options.overrides);
+  }
+
+  const rawBody = JSON.stringify(event);
+  const secret =
+    options.secret ?? getWebhookSecretsFromEnv(options.provider)[0] ?? "";
+
+  return {
+    body: JSON.parse(rawBody) as Record<string, unknown>,
+    rawBody,
+    headers: {
+      "content-type": "application/json",
+      ...(await simulator.sign(rawBody, secret, params.timestamp)),
+    },
+  };
+}
+
+function buildStripeEvent(
+  nativeType: string,
+  type: EventType,
+  params: EventParams
+): Record<string, unknown> {
+  const minorAmount = toMinorUnits(params.amount, params.currency);
+  const currency = params.currency.toLowerCase();
+  const customer = `cus_${randomId(14)}`;
+  let object: Record<string, unknown>;
+  let previousAttributes: Record<string, unknown> | undefined;
+
+  if (type === "payment.success") {
+    object = {
+      id: `cs_test_${randomId(24)}`,
+      object: "checkout.session",
+      amount_subtotal: minorAmount,
+      amount_total: minorAmount,
+      currency,
+      customer,
+      customer_details: {
+        email: params.email,
+        name: "Jenny Rosen",
+        phone: null,
+        address: null,
+      },
+      customer_email: null,
+      metadata: params.metadata,
+      mode: "payment",
+      payment_intent: `pi_${randomId(24)}`,
+      payment_status: "paid",
+      status: "complete",
+      created: params.timestamp,
+    };
+  } else if (type === "payment.failed") {
+    object = {
+      id: `pi_${randomId(24)}`,
+      object: "payment_intent",
+      amount: minorAmount,
+      currency,
+      customer,
+      receipt_email: params.email,
+      last_payment_error: {
+        type: "card_error",
+        code: "card_declined",
+        decline_code: "generic_decline",
+        message: "Your card was declined.",
+      },
+      metadata: params.metadata,
+      status: "requires_payment_method",
+      created: params.timestamp,
+    };
+  } else if (type === "subscription.renewed") {
+    const subscription = `sub_${randomId(24)}`;
+    object = {
+      id: `in_${randomId(24)}`,
+      object: "invoice",
+      amount_due: minorAmount,
+      amount_paid: minorAmount,
+      billing_reason: "subscription_cycle",
+      currency,
+      customer,
+      customer_email: params.email,
+      lines: {
+        object: "list",
+        data: [
+          {
+            id: `il_${randomId(24)}`,
+            object: "line_item",
+            amount: minorAmount,
+            currency,
+            period: {
+              start: params.timestamp,
+              end: params.timestamp + 30 * DAY_SECONDS,
+            },
+          },
+        ],
+      },
+      metadata: params.metadata,
+      parent: {
+        type: "subscription_details",
+        subscription_details: { subscription, metadata: params.metadata },
+      },
+      subscription,
+      status: "paid",
+      created: params.timestamp,
+    };
+  } else if (isRefund(type)) {
+    object = {
+      id: `ch_${randomId(24)}`,
+      object: "charge",
+      amount: minorAmount,
+      amount_captured: minorAmount,
+      amount_refunded: toMinorUnits(params.refundedAmount, params.currency),
+      billing_details: { email: params.email, name: "Jenny Rosen" },
+      currency,
+      customer,
+      receipt_email: params.email,
+      metadata: params.metadata,
+      paid: true,
+      payment_intent: `pi_${randomId(24)}`,
+      refunded: type === "payment.refunded",
+      status: "succeeded",
+      created: params.timestamp,
+    };
+  } else if (isDispute(type)) {
+    object = {
+      id: `dp_${randomId(24)}`,
+      object: "dispute",
+      amount: minorAmount,
+      charge: `ch_${randomId(24)}`,
+      currency,
+      evidence_details: {
+        due_by: params.timestamp + 7 * DAY_SECONDS,
+        has_evidence: false,
+        past_due: false,
+        submission_count: 0,
+      },
+      metadata: params.metadata,
+      payment_intent: `pi_${randomId(24)}`,
+      reason: "fraudulent",
+      status:
+        type === "dispute.created"
+          ? "needs_response"
+          : type === "dispute.updated"
+            ? "under_review"
+            : "won",
+      created: params.timestamp,
+    };
+  } else {
+    const status =
+      type === "subscription.deleted"
+        ? "canceled"
+        : type === "subscription.paused"
+          ? "paused"
+          : type === "subscription.trial_will_end"
+            ? "trialing"
+            : type === "subscription.past_due"
+              ? "past_due"
+              : "active";
+    // The normalizer reads trial ends and past due from the status change
+    if (type === "subscription.trial_ended") {
+      previousAttributes = { status: "trialing" };
+    } else if (type === "subscription.past_due") {
+      previousAttributes = { status: "active" };
+    }
+    const trialEnd =
+      type === "subscription.trial_will_end"
+        ? params.timestamp + 3 * DAY_SECONDS
+        : type === "subscription.trial_ended"
+          ? params.timestamp
+          : null;
+    object = {
+      id: `sub_${randomId(24)}`,
+      object: "subscription",
+      customer,
+      status,
+      cancel_at_period_end: false,
+      canceled_at: status === "canceled" ? params.timestamp : null,
+      ended_at: status === "canceled" ? params.timestamp : null,
+      current_period_start: params.timestamp,
+      current_period_end: params.timestamp + 30 * DAY_SECONDS,
+      trial_start: trialEnd === null ? null : trialEnd - 14 * DAY_SECONDS,
+      trial_end: trialEnd,
+      items: {
+        object: "list",
+        data: [
+          {
+            id: `si_${randomId(14)}`,
+            object: "subscription_item",
+            price: {
+              id: `price_${randomId(24)}`,
+              object: "price",
+              product: `prod_${randomId(14)}`,
+              unit_amount: minorAmount,
+              currency,
+              lookup_key: null,
+              recurring: { interval: "month", interval_count: 1 },
+            },
+            quantity: 1,
+          },
+        ],
+      },
+      metadata: params.metadata,
+      created: params.timestamp,
+    };
+  }
+
+  return {
+    id: `evt_${randomId(24)}`,
+    object: "event",
+    api_version: "2024-06-20",
+    created: params.timestamp,
+    data: previousAttributes
+      ? { object, previous_attributes: previousAttributes }
+      : { object },
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    type: nativeType,
+  };
+}
+
+function buildPaddleEvent(
+  nativeType: string,
+  type: EventType,
+  params: EventParams
+): Record<string, unknown> {
+  const occurredAt = new Date(params.timestamp * 1000).toISOString();
+  const amount = String(toMinorUnits(params.amount, params.currency));
+  const customData =
+    Object.keys(params.metadata).length > 0 ? params.metadata : null;
+  const price = {
+    id: `pri_${randomId(26)}`,
+    product_id: `pro_${randomId(26)}`,
+    unit_price: { amount, currency_code: params.currency },
+    billing_cycle: { interval: "month", frequency: 1 },
+  };
+  const periodEnd = new Date(
+    (params.timestamp + 30 * DAY_SECONDS) * 1000
+  ).toISOString();
+  let data: Record<string, unknown>;
+
+  if (
+    type === "payment.success" ||
+    type === "payment.failed" ||
+    type === "subscription.renewed"
+  ) {
+    const renewed = type === "subscription.renewed";
+    data = {
+      id: `txn_${randomId(26)}`,
+      status: type === "payment.failed" ? "ready" : "completed",
+      customer_id: `ctm_${randomId(26)}`,
+      currency_code: params.currency,
+      origin: renewed ? "subscription_recurring" : "web",
+      subscription_id: renewed ? `sub_${randomId(26)}` : null,
+      billing_period: renewed
+        ? { starts_at: occurredAt, ends_at: periodEnd }
+        : null,
+      custom_data: customData,
+      items: [{ price, quantity: 1 }],
+      details: {
+        totals: {
+          subtotal: amount,
+          tax: "0",
+          total: amount,
+          currency_code: params.currency,
+        },
+      },
+      payments:
+        type === "payment.failed"
+          ? [{ status: "error", error_code: "declined", amount }]
+          : [{ status: "captured", error_code: null, amount }],
+      created_at: occurredAt,
+      billed_at: occurredAt,
+    };
+  } else if (isRefund(type) || isDispute(type)) {
+    // Refunds and chargebacks are both adjustments to the transaction
+    const total = isRefund(type)
+      ? String(toMinorUnits(params.refundedAmount, params.currency))
+      : amount;
+    data = {
+      id: `adj_${randomId(26)}`,
+      action:
+        type === "dispute.closed"
+          ? "chargeback_reverse"
+          : isDispute(type)
+            ? "chargeback"
+            : "refund",
+      type: type === "payment.partially_refunded" ? "partial" : "full",
+      transaction_id: `txn_${randomId(26)}`,
+      subscription_id: null,
+      customer_id: `ctm_${randomId(26)}`,
+      reason: isDispute(type) ? "fraudulent" : "requested_by_customer",
+      currency_code: params.currency,
+      status: "approved",
+      totals: {
+        subtotal: total,
+        tax: "0",
+        total,
+        fee: "0",
+        earnings: total,
+        currency_code: params.currency,
+      },
+      created_at: occurredAt,
+      updated_at: occurredAt,
+    };
+  } else {
+    const status =
+      type === "subscription.cancelled"
+        ? "canceled"
+        : type === "subscription.paused"
+          ? "paused"
+          : type === "subscription.past_due"
+            ? "past_due"
+            : "active";
+    // Paddle activates a trialing subscription when its trial ends
+    const trialDates =
+      type === "subscription.trial_ended"
+        ? {
+            starts_at: new Date(
+              (params.timestamp - 14 * DAY_SECONDS) * 1000
+            ).toISOString(),
+            ends_at: occurredAt,
+          }
+        : null;
+    data = {
+      id: `sub_${randomId(26)}`,
+      status,
+      customer_id: `ctm_${randomId(26)}`,
+      currency_code: params.currency,
+      custom_data: customData,
+      items: [
+        { status: "active", quantity: 1, price, trial_dates: trialDates },
+      ],
+      started_at: occurredAt,
+      next_billed_at:
+        status === "active" || status === "past_due" ? periodEnd : null,
+      current_billing_period:
+        status === "active" || status === "past_due"
+          ? { starts_at: occurredAt, ends_at: periodEnd }
+          : null,
+      paused_at: status === "paused" ? occurredAt : null,
+      canceled_at: status === "canceled" ? occurredAt : null,
+      scheduled_change: null,
+      created_at: occurredAt,
+    };
+  }
+
+  return {
+    event_id: `evt_${randomId(26)}`,
+    event_type: nativeType,
+    occurred_at: occurredAt,
+    notification_id: `ntf_${randomId(26)}`,
+    data,
+  };
+}
+
+function buildPayPalEvent(
+  nativeType: string,
+  type: EventType,
+  params: EventParams
+): Record<string, unknown> {
+  const time = new Date(params.timestamp * 1000).toISOString();
+  const amount = {
+    currency_code: params.currency,
+    value: formatDecimalAmount(params.amount, params.currency),
+  };
+  const customId =
+    Object.keys(params.metadata).length > 0
+      ? JSON.stringify(params.metadata)
+      : undefined;
+  let resourceType: string;
+  let summary: string;
+  let resource: Record<string, unknown>;
+
+  if (type === "payment.success" || type === "payment.failed") {
+    const completed = type === "payment.success";
+    resourceType = "capture";
+    summary = completed
+      ? `Payment completed for ${amount.value} ${amount.currency_code}`
+      : `Payment denied for ${amount.value} ${amount.currency_code}`;
+    resource = {
+      id: randomId(17).toUpperCase(),
+      status: completed ? "COMPLETED" : "DECLINED",
+      amount,
+      final_capture: true,
+      custom_id: customId,
+      supplementary_data: {
+        related_ids: { order_id: randomId(17).toUpperCase() },
+      },
+      create_time: time,
+      update_time: time,
+    };
+  } else if (type === "subscription.renewed") {
+    // Subscription payments arrive as v1 sales against the billing agreement
+    resourceType = "sale";
+    summary = `Payment completed for ${amount.value} ${amount.currency_code}`;
+    resource = {
+      id: randomId(17).toUpperCase(),
+      state: "completed",
+      amount: {
+        total: amount.value,
+        currency: amount.currency_code,
+        details: { subtotal: amount.value },
+      },
+      payment_mode: "INSTANT_TRANSFER",
+      billing_agreement_id: `I-${randomId(12).toUpperCase()}`,
+      custom: customId,
+      create_time: time,
+      update_time: time,
+    };
+  } else if (type === "payment.partially_refunded") {
+    const id = randomId(17).toUpperCase();
+    const refunded = {
+      currency_code: params.currency,
+      value: formatDecimalAmount(params.refundedAmount, params.currency),
+    };
+    resourceType = "refund";
+    summary = `A ${refunded.value} ${refunded.currency_code} capture payment was refunded`;
+    resource = {
+      id,
+      status: "COMPLETED",
+      amount: refunded,
+      seller_payable_breakdown: {
+        gross_amount: refunded,
+        net_amount: refunded,
+        total_refunded_amount: refunded,
+      },
+      custom_id: customId,
+      links: [
+        {
+          href: `https://api.sandbox.paypal.com/v2/payments/refunds/${id}`,
+          rel: "self",
+          method: "GET",
+        },
+        {
+          href: `https://api.sandbox.paypal.com/v2/payments/captures/${randomId(17).toUpperCase()}`,
+          rel: "up",
+          method: "GET",
+        },
+      ],
+      create_time: time,
+      update_time: time,
+    };
+  } else if (isDispute(type)) {
+    resourceType = "dispute";
+    summary =
+      type === "dispute.closed"
+        ? "A dispute was resolved"
+        : type === "dispute.updated"
+          ? "A dispute was updated"
+          : "A new dispute was opened";
+    resource = {
+      dispute_id: `PP-D-${randomNumber()}`,
+      reason: "MERCHANDISE_OR_SERVICE_NOT_RECEIVED",
+      status:
+        type === "dispute.closed"
+          ? "RESOLVED"
+          : type === "dispute.updated"
+            ? "UNDER_REVIEW"
+            : "WAITING_FOR_SELLER_RESPONSE",
+      dispute_amount: amount,
+      dispute_outcome:
+        type === "dispute.closed"
+          ? { outcome_code: "RESOLVED_SELLER_FAVOUR" }
+          : undefined,
+      seller_response_due_date: new Date(
+        (params.timestamp + 10 * DAY_SECONDS) * 1000
+      ).toISOString(),
+      disputed_transactions: [
+        {
+          seller_transaction_id: randomId(17).toUpperCase(),
+          buyer: { name: "John Doe", email: params.email },
+          custom: customId,
+        },
+      ],
+      create_time: time,
+      update_time: time,
+    };
+  } else {
+    const status =
+      type === "subscription.cancelled"
+        ? "CANCELLED"
+        : type === "subscription.paused"
+          ? "SUSPENDED"
+          : "ACTIVE";
+    resourceType = "subscription";
+    summary = `Subscription ${nativeType.split(".").pop()!.toLowerCase()}`;
+    resource = {
+      id: `I-${randomId(12).toUpperCase()}`,
+      plan_id: `P-${randomId(24).toUpperCase()}`,
+      status,
+      status_update_time: time,
+      start_time: time,
+      quantity: "1",
+      custom_id: customId,
+      subscriber: {
+        email_address: params.email,
+        name: { given_name: "John", surname: "Doe" },
+        payer_id: randomId(13).toUpperCase(),
+      },
+      billing_info: {
+        last_payment: { amount, time },
+        next_billing_time:
+          status === "ACTIVE"
+            ? new Date(
+                (params.timestamp + 30 * DAY_SECONDS) * 1000
+              ).toISOString()
+            : undefined,
+        failed_payments_count: 0,
+      },
+      create_time: time,
+      update_time: time,
+    };
+  }
+
+  return {
+    id: `WH-${randomId(17).toUpperCase()}`,
+    event_version: "1.0",
+    create_time: time,
+    resource_type: resourceType,
+    resource_version: "2.0",
+    event_type: nativeType,
+    summary,
+    resource,
+  };
+}
+
+function buildLemonSqueezyEvent(
+  nativeType: string,
+  type: EventType,
+  params: EventParams
+): Record<string, unknown> {
+  const time = new Date(params.timestamp * 1000).toISOString();
+  const minorAmount = toMinorUnits(params.amount, params.currency);
+  const customerId = randomNumber();
+  const orderId = randomNumber();
+  let data: Record<string, unknown>;
+
+  if (type === "payment.success" || isRefund(type)) {
+    const refunded = isRefund(type);
+    data = {
+      type: "orders",
+      id: String(orderId),
+      attributes: {
+        store_id: randomNumber(),
+        customer_id: customerId,
+        identifier: randomUUID(),
+        order_number: randomNumber(),
+        user_name: "John Doe",
+        user_email: params.email,
+        currency: params.currency,
+        currency_rate: "1.0000",
+        subtotal: minorAmount,
+        tax: 0,
+        total: minorAmount,
+        status: !refunded
+          ? "paid"
+          : type === "payment.partially_refunded"
+            ? "partial_refund"
+            : "refunded",
+        refunded: type === "payment.refunded",
+        refunded_at: refunded ? time : null,
+        refunded_amount: refunded
+          ? toMinorUnits(params.refundedAmount, params.currency)
+          : 0,
+        created_at: time,
+        updated_at: time,
+        test_mode: true,
+      },
+    };
+  } else if (type === "payment.failed" || type === "subscription.renewed") {
+    data = {
+      type: "subscription-invoices",
+      id: String(randomNumber()),
+      attributes: {
+        store_id: randomNumber(),
+        subscription_id: randomNumber(),
+        customer_id: customerId,
+        user_name: "John Doe",
+        user_email: params.email,
+        billing_reason: "renewal",
+        currency: params.currency,
+        subtotal: minorAmount,
+        tax: 0,
+        total: minorAmount,
+        status: type === "payment.failed" ? "pending" : "paid",
+        refunded: false,
+        created_at: time,
+        updated_at: time,
+        test_mode: true,
+      },
+    };
+  } else {
+    const status =
+      type === "subscription.cancelled"
+        ? "cancelled"
+        : type === "subscription.paused"
+          ? "paused"
+          : type === "subscription.past_due"
+            ? "past_due"
+            : "active";
+    const subscriptionId = randomNumber();
+    data = {
+      type: "subscriptions",
+      id: String(subscriptionId),
+      attributes: {
+        store_id: randomNumber(),
+        customer_id: customerId,
+        order_id: orderId,
+        product_id: randomNumber(),
+        variant_id: randomNumber(),
+        user_name: "John Doe",
+        user_email: params.email,
+        status,
+        cancelled: status === "cancelled",
+        pause: status === "paused" ? { mode: "void", resumes_at: null } : null,
+        first_subscription_item: {
+          id: randomNumber(),
+          subscription_id: subscriptionId,
+          price_id: randomNumber(),
+          quantity: 1,
+          created_at: time,
+          updated_at: time,
+        },
+        renews_at: new Date(
+          (params.timestamp + 30 * DAY_SECONDS) * 1000
+        ).toISOString(),
+        ends_at: status === "cancelled" ? time : null,
+        trial_ends_at: null,
+        created_at: time,
+        updated_at: time,
+        test_mode: true,
+      },
+    };
+  }
+
+  return {
+    meta: {
+      test_mode: true,
+      event_name: nativeType,
+      webhook_id: randomUUID(),
+      ...(Object.keys(params.metadata).length > 0
+        ? { custom_data: params.metadata }
+        : {}),
+    },
+    data,
+  };
+}
+
+function buildPolarEvent(
+  nativeType: string,
+  type: EventType,
+  params: EventParams
+): Record<string, unknown> {
+  const time = new Date(params.timestamp * 1000).toISOString();
+  const minorAmount = toMinorUnits(params.amount, params.currency);
+  const currency = params.currency.toLowerCase();
+  const customer = {
+    id: randomUUID(),
+    email: params.email,
+    name: "John Doe",
+    metadata: {},
+  };
+  let data: Record<string, unknown>;
+
+  if (type === "payment.success" || type === "payment.failed") {
+    data = {
+      id: randomUUID(),
+      status: type === "payment.success" ? "succeeded" : "failed",
+      amount: minorAmount,
+      total_amount: minorAmount,
+      currency,
+      customer_id: customer.id,
+      customer_email: params.email,
+      customer_name: customer.name,
+      product_id: randomUUID(),
+      product_price_id: randomUUID(),
+      metadata: params.metadata,
+      created_at: time,
+      modified_at: time,
+    };
+  } else if (type === "subscription.renewed" || isRefund(type)) {
+    const renewed = type === "subscription.renewed";
+    const subscription = renewed
+      ? {
+          id: randomUUID(),
+          status: "active",
+          current_period_start: time,
+          current_period_end: new Date(
+            (params.timestamp + 30 * DAY_SECONDS) * 1000
+          ).toISOString(),
+          recurring_interval: "month",
+        }
+      : null;
+    data = {
+      id: randomUUID(),
+      status: renewed
+        ? "paid"
+        : type === "payment.partially_refunded"
+          ? "partially_refunded"
+          : "refunded",
+      paid: true,
+      billing_reason: renewed ? "subscription_cycle" : "purchase",
+      subtotal_amount: minorAmount,
+      tax_amount: 0,
+      total_amount: minorAmount,
+      refunded_amount: renewed
+        ? 0
+        : toMinorUnits(params.refundedAmount, params.currency),
+      refunded_tax_amount: 0,
+      currency,
+      customer_id: customer.id,
+      product_id: randomUUID(),
+      subscription_id: subscription?.id ?? null,
+      subscription,
+      metadata: params.metadata,
+      customer,
+      created_at: time,
+      modified_at: time,
+    };
+  } else {
+    const status =
+      type === "subscription.cancelled"
+        ? "canceled"
+        : type === "subscription.updated"
+          ? "trialing"
+          : type === "subscription.past_due"
+            ? "past_due"
+            : "active";
+    data = {
+      id: randomUUID(),
+      status,
+      amount: minorAmount,
+      currency,
+      recurring_interval: "month",
+      current_period_start: time,
+      current_period_end: new Date(
+        (params.timestamp + 30 * DAY_SECONDS) * 1000
+      ).toISOString(),
+      cancel_at_period_end: type === "subscription.paused",
+      canceled_at: status === "canceled" ? time : null,
+      started_at: time,
+      ended_at: status === "canceled" ? time : null,
+      customer_id: customer.id,
+      product_id: randomUUID(),
+      metadata: params.metadata,
+      customer,
+      created_at: time,
+      modified_at: time,
+    };
+  }
+
+  return { type: nativeType, data };
+}
+
+function isRefund(type: EventType): boolean {
+  return type === "payment.refunded" || type === "payment.partially_refunded";
+}
+
+function isDispute(type: EventType): boolean {
+  return type.startsWith("dispute.");
+}
+
+async function hmacHex(secret: string, payload: string): Promise<string> {
+  return toHex(await hmacSha256(secret, payload));
+}
+
+/**
+ * Random hex ID; simulated IDs only need to look realistic, not be unguessable
+ */
+function randomId(length: number): string {
+  let id = "";
+  while (id.length < length) {
+    id += Math.floor(Math.random() * 16).toString(16);
+  }
+  return id;
+}
+
+function randomUUID(): string {
+  const hex = randomId(32);
+  return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-4${hex.substring(13, 16)}-a${hex.substring(17, 20)}-${hex.substring(20)}`;
+}
+
+function randomNumber(): number {
+  return 100000 + Math.floor(Math.random() * 900000);
+}
+
+function deepMerge(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    result[key] =
+      isPlainObject(existing) && isPlainObject(value)
+        ? deepMerge(existing, value)
+        : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
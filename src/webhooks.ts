@@ -1,414 +1,1307 @@
-import type { EventHandler, NormalizedEvent, Provider } from "./types.js";
+import type {
+  DisputeClosedEvent,
+  DisputeCreatedEvent,
+  DisputeUpdatedEvent,
+  EventForPattern,
+  EventHandler,
+  EventPattern,
+  EventType,
+  NormalizedEvent,
+  PaymentFailedEvent,
+  PaymentPartiallyRefundedEvent,
+  PaymentRefundedEvent,
+  PaymentSucceededEvent,
+  Provider,
+  SubscriptionCancelledEvent,
+  SubscriptionCreatedEvent,
+  SubscriptionDeletedEvent,
+  SubscriptionPastDueEvent,
+  SubscriptionPausedEvent,
+  SubscriptionRenewedEvent,
+  SubscriptionResumedEvent,
+  SubscriptionTrialEndedEvent,
+  SubscriptionTrialWillEndEvent,
+  SubscriptionUpdatedEvent,
+  WebhookVerificationFailure,
+} from "./types.js";
+import type { PaymentProvider } from "./providers/types.js";
 import { normalizeEvent } from "./events.js";
-import { getProvider } from "./providers/factory.js";
-
-// Event handler registry
-const handlers: Map<string, EventHandler[]> = new Map();
+import {
+  createMemoryEventStore,
+  DEFAULT_EVENT_RETENTION_SECONDS,
+  type EventStore,
+} from "./event-store.js";
+import {
+  getProvider,
+  normalizeProviderName,
+  type ProviderName,
+} from "./providers/factory.js";
+import { isSandbox, parseSecretList, readEnv } from "./providers/env.js";
+import { MOCK_WEBHOOK_HEADERS } from "./providers/mock.js";
+import { ConfigurationError } from "./errors.js";
+import { sha256, toHex, toText } from "./crypto.js";
 
 /**
- * Registers a handler for payment success events
- *
- * @param handler - Function to call when payment succeeds
- *
- * @example
- * ```ts
- * pay.onPaymentSuccess((event) => {
- *   console.log('Payment succeeded:', event);
- * });
- * ```
+ * Web Fetch API Headers object
  */
-export function onPaymentSuccess(handler: EventHandler): void {
-  if (!handlers.has("payment.success")) {
-    handlers.set("payment.success", []);
-  }
-  handlers.get("payment.success")!.push(handler);
+interface FetchHeaders {
+  get(name: string): string | null;
+  forEach(callback: (value: string, key: string) => void): void;
 }
 
 /**
- * Registers a handler for payment failure events
- *
- * @param handler - Function to call when payment fails
- *
- * @example
- * ```ts
- * pay.onPaymentFailed((event) => {
- *   console.log('Payment failed:', event);
- * });
- * ```
+ * Request headers as a plain object, [name, value] pairs or a Fetch API Headers object
  */
-export function onPaymentFailed(handler: EventHandler): void {
-  if (!handlers.has("payment.failed")) {
-    handlers.set("payment.failed", []);
-  }
-  handlers.get("payment.failed")!.push(handler);
+export type WebhookHeaders =
+  | Record<string, string>
+  | string[][]
+  | { [key: string]: string }
+  | FetchHeaders;
+
+/**
+ * Webhook request type - compatible with Express, Fetch API, and other frameworks
+ */
+export interface WebhookRequest {
+  body: unknown;
+  headers: WebhookHeaders;
+  rawBody?: string | Uint8Array;
+}
+
+interface ExpressRequest {
+  body: unknown;
+  headers:
+    | Record<string, string | string[] | undefined>
+    | { [key: string]: string | string[] | undefined };
+  rawBody?: string | Uint8Array;
 }
 
 /**
- * Registers a handler for subscription creation events
- *
- * @param handler - Function to call when subscription is created
- *
- * @example
- * ```ts
- * pay.onSubscriptionCreated((event) => {
- *   console.log('Subscription created:', event);
- * });
- * ```
+ * Fetch API Request, as passed by Next.js App Router, Remix, Hono and Bun handlers
+ * The body is read as raw bytes so the signature is checked against exactly what was sent.
  */
-export function onSubscriptionCreated(handler: EventHandler): void {
-  if (!handlers.has("subscription.created")) {
-    handlers.set("subscription.created", []);
-  }
-  handlers.get("subscription.created")!.push(handler);
+interface FetchRequest {
+  headers: WebhookHeaders;
+  text(): Promise<string>;
+  arrayBuffer?(): Promise<ArrayBuffer>;
 }
 
 /**
- * Registers a handler for subscription cancellation events
- *
- * @param handler - Function to call when subscription is cancelled
- *
- * @example
- * ```ts
- * pay.onSubscriptionCancelled((event) => {
- *   console.log('Subscription cancelled:', event);
- * });
- * ```
+ * Any request shape accepted by webhook.process()
  */
-export function onSubscriptionCancelled(handler: EventHandler): void {
-  if (!handlers.has("subscription.cancelled")) {
-    handlers.set("subscription.cancelled", []);
-  }
-  handlers.get("subscription.cancelled")!.push(handler);
+type IncomingWebhookRequest =
+  | WebhookRequest
+  | ExpressRequest
+  | FetchRequest
+  | {
+      json(): Promise<unknown>;
+      headers: WebhookHeaders;
+    };
+
+/**
+ * Request contents read once, before verification
+ */
+interface ReceivedWebhook {
+  /** Header values by lowercase name */
+  headers: Record<string, string>;
+  /** Body bytes the signature is computed over */
+  rawPayload: string | Uint8Array;
+  /** Parses the event once the signature has been checked */
+  parseEvent(): unknown;
 }
 
 /**
- * Registers a handler for subscription update events
- *
- * @param handler - Function to call when subscription is updated
- *
- * @example
- * ```ts
- * pay.onSubscriptionUpdated((event) => {
- *   console.log('Subscription updated:', event);
- * });
- * ```
+ * Response returned by webhook.process()
  */
-export function onSubscriptionUpdated(handler: EventHandler): void {
-  if (!handlers.has("subscription.updated")) {
-    handlers.set("subscription.updated", []);
-  }
-  handlers.get("subscription.updated")!.push(handler);
+export interface WebhookResponse {
+  status: number;
+  body: { received: boolean; duplicate?: boolean };
+  /**
+   * Index of the webhook secret that verified the request
+   * Anything above 0 means the provider still signs with an older secret
+   */
+  secretIndex?: number;
+  /**
+   * Why the request failed verification, set on 400, 401 and 503 responses
+   */
+  reason?: WebhookVerificationFailure;
 }
 
 /**
- * Registers a handler for subscription deletion events
- *
- * @param handler - Function to call when subscription is deleted
- *
- * @example
- * ```ts
- * pay.onSubscriptionDeleted((event) => {
- *   console.log('Subscription deleted:', event);
- * });
- * ```
+ * Options for webhook processing
  */
-export function onSubscriptionDeleted(handler: EventHandler): void {
-  if (!handlers.has("subscription.deleted")) {
-    handlers.set("subscription.deleted", []);
-  }
-  handlers.get("subscription.deleted")!.push(handler);
+export interface WebhookOptions {
+  /**
+   * Store used to skip events that were already processed
+   * Defaults to an in-memory store; pass null to run handlers on every delivery
+   */
+  eventStore?: EventStore | null;
+  /**
+   * How long processed event IDs are remembered, in seconds (defaults to 3 days)
+   */
+  retentionSeconds?: number;
+  /**
+   * How handlers are run (defaults to "await")
+   * - "await": handlers finish before process() returns; a failure or timeout returns 500 so the provider redelivers
+   * - "background": process() returns 200 immediately and handler errors are only logged
+   */
+  dispatch?: WebhookDispatchMode;
+  /**
+   * Maximum time each handler may run in "await" mode, in milliseconds (defaults to 10 seconds)
+   */
+  handlerTimeoutMs?: number;
+  /**
+   * Rejects requests that cannot be verified
+   * Defaults to true unless PAYLAYER_ENVIRONMENT is sandbox or test, read on
+   * every call; the mock provider is exempt unless strict is set explicitly.
+   * - a missing webhook secret throws a ConfigurationError when handlers are
+   *   registered, and requests return 500 until one is configured
+   * - a request without a signature returns 400
+   * - a malformed signature header returns 400
+   * - an invalid signature or expired timestamp returns 401
+   * When off, requests are only verified if both a secret and a signature are present.
+   */
+  strict?: boolean;
+  /**
+   * Accepts unsigned requests in strict mode (defaults to false)
+   * Only honored for the mock provider and in sandbox mode, for local testing.
+   */
+  allowUnsigned?: boolean;
+  /**
+   * Clock used for signature timestamp checks, in milliseconds (defaults to Date.now)
+   * Override in tests to verify recorded deliveries.
+   */
+  clock?: () => number;
 }
 
 /**
- * Registers a handler for subscription pause events
- *
- * @param handler - Function to call when subscription is paused
- *
- * @example
- * ```ts
- * pay.onSubscriptionPaused((event) => {
- *   console.log('Subscription paused:', event);
- * });
- * ```
+ * Options for handlers registered with webhook.on() and webhook.once()
  */
-export function onSubscriptionPaused(handler: EventHandler): void {
-  if (!handlers.has("subscription.paused")) {
-    handlers.set("subscription.paused", []);
-  }
-  handlers.get("subscription.paused")!.push(handler);
+export interface WebhookHandlerOptions {
+  /**
+   * Handlers with a higher priority run first (defaults to 0)
+   * Handlers of equal priority run concurrently, and each priority finishes
+   * before the next one starts.
+   */
+  priority?: number;
 }
 
 /**
- * Registers a handler for subscription resume events
- *
- * @param handler - Function to call when subscription is resumed
- *
- * @example
- * ```ts
- * pay.onSubscriptionResumed((event) => {
- *   console.log('Subscription resumed:', event);
- * });
- * ```
+ * How webhook handlers are run relative to the response
  */
-export function onSubscriptionResumed(handler: EventHandler): void {
-  if (!handlers.has("subscription.resumed")) {
-    handlers.set("subscription.resumed", []);
-  }
-  handlers.get("subscription.resumed")!.push(handler);
+export type WebhookDispatchMode = "await" | "background";
+
+/**
+ * Default per-handler timeout: providers give up on a delivery after 10-30 seconds
+ */
+export const DEFAULT_HANDLER_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Picks the provider instance and secrets used to handle a webhook request
+ */
+export interface WebhookProviderResolver {
+  /**
+   * @param detectedProvider - Provider detected from the request's signature headers, if any
+   */
+  resolve(detectedProvider: ProviderName | undefined): {
+    providerName: Provider;
+    provider: PaymentProvider;
+    /** Accepted secrets, newest first */
+    webhookSecrets: string[];
+  };
 }
 
 /**
- * Webhook request type - compatible with Express, Fetch API, and other frameworks
+ * Webhook API surface: handler registration and request processing
  */
-export interface WebhookRequest {
-  body: unknown;
-  headers: Record<string, string> | string[][] | { [key: string]: string };
-  rawBody?: string | Buffer;
+export interface Webhook {
+  /**
+   * Updates webhook processing options
+   *
+   * @example
+   * ```ts
+   * webhook.configure({
+   *   eventStore: createFileEventStore('./data/webhook-events.jsonl'),
+   *   retentionSeconds: 7 * 24 * 60 * 60,
+   * });
+   * ```
+   */
+  configure(options: WebhookOptions): void;
+
+  /**
+   * Registers a handler for events matching a pattern
+   *
+   * @param pattern - Event type, group such as "subscription.*", "*" for every
+   * event, or an array of these
+   * @param handler - Function to call with each matching event
+   * @param options - Handler priority
+   * @returns Function that unregisters the handler
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = webhook.on('*', (event) => {
+   *   auditLog.write(event.type, event.providerEventType);
+   * }, { priority: 10 });
+   * ```
+   */
+  on<TPattern extends EventPattern>(
+    pattern: TPattern | TPattern[],
+    handler: EventHandler<EventForPattern<TPattern>>,
+    options?: WebhookHandlerOptions
+  ): () => void;
+
+  /**
+   * Registers a handler that is removed once it succeeds for a matching event
+   *
+   * If it throws, it stays registered and runs again for the redelivery.
+   * It runs for one event at a time; events arriving meanwhile skip it.
+   *
+   * @param pattern - Event type, group such as "subscription.*", "*" for every
+   * event, or an array of these
+   * @param handler - Function to call with the first matching event
+   * @param options - Handler priority
+   * @returns Function that unregisters the handler if it hasn't succeeded yet
+   *
+   * @example
+   * ```ts
+   * webhook.once('payment.success', (event) => {
+   *   console.log('First payment received:', event.paymentId);
+   * });
+   * ```
+   */
+  once<TPattern extends EventPattern>(
+    pattern: TPattern | TPattern[],
+    handler: EventHandler<EventForPattern<TPattern>>,
+    options?: WebhookHandlerOptions
+  ): () => void;
+
+  /**
+   * Unregisters a handler from the given patterns
+   *
+   * @param pattern - Pattern or patterns the handler was registered with
+   * @param handler - Handler passed to on(), once() or an onX function
+   *
+   * @example
+   * ```ts
+   * webhook.off('subscription.*', handleSubscription);
+   * ```
+   */
+  off<TPattern extends EventPattern>(
+    pattern: TPattern | TPattern[],
+    handler: EventHandler<EventForPattern<TPattern>>
+  ): void;
+
+  /**
+   * Unregisters every handler for a pattern, or every handler at all
+   *
+   * @param pattern - Pattern to clear (defaults to all handlers, including onUnhandled ones)
+   *
+   * @example
+   * ```ts
+   * afterEach(() => {
+   *   webhook.removeAllHandlers();
+   * });
+   * ```
+   */
+  removeAllHandlers(pattern?: EventPattern): void;
+
+  /**
+   * Registers a handler for payment success events
+   *
+   * @param handler - Function to call when payment succeeds
+   *
+   * @example
+   * ```ts
+   * webhook.onPaymentSuccess((event) => {
+   *   console.log('Payment succeeded:', event);
+   * });
+   * ```
+   */
+  onPaymentSuccess(handler: EventHandler<PaymentSucceededEvent>): void;
+
+  /**
+   * Registers a handler for payment failure events
+   *
+   * @param handler - Function to call when payment fails
+   *
+   * @example
+   * ```ts
+   * webhook.onPaymentFailed((event) => {
+   *   console.log('Payment failed:', event);
+   * });
+   * ```
+   */
+  onPaymentFailed(handler: EventHandler<PaymentFailedEvent>): void;
+
+  /**
+   * Registers a handler for subscription creation events
+   *
+   * @param handler - Function to call when subscription is created
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionCreated((event) => {
+   *   console.log('Subscription created:', event);
+   * });
+   * ```
+   */
+  onSubscriptionCreated(handler: EventHandler<SubscriptionCreatedEvent>): void;
+
+  /**
+   * Registers a handler for subscription cancellation events
+   *
+   * @param handler - Function to call when subscription is cancelled
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionCancelled((event) => {
+   *   console.log('Subscription cancelled:', event);
+   * });
+   * ```
+   */
+  onSubscriptionCancelled(
+    handler: EventHandler<SubscriptionCancelledEvent>
+  ): void;
+
+  /**
+   * Registers a handler for subscription update events
+   *
+   * @param handler - Function to call when subscription is updated
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionUpdated((event) => {
+   *   console.log('Subscription updated:', event);
+   * });
+   * ```
+   */
+  onSubscriptionUpdated(handler: EventHandler<SubscriptionUpdatedEvent>): void;
+
+  /**
+   * Registers a handler for subscription deletion events
+   *
+   * @param handler - Function to call when subscription is deleted
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionDeleted((event) => {
+   *   console.log('Subscription deleted:', event);
+   * });
+   * ```
+   */
+  onSubscriptionDeleted(handler: EventHandler<SubscriptionDeletedEvent>): void;
+
+  /**
+   * Registers a handler for subscription pause events
+   *
+   * @param handler - Function to call when subscription is paused
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionPaused((event) => {
+   *   console.log('Subscription paused:', event);
+   * });
+   * ```
+   */
+  onSubscriptionPaused(handler: EventHandler<SubscriptionPausedEvent>): void;
+
+  /**
+   * Registers a handler for subscription resume events
+   *
+   * @param handler - Function to call when subscription is resumed
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionResumed((event) => {
+   *   console.log('Subscription resumed:', event);
+   * });
+   * ```
+   */
+  onSubscriptionResumed(handler: EventHandler<SubscriptionResumedEvent>): void;
+
+  /**
+   * Registers a handler for subscription renewal payments
+   *
+   * First payments are reported as payment.success; renewals carry the newly
+   * paid billing period in `event.currentPeriodStart` and `event.currentPeriodEnd`.
+   *
+   * @param handler - Function to call when a subscription renews
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionRenewed((event) => {
+   *   console.log('Subscription renewed until:', event.currentPeriodEnd);
+   * });
+   * ```
+   */
+  onSubscriptionRenewed(handler: EventHandler<SubscriptionRenewedEvent>): void;
+
+  /**
+   * Registers a handler for upcoming trial ends (Stripe sends it three days before)
+   *
+   * @param handler - Function to call when a trial is about to end
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionTrialWillEnd((event) => {
+   *   console.log('Trial ends at:', event.trialEndsAt);
+   * });
+   * ```
+   */
+  onSubscriptionTrialWillEnd(
+    handler: EventHandler<SubscriptionTrialWillEndEvent>
+  ): void;
+
+  /**
+   * Registers a handler for subscriptions leaving their trial
+   *
+   * @param handler - Function to call when a trial ends
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionTrialEnded((event) => {
+   *   console.log('Trial ended:', event.subscriptionId, event.status);
+   * });
+   * ```
+   */
+  onSubscriptionTrialEnded(
+    handler: EventHandler<SubscriptionTrialEndedEvent>
+  ): void;
+
+  /**
+   * Registers a handler for subscriptions whose renewal payment failed
+   *
+   * @param handler - Function to call when a subscription becomes past due
+   *
+   * @example
+   * ```ts
+   * webhook.onSubscriptionPastDue((event) => {
+   *   console.log('Subscription past due:', event.subscriptionId);
+   * });
+   * ```
+   */
+  onSubscriptionPastDue(handler: EventHandler<SubscriptionPastDueEvent>): void;
+
+  /**
+   * Registers a handler for refund events, full or partial
+   *
+   * `event.type` is "payment.refunded" or "payment.partially_refunded", and
+   * `event.refundedAmount` holds the total refunded so far.
+   *
+   * @param handler - Function to call when a payment is refunded
+   *
+   * @example
+   * ```ts
+   * webhook.onRefund((event) => {
+   *   console.log('Refunded:', event.paymentId, event.refundedAmount);
+   * });
+   * ```
+   */
+  onRefund(
+    handler: EventHandler<PaymentRefundedEvent | PaymentPartiallyRefundedEvent>
+  ): void;
+
+  /**
+   * Registers a handler for new disputes and chargebacks
+   *
+   * @param handler - Function to call when a payment is disputed
+   *
+   * @example
+   * ```ts
+   * webhook.onDisputeCreated((event) => {
+   *   console.log('Disputed:', event.disputeReason, event.evidenceDueBy);
+   * });
+   * ```
+   */
+  onDisputeCreated(handler: EventHandler<DisputeCreatedEvent>): void;
+
+  /**
+   * Registers a handler for dispute status and evidence changes
+   *
+   * @param handler - Function to call when a dispute is updated
+   *
+   * @example
+   * ```ts
+   * webhook.onDisputeUpdated((event) => {
+   *   console.log('Dispute updated:', event.disputeId, event.status);
+   * });
+   * ```
+   */
+  onDisputeUpdated(handler: EventHandler<DisputeUpdatedEvent>): void;
+
+  /**
+   * Registers a handler for resolved disputes, won or lost
+   *
+   * @param handler - Function to call when a dispute is closed
+   *
+   * @example
+   * ```ts
+   * webhook.onDisputeClosed((event) => {
+   *   console.log('Dispute closed:', event.disputeId, event.status);
+   * });
+   * ```
+   */
+  onDisputeClosed(handler: EventHandler<DisputeClosedEvent>): void;
+
+  /**
+   * Registers a handler for events that no other handler is registered for
+   *
+   * This includes every "unknown" event, i.e. provider events with no PayLayer
+   * equivalent; `event.providerEventType` holds the provider's event name.
+   * Handlers registered for "*" don't count, so an audit log doesn't hide
+   * unhandled events.
+   *
+   * @param handler - Function to call when an event has no registered handlers
+   *
+   * @example
+   * ```ts
+   * webhook.onUnhandled((event) => {
+   *   console.log('Unhandled webhook event:', event.providerEventType);
+   * });
+   * ```
+   */
+  onUnhandled(handler: EventHandler): void;
+
+  /**
+   * Processes a webhook request from a payment provider
+   *
+   * This function:
+   * 1. Verifies the webhook signature using provider-specific verification
+   * 2. Skips events that were already processed (returns 200 with duplicate: true)
+   *    and answers 409 while another delivery of the event is being processed
+   * 3. Normalizes the provider-specific event ("unknown" if it lacks a field
+   *    its event type guarantees)
+   * 4. Runs registered event handlers (awaited unless dispatch is "background")
+   * 5. Returns 200 once handlers succeed, or 500 if a handler fails or times out
+   *    so the provider redelivers the event
+   *
+   * @param req - Webhook request (Request object or compatible)
+   * @returns Promise resolving to response status and body
+   *
+   * @example
+   * ```ts
+   * // Express.js example
+   * app.post('/webhooks/paylayer', async (req, res) => {
+   *   const result = await webhook.process(req);
+   *   res.status(result.status).json(result.body);
+   * });
+   * ```
+   */
+  process(req: IncomingWebhookRequest): Promise<WebhookResponse>;
 }
 
-interface ExpressRequest {
-  body: unknown;
-  headers:
-    | Record<string, string | string[] | undefined>
-    | { [key: string]: string | string[] | undefined };
-  rawBody?: string | Buffer;
+function isFetchHeaders(headers: unknown): headers is FetchHeaders {
+  return (
+    typeof headers === "object" &&
+    headers !== null &&
+    typeof (headers as FetchHeaders).get === "function" &&
+    typeof (headers as FetchHeaders).forEach === "function"
+  );
 }
 
 /**
- * Processes a webhook request from a payment provider
- *
- * This function:
- * 1. Verifies the webhook signature using provider-specific verification
- * 2. Normalizes the provider-specific event
- * 3. Triggers registered event handlers
- * 4. Always returns 200 if webhook is accepted
- *
- * @param req - Webhook request (Request object or compatible)
- * @returns Promise resolving to response status and body
- *
- * @example
- * ```ts
- * // Express.js example
- * app.post('/webhooks/paylayer', async (req, res) => {
- *   const result = await pay.webhook(req);
- *   res.status(result.status).json(result.body);
- * });
- * ```
+ * Flattens any supported header shape into values keyed by lowercase name
  */
-function normalizeExpressHeaders(
-  headers:
-    | Record<string, string | string[] | undefined>
-    | { [key: string]: string | string[] | undefined }
+function normalizeHeaders(
+  headers: WebhookHeaders | ExpressRequest["headers"] | undefined
 ): Record<string, string> {
   const normalized: Record<string, string> = {};
-  for (const [key, value] of Object.entries(headers)) {
-    if (value !== undefined) {
-      normalized[key] = Array.isArray(value) ? value[0] : String(value);
+  if (!headers) {
+    return normalized;
+  }
+
+  if (isFetchHeaders(headers)) {
+    headers.forEach((value, key) => {
+      normalized[key.toLowerCase()] = value;
+    });
+  } else if (Array.isArray(headers)) {
+    for (const [key, value] of headers as [string, string][]) {
+      normalized[key.toLowerCase()] = value;
+    }
+  } else {
+    for (const [key, value] of Object.entries(
+      headers as ExpressRequest["headers"]
+    )) {
+      if (value !== undefined) {
+        normalized[key.toLowerCase()] = Array.isArray(value)
+          ? value[0]
+          : String(value);
+      }
     }
   }
   return normalized;
 }
 
-function isExpressRequest(req: unknown): req is ExpressRequest {
-  if (typeof req !== "object" || req === null) {
-    return false;
+function isFetchRequest(req: unknown): req is FetchRequest {
+  return (
+    typeof req === "object" &&
+    req !== null &&
+    typeof (req as FetchRequest).text === "function" &&
+    !("rawBody" in req)
+  );
+}
+
+/**
+ * Reads the headers and raw body of any supported request shape
+ */
+async function readWebhookRequest(
+  req: IncomingWebhookRequest
+): Promise<ReceivedWebhook> {
+  const headers = normalizeHeaders(req.headers);
+
+  if (isFetchRequest(req)) {
+    // Read the exact bytes: re-serializing parsed JSON changes whitespace and key order
+    const rawPayload = req.arrayBuffer
+      ? new Uint8Array(await req.arrayBuffer())
+      : await req.text();
+    return {
+      headers,
+      rawPayload,
+      parseEvent: () => JSON.parse(toText(rawPayload)),
+    };
+  }
+
+  if ("json" in req && typeof req.json === "function") {
+    const rawEvent = await req.json();
+    return {
+      headers,
+      rawPayload: JSON.stringify(rawEvent),
+      parseEvent: () => rawEvent,
+    };
   }
 
-  const hasBody = "body" in req;
-  const hasHeaders =
-    "headers" in req && typeof (req as any).headers === "object";
-  const hasJson = "json" in req && typeof (req as any).json === "function";
+  if ("body" in req) {
+    const { body, rawBody } = req;
+    // A string or byte body is the unparsed payload, e.g. a Buffer from express.raw()
+    if (typeof body === "string" || body instanceof Uint8Array) {
+      return {
+        headers,
+        rawPayload: rawBody || body,
+        parseEvent: () => JSON.parse(toText(body)),
+      };
+    }
+    return {
+      headers,
+      rawPayload: rawBody || JSON.stringify(body),
+      parseEvent: () => body,
+    };
+  }
 
-  return hasBody && hasHeaders && !hasJson;
+  throw new Error("Invalid webhook request: missing body or json method");
 }
 
-export async function webhook(
-  req:
-    | WebhookRequest
-    | ExpressRequest
-    | {
-        json(): Promise<unknown>;
-        headers:
-          | Record<string, string>
-          | string[][]
-          | { [key: string]: string };
+/**
+ * Creates a webhook API with its own handler registry
+ *
+ * @param resolver - Picks the provider and secret for each incoming request
+ * @param options - Event store, retention and dispatch settings
+ */
+export function createWebhook(
+  resolver: WebhookProviderResolver,
+  options: WebhookOptions = {}
+): Webhook {
+  // Event handler registry, in registration order
+  let registrations: HandlerRegistration[] = [];
+  let unhandledHandlers: EventHandler[] = [];
+  let eventStore: EventStore | null =
+    options.eventStore === undefined
+      ? createMemoryEventStore()
+      : options.eventStore;
+  let retentionSeconds =
+    options.retentionSeconds ?? DEFAULT_EVENT_RETENTION_SECONDS;
+  let dispatch: WebhookDispatchMode = options.dispatch ?? "await";
+  let handlerTimeoutMs = options.handlerTimeoutMs ?? DEFAULT_HANDLER_TIMEOUT_MS;
+  let strict = options.strict;
+  let allowUnsigned = options.allowUnsigned ?? false;
+  let clock = options.clock ?? Date.now;
+
+  // Resolved per call, so environment loaded after import (e.g. by dotenv) applies
+  function isStrict(providerName: Provider): boolean {
+    return strict ?? (providerName !== "mock" && !isSandbox());
+  }
+
+  function canSkipVerification(providerName: Provider): boolean {
+    return (
+      allowUnsigned && (providerName === "mock" || isSandbox(providerName))
+    );
+  }
+
+  // Called when handlers are registered, so a missing secret fails at startup
+  // instead of on the first delivery
+  function assertDefaultProviderVerifiable(): void {
+    if (strict === false || (strict === undefined && isSandbox())) {
+      return;
+    }
+    const { providerName, webhookSecrets } = resolver.resolve(undefined);
+    if (
+      isStrict(providerName) &&
+      webhookSecrets.length === 0 &&
+      !canSkipVerification(providerName)
+    ) {
+      throw createMissingSecretError(providerName);
+    }
+  }
+
+  function configure(newOptions: WebhookOptions): void {
+    if (newOptions.eventStore !== undefined) {
+      eventStore = newOptions.eventStore;
+    }
+    if (newOptions.retentionSeconds !== undefined) {
+      retentionSeconds = newOptions.retentionSeconds;
+    }
+    if (newOptions.dispatch !== undefined) {
+      dispatch = newOptions.dispatch;
+    }
+    if (newOptions.handlerTimeoutMs !== undefined) {
+      handlerTimeoutMs = newOptions.handlerTimeoutMs;
+    }
+    if (newOptions.strict !== undefined) {
+      strict = newOptions.strict;
+    }
+    if (newOptions.allowUnsigned !== undefined) {
+      allowUnsigned = newOptions.allowUnsigned;
+    }
+    if (newOptions.clock !== undefined) {
+      clock = newOptions.clock;
+    }
+    if (registrations.length > 0 || unhandledHandlers.length > 0) {
+      assertDefaultProviderVerifiable();
+    }
+  }
+
+  function register(
+    pattern: EventPattern | EventPattern[],
+    handler: EventHandler,
+    handlerOptions: WebhookHandlerOptions,
+    once: boolean
+  ): () => void {
+    assertDefaultProviderVerifiable();
+    const registration: HandlerRegistration = {
+      patterns: Array.isArray(pattern) ? [...pattern] : [pattern],
+      handler,
+      priority: handlerOptions.priority ?? 0,
+      once,
+      running: false,
+    };
+    registrations.push(registration);
+    return () => {
+      registrations = registrations.filter((entry) => entry !== registration);
+    };
+  }
+
+  function on<TPattern extends EventPattern>(
+    pattern: TPattern | TPattern[],
+    handler: EventHandler<EventForPattern<TPattern>>,
+    handlerOptions: WebhookHandlerOptions = {}
+  ): () => void {
+    return register(pattern, handler as EventHandler, handlerOptions, false);
+  }
+
+  function once<TPattern extends EventPattern>(
+    pattern: TPattern | TPattern[],
+    handler: EventHandler<EventForPattern<TPattern>>,
+    handlerOptions: WebhookHandlerOptions = {}
+  ): () => void {
+    return register(pattern, handler as EventHandler, handlerOptions, true);
+  }
+
+  // Removes patterns from matching registrations, dropping those left with none
+  function removePatterns(
+    patterns: EventPattern[],
+    handler: EventHandler | undefined
+  ): void {
+    for (const registration of registrations) {
+      if (handler === undefined || registration.handler === handler) {
+        registration.patterns = registration.patterns.filter(
+          (pattern) => !patterns.includes(pattern)
+        );
+      }
+    }
+    registrations = registrations.filter(
+      (registration) => registration.patterns.length > 0
+    );
+  }
+
+  function off<TPattern extends EventPattern>(
+    pattern: TPattern | TPattern[],
+    handler: EventHandler<EventForPattern<TPattern>>
+  ): void {
+    removePatterns(
+      Array.isArray(pattern) ? pattern : [pattern],
+      handler as EventHandler
+    );
+  }
+
+  function removeAllHandlers(pattern?: EventPattern): void {
+    if (pattern !== undefined) {
+      removePatterns([pattern], undefined);
+      return;
+    }
+    registrations = [];
+    unhandledHandlers = [];
+  }
+
+  const addHandler =
+    <TPattern extends EventPattern>(pattern: TPattern | TPattern[]) =>
+    (handler: EventHandler<EventForPattern<TPattern>>): void => {
+      on(pattern, handler);
+    };
+
+  // Runs a once handler at most one event at a time, and unregisters it only
+  // after it succeeds so a failed event's redelivery runs it again
+  function runOnce(registration: HandlerRegistration): EventHandler {
+    return async (event) => {
+      // Skip it while another event runs it, or once it has succeeded
+      if (registration.running || !registrations.includes(registration)) {
+        return;
+      }
+      registration.running = true;
+      try {
+        await registration.handler(event);
+        registrations = registrations.filter((entry) => entry !== registration);
+      } finally {
+        registration.running = false;
       }
-): Promise<{ status: number; body: { received: boolean } }> {
-  let normalizedReq: WebhookRequest;
-
-  if (isExpressRequest(req)) {
-    normalizedReq = {
-      body: req.body,
-      headers: normalizeExpressHeaders(req.headers),
-      rawBody: req.rawBody,
     };
-  } else {
-    normalizedReq = req as WebhookRequest;
   }
 
-  const providerName = getProviderFromRequest(normalizedReq);
-  const provider = getProvider();
-
-  let rawEvent: unknown;
-  let rawPayload: string | Buffer;
-
-  if ("json" in normalizedReq && typeof normalizedReq.json === "function") {
-    rawEvent = await normalizedReq.json();
-    rawPayload = JSON.stringify(rawEvent);
-  } else if ("body" in normalizedReq) {
-    rawEvent = normalizedReq.body;
-    if (normalizedReq.rawBody) {
-      rawPayload = normalizedReq.rawBody;
-    } else if (typeof normalizedReq.body === "string") {
-      rawPayload = normalizedReq.body;
-    } else {
-      rawPayload = Buffer.from(JSON.stringify(normalizedReq.body));
+  // Handlers for an event, grouped by priority from highest to lowest
+  function takeHandlers(type: EventType): EventHandler[][] {
+    const matching = registrations.filter((registration) =>
+      registration.patterns.some((pattern) => matchesPattern(pattern, type))
+    );
+
+    // Catch-all handlers see every event, so they don't make an event handled
+    const handled = matching.some((registration) =>
+      registration.patterns.some(
+        (pattern) => pattern !== "*" && matchesPattern(pattern, type)
+      )
+    );
+    const entries = [
+      ...matching
+        .filter((registration) => !registration.running)
+        .map((registration) => ({
+          handler: registration.once
+            ? runOnce(registration)
+            : registration.handler,
+          priority: registration.priority,
+        })),
+      ...(handled
+        ? []
+        : unhandledHandlers.map((handler) => ({ handler, priority: 0 }))),
+    ].sort((a, b) => b.priority - a.priority);
+
+    const groups: EventHandler[][] = [];
+    let groupPriority: number | undefined;
+    for (const entry of entries) {
+      if (entry.priority !== groupPriority) {
+        groups.push([]);
+        groupPriority = entry.priority;
+      }
+      groups[groups.length - 1].push(entry.handler);
     }
-  } else {
-    throw new Error("Invalid webhook request: missing body or json method");
+    return groups;
   }
 
-  const signature = getSignatureFromRequest(normalizedReq, providerName);
-  const allHeaders = extractAllHeaders(normalizedReq);
-  const webhookSecret = getWebhookSecret(providerName);
+  function onUnhandled(handler: EventHandler): void {
+    assertDefaultProviderVerifiable();
+    unhandledHandlers.push(handler);
+  }
 
-  if (webhookSecret && signature) {
-    const isValid = await provider.verifyWebhook(
+  async function processRequest(
+    req: IncomingWebhookRequest
+  ): Promise<WebhookResponse> {
+    const {
+      headers: allHeaders,
       rawPayload,
-      signature,
-      webhookSecret,
-      allHeaders
+      parseEvent,
+    } = await readWebhookRequest(req);
+
+    const { providerName, provider, webhookSecrets } = resolver.resolve(
+      detectProviderFromHeaders(allHeaders)
     );
-    if (!isValid) {
+
+    const signature = getSignatureFromHeaders(allHeaders, providerName);
+
+    if (isStrict(providerName) && !canSkipVerification(providerName)) {
+      if (webhookSecrets.length === 0) {
+        // A configuration problem, not a bad request: 500 makes the provider redeliver
+        // eslint-disable-next-line no-console
+        console.error(createMissingSecretError(providerName).message);
+        return {
+          status: 500,
+          body: { received: false },
+        };
+      }
+      if (!signature) {
+        logVerificationFailure(providerName, "missing_signature");
+        return {
+          status: 400,
+          body: { received: false },
+          reason: "missing_signature",
+        };
+      }
+    }
+
+    // Try each accepted secret so deliveries keep verifying while a secret is rotated
+    let secretIndex: number | undefined;
+    if (webhookSecrets.length > 0 && signature) {
+      const now = Math.floor(clock() / 1000);
+      let reason: WebhookVerificationFailure = "invalid_signature";
+      for (let i = 0; i < webhookSecrets.length; i++) {
+        const result = await provider.verifyWebhook(
+          rawPayload,
+          signature,
+          webhookSecrets[i],
+          allHeaders,
+          { now }
+        );
+        if (result.valid) {
+          secretIndex = i;
+          break;
+        }
+        // A secret that couldn't be checked may still be the matching one
+        if (reason !== "verification_unavailable") {
+          reason = result.reason ?? "invalid_signature";
+        }
+      }
+      if (secretIndex === undefined) {
+        logVerificationFailure(providerName, reason);
+        return {
+          status: VERIFICATION_FAILURE_STATUS[reason],
+          body: { received: false },
+          reason,
+        };
+      }
+    }
+
+    // Parse only after verification, so unsigned garbage is never deserialized
+    let rawEvent: unknown;
+    try {
+      rawEvent = parseEvent();
+    } catch {
       return {
-        status: 401,
+        status: 400,
         body: { received: false },
+        secretIndex,
       };
     }
-  }
 
-  const normalizedEvent = normalizeEvent(providerName, rawEvent);
-  const eventHandlers = handlers.get(normalizedEvent.type) || [];
+    // Providers retry deliveries, so only run handlers the first time an event is seen
+    const store = eventStore;
+    const eventKey = `${providerName}:${await getEventId(providerName, rawEvent, allHeaders, rawPayload)}`;
+    if (store) {
+      const claim = await store.claim(eventKey, retentionSeconds);
+      if (claim === "processing") {
+        // Another delivery is still running the handlers; a 409 makes the
+        // provider retry instead of dropping the event if that delivery fails
+        return {
+          status: 409,
+          body: { received: false },
+          secretIndex,
+        };
+      }
+      if (claim === false || claim === "processed") {
+        return {
+          status: 200,
+          body: { received: true, duplicate: true },
+          secretIndex,
+        };
+      }
+    }
+
+    let normalizedEvent: NormalizedEvent;
+    try {
+      normalizedEvent = normalizeEvent(providerName, rawEvent, provider);
+    } catch (error) {
+      await store?.release(eventKey);
+      throw error;
+    }
+    const handlerGroups = takeHandlers(normalizedEvent.type);
+
+    if (dispatch === "background") {
+      // The event is acknowledged now, so a redelivery must not run the handlers again
+      await store?.complete?.(eventKey, retentionSeconds);
 
-  Promise.all(
-    eventHandlers.map(async (handler) => {
-      try {
-        await handler(normalizedEvent);
-      } catch (error) {
+      (async () => {
+        for (const group of handlerGroups) {
+          await Promise.all(
+            group.map(async (handler) => {
+              try {
+                await handler(normalizedEvent);
+              } catch (error) {
+                // eslint-disable-next-line no-console
+                console.error(
+                  `Error in webhook handler for ${normalizedEvent.type}:`,
+                  error
+                );
+              }
+            })
+          );
+        }
+      })().catch((error) => {
         // eslint-disable-next-line no-console
-        console.error(
-          `Error in webhook handler for ${normalizedEvent.type}:`,
-          error
-        );
+        console.error("Error executing webhook handlers:", error);
+      });
+
+      return {
+        status: 200,
+        body: { received: true },
+        secretIndex,
+      };
+    }
+
+    // Lower priorities only run once every higher priority handler has succeeded
+    for (const group of handlerGroups) {
+      const results = await Promise.allSettled(
+        group.map((handler) =>
+          runWithTimeout(
+            () => handler(normalizedEvent),
+            handlerTimeoutMs,
+            `Webhook handler for ${normalizedEvent.type} timed out after ${handlerTimeoutMs}ms`
+          )
+        )
+      );
+      const failures = results.filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
+      );
+
+      if (failures.length > 0) {
+        for (const failure of failures) {
+          // eslint-disable-next-line no-console
+          console.error(
+            `Error in webhook handler for ${normalizedEvent.type}:`,
+            failure.reason
+          );
+        }
+        // Forget the event so the provider's redelivery runs the handlers again
+        await store?.release(eventKey);
+        return {
+          status: 500,
+          body: { received: false },
+          secretIndex,
+        };
       }
-    })
-  ).catch((error) => {
-    // eslint-disable-next-line no-console
-    console.error("Error executing webhook handlers:", error);
-  });
+    }
+
+    await store?.complete?.(eventKey, retentionSeconds);
+    return {
+      status: 200,
+      body: { received: true },
+      secretIndex,
+    };
+  }
 
   return {
-    status: 200,
-    body: { received: true },
+    configure,
+    on,
+    once,
+    off,
+    removeAllHandlers,
+    onPaymentSuccess: addHandler("payment.success"),
+    onPaymentFailed: addHandler("payment.failed"),
+    onSubscriptionCreated: addHandler("subscription.created"),
+    onSubscriptionCancelled: addHandler("subscription.cancelled"),
+    onSubscriptionUpdated: addHandler("subscription.updated"),
+    onSubscriptionDeleted: addHandler("subscription.deleted"),
+    onSubscriptionPaused: addHandler("subscription.paused"),
+    onSubscriptionResumed: addHandler("subscription.resumed"),
+    onSubscriptionRenewed: addHandler("subscription.renewed"),
+    onSubscriptionTrialWillEnd: addHandler("subscription.trial_will_end"),
+    onSubscriptionTrialEnded: addHandler("subscription.trial_ended"),
+    onSubscriptionPastDue: addHandler("subscription.past_due"),
+    onRefund: addHandler(["payment.refunded", "payment.partially_refunded"]),
+    onDisputeCreated: addHandler("dispute.created"),
+    onDisputeUpdated: addHandler("dispute.updated"),
+    onDisputeClosed: addHandler("dispute.closed"),
+    onUnhandled,
+    process: processRequest,
   };
 }
 
-function getProviderFromRequest(req: WebhookRequest): Provider {
-  const envProvider = process.env.PAYLAYER_PROVIDER;
-  if (envProvider) {
-    return envProvider;
-  }
-
-  const headers = "headers" in req ? req.headers : {};
-  if (Array.isArray(headers)) {
-    const headerMap = new Map(headers as [string, string][]);
-    if (headerMap.has("stripe-signature")) return "stripe";
-    if (headerMap.has("paddle-signature")) return "paddle";
-    if (
-      headerMap.has("paypal-transmission-sig") ||
-      headerMap.has("paypal-transmission-id")
-    )
-      return "paypal";
-    if (headerMap.has("X-Signature")) return "lemonsqueezy";
-    if (headerMap.has("x-polar-signature")) return "polar";
-  } else {
-    const headerObj = headers as Record<string, string>;
-    const lowerHeaders: Record<string, string> = {};
-    for (const key in headerObj) {
-      lowerHeaders[key.toLowerCase()] = headerObj[key];
-    }
-    if (lowerHeaders["stripe-signature"]) return "stripe";
-    if (lowerHeaders["paddle-signature"]) return "paddle";
-    if (
-      lowerHeaders["paypal-transmission-sig"] ||
-      lowerHeaders["paypal-transmission-id"]
-    )
-      return "paypal";
-    if (lowerHeaders["x-signature"]) return "lemonsqueezy";
-    if (lowerHeaders["x-polar-signature"]) return "polar";
-  }
+/**
+ * Default webhook API, using the provider and secrets configured through environment variables
+ */
+export const webhook: Webhook = createWebhook({
+  resolve(detectedProvider) {
+    const envProvider = readEnv("PAYLAYER_PROVIDER");
+    const providerName = envProvider
+      ? normalizeProviderName(envProvider)
+      : detectedProvider || "mock";
+    return {
+      providerName,
+      provider: getProvider(),
+      webhookSecrets: getWebhookSecretsFromEnv(providerName),
+    };
+  },
+});
 
-  return "mock";
+interface HandlerRegistration {
+  patterns: EventPattern[];
+  handler: EventHandler;
+  priority: number;
+  once: boolean;
+  /** Set while a once handler runs */
+  running: boolean;
 }
 
-function extractAllHeaders(req: WebhookRequest): Record<string, string> {
-  const headers = "headers" in req ? req.headers : {};
-  const normalized: Record<string, string> = {};
+/**
+ * Checks whether an event type matches a handler pattern
+ */
+function matchesPattern(pattern: EventPattern, type: EventType): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  if (pattern.endsWith(".*")) {
+    return type.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === type;
+}
 
-  if (Array.isArray(headers)) {
-    for (const [key, value] of headers as [string, string][]) {
-      normalized[key.toLowerCase()] = value;
-    }
-  } else {
-    const headerObj = headers as Record<string, string>;
-    for (const key in headerObj) {
-      normalized[key.toLowerCase()] = headerObj[key];
-    }
+/**
+ * Runs a handler, rejecting if it does not settle within the timeout
+ */
+async function runWithTimeout(
+  run: () => void | Promise<void>,
+  timeoutMs: number,
+  message: string
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  try {
+    await Promise.race([Promise.resolve().then(run), timeout]);
+  } finally {
+    clearTimeout(timer);
   }
+}
 
-  return normalized;
+/**
+ * Detects the sending provider from its signature headers
+ *
+ * @param headers - Header values by lowercase name
+ */
+function detectProviderFromHeaders(
+  headers: Record<string, string>
+): ProviderName | undefined {
+  if (headers["stripe-signature"]) return "stripe";
+  if (headers["paddle-signature"]) return "paddle";
+  if (headers["paypal-transmission-sig"] || headers["paypal-transmission-id"])
+    return "paypal";
+  if (headers["x-signature"]) return "lemonsqueezy";
+  if (headers[MOCK_WEBHOOK_HEADERS.signature]) return "mock";
+  // Standard Webhooks headers; Polar is the only supported provider sending them
+  if (headers["webhook-signature"]) return "polar";
+
+  return undefined;
 }
 
-function getSignatureFromRequest(
-  req: WebhookRequest,
+const SIGNATURE_HEADERS: Record<string, string> = {
+  stripe: "stripe-signature",
+  paddle: "paddle-signature",
+  paypal: "paypal-transmission-sig",
+  lemonsqueezy: "x-signature",
+  polar: "webhook-signature",
+  mock: MOCK_WEBHOOK_HEADERS.signature,
+};
+
+/**
+ * Gets the provider's signature header value
+ *
+ * @param headers - Header values by lowercase name
+ */
+function getSignatureFromHeaders(
+  headers: Record<string, string>,
   providerName: Provider
 ): string {
-  const headers = "headers" in req ? req.headers : {};
-  const signatureHeaders: Record<string, string> = {
-    stripe: "stripe-signature",
-    paddle: "paddle-signature",
-    paypal: "paypal-transmission-sig",
-    lemonsqueezy: "X-Signature",
-    polar: "x-polar-signature",
-  };
+  const headerName = SIGNATURE_HEADERS[providerName.toLowerCase()];
+  return (headerName && headers[headerName]) || "";
+}
 
-  const headerName = signatureHeaders[providerName.toLowerCase()];
-  if (!headerName) {
-    return "";
-  }
+const WEBHOOK_SECRET_ENV_VARS: Record<string, string> = {
+  stripe: "STRIPE_WEBHOOK_SECRET",
+  paddle: "PADDLE_WEBHOOK_SECRET",
+  paypal: "PAYPAL_WEBHOOK_ID",
+  lemonsqueezy: "LEMONSQUEEZY_WEBHOOK_SECRET",
+  polar: "POLAR_WEBHOOK_SECRET",
+  mock: "PAYLAYER_MOCK_WEBHOOK_SECRET",
+};
 
-  if (Array.isArray(headers)) {
-    const headerMap = new Map(headers as [string, string][]);
-    return headerMap.get(headerName) || "";
-  } else {
-    const headerObj = headers as Record<string, string>;
-    const lowerHeaders: Record<string, string> = {};
-    for (const key in headerObj) {
-      lowerHeaders[key.toLowerCase()] = headerObj[key];
-    }
-    return lowerHeaders[headerName.toLowerCase()] || "";
-  }
+/**
+ * Gets a provider's webhook secrets from its environment variable
+ * Several secrets can be listed, comma-separated and newest first, while rotating
+ */
+export function getWebhookSecretsFromEnv(providerName: Provider): string[] {
+  const envVar = WEBHOOK_SECRET_ENV_VARS[providerName.toLowerCase()];
+  return (envVar && parseSecretList(readEnv(envVar))) || [];
 }
 
-function getWebhookSecret(providerName: Provider): string {
-  const secretEnvVars: Record<string, string> = {
-    stripe: "STRIPE_WEBHOOK_SECRET",
-    paddle: "PADDLE_WEBHOOK_SECRET",
-    paypal: "PAYPAL_WEBHOOK_ID",
-    lemonsqueezy: "LEMONSQUEEZY_WEBHOOK_SECRET",
-    polar: "POLAR_WEBHOOK_SECRET",
+/**
+ * Error for strict mode when a provider's webhooks cannot be verified
+ */
+function createMissingSecretError(providerName: Provider): ConfigurationError {
+  const envVar = WEBHOOK_SECRET_ENV_VARS[providerName.toLowerCase()];
+  const message = envVar
+    ? `Webhook secret for ${providerName} is not configured. Set ${envVar} (or the provider's ${providerName === "paypal" ? "webhookId" : "webhookSecret"} option), or pass allowUnsigned: true for local testing in sandbox mode.`
+    : `${providerName} webhooks are not signed. Pass allowUnsigned: true to accept them.`;
+  return new ConfigurationError(message, { provider: providerName });
+}
+
+/**
+ * Response status for each verification failure; verification_unavailable is
+ * a 5xx so the provider redelivers once verification works again
+ */
+const VERIFICATION_FAILURE_STATUS: Record<WebhookVerificationFailure, number> =
+  {
+    missing_signature: 400,
+    malformed_header: 400,
+    timestamp_expired: 401,
+    invalid_signature: 401,
+    verification_unavailable: 503,
   };
 
-  const envVar = secretEnvVars[providerName.toLowerCase()];
-  return envVar ? process.env[envVar] || "" : "";
+/**
+ * Logs why a webhook request was rejected, without the payload or signature
+ */
+function logVerificationFailure(
+  providerName: Provider,
+  reason: WebhookVerificationFailure
+): void {
+  // eslint-disable-next-line no-console
+  console.warn(`Webhook verification failed for ${providerName}: ${reason}`);
+}
+
+/**
+ * Gets the ID that identifies an event across delivery retries
+ *
+ * Stripe, Paddle, PayPal and the mock server include an event ID in the payload and Polar sends it
+ * in the webhook-id header. Lemon Squeezy has no event ID, so a hash of the raw
+ * payload is used instead (retries resend the same payload).
+ */
+async function getEventId(
+  providerName: Provider,
+  rawEvent: unknown,
+  headers: Record<string, string>,
+  rawPayload: string | Uint8Array
+): Promise<string> {
+  const event = (rawEvent || {}) as { id?: unknown; event_id?: unknown };
+
+  switch (providerName) {
+    case "stripe":
+    case "paypal":
+    case "mock":
+      if (typeof event.id === "string" && event.id) return event.id;
+      break;
+    case "paddle":
+      if (typeof event.event_id === "string" && event.event_id) {
+        return event.event_id;
+      }
+      break;
+    case "polar":
+      if (headers["webhook-id"]) return headers["webhook-id"];
+      break;
+  }
+
+  return toHex(await sha256(rawPayload));
 }
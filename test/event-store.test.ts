@@ -0,0 +1,160 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createFileEventStore,
+  createMemoryEventStore,
+  createSqliteEventStore,
+  type EventStore,
+  type SqliteDatabase,
+} from "../src/event-store.js";
+
+// node:sqlite ships with Node.js 22.5 and later
+const sqlite = await import("node:sqlite").catch(() => null);
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "paylayer-events-"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(directory, { recursive: true, force: true });
+});
+
+const stores: Array<[string, () => EventStore]> = [
+  ["memory", () => createMemoryEventStore()],
+  ["file", () => createFileEventStore(join(directory, "events.jsonl"))],
+];
+if (sqlite) {
+  stores.push([
+    "sqlite",
+    () =>
+      createSqliteEventStore(
+        new sqlite.DatabaseSync(":memory:") as unknown as SqliteDatabase
+      ),
+  ]);
+}
+
+describe.each(stores)("%s event store", (_name, createStore) => {
+  it("claims an event once", async () => {
+    const store = createStore();
+    expect(await store.claim("stripe:evt_1", 60)).toBe("claimed");
+    expect(await store.claim("stripe:evt_2", 60)).toBe("claimed");
+  });
+
+  it("reports an event as processing until it completes", async () => {
+    const store = createStore();
+    await store.claim("stripe:evt_1", 60);
+    expect(await store.claim("stripe:evt_1", 60)).toBe("processing");
+
+    await store.complete?.("stripe:evt_1", 60);
+    expect(await store.claim("stripe:evt_1", 60)).toBe("processed");
+  });
+
+  it("lets a released event be claimed again", async () => {
+    const store = createStore();
+    await store.claim("stripe:evt_1", 60);
+    await store.release("stripe:evt_1");
+    expect(await store.claim("stripe:evt_1", 60)).toBe("claimed");
+
+    await store.complete?.("stripe:evt_1", 60);
+    await store.release("stripe:evt_1");
+    expect(await store.claim("stripe:evt_1", 60)).toBe("claimed");
+  });
+
+  it("forgets processed events after the retention window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const store = createStore();
+    await store.claim("stripe:evt_1", 60);
+    await store.complete?.("stripe:evt_1", 60);
+
+    vi.setSystemTime(Date.now() + 59_000);
+    expect(await store.claim("stripe:evt_1", 60)).toBe("processed");
+    vi.setSystemTime(Date.now() + 2_000);
+    expect(await store.claim("stripe:evt_1", 60)).toBe("claimed");
+  });
+});
+
+describe("file event store", () => {
+  it("keeps processed events across instances", async () => {
+    const path = join(directory, "events.jsonl");
+    const first = createFileEventStore(path);
+    await first.claim("polar:msg_1", 60);
+    await first.complete?.("polar:msg_1", 60);
+
+    const second = createFileEventStore(path);
+    expect(await second.claim("polar:msg_1", 60)).toBe("processed");
+  });
+
+  it("appends a line per processed event", async () => {
+    const path = join(directory, "nested", "events.jsonl");
+    const store = createFileEventStore(path);
+    for (const key of ["a", "b", "c"]) {
+      await store.claim(key, 60);
+      await store.complete?.(key, 60);
+    }
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).key)).toEqual(["a", "b", "c"]);
+  });
+
+  it("rewrites the file without released events", async () => {
+    const path = join(directory, "events.jsonl");
+    const store = createFileEventStore(path);
+    for (const key of ["a", "b"]) {
+      await store.claim(key, 60);
+      await store.complete?.(key, 60);
+    }
+    await store.release("a");
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).key)).toEqual(["b"]);
+  });
+
+  it("serializes concurrent claims", async () => {
+    const store = createFileEventStore(join(directory, "events.jsonl"));
+    const claims = await Promise.all([
+      store.claim("stripe:evt_1", 60),
+      store.claim("stripe:evt_1", 60),
+      store.claim("stripe:evt_1", 60),
+    ]);
+    expect(claims.sort()).toEqual(["claimed", "processing", "processing"]);
+  });
+});
+
+describe.runIf(sqlite)("sqlite event store", () => {
+  it("shares claims between stores on the same database", () => {
+    const db = new sqlite!.DatabaseSync(
+      join(directory, "events.db")
+    ) as unknown as SqliteDatabase;
+    const first = createSqliteEventStore(db);
+    const second = createSqliteEventStore(db);
+
+    expect(first.claim("stripe:evt_1", 60)).toBe("claimed");
+    expect(second.claim("stripe:evt_1", 60)).toBe("processing");
+  });
+
+  it("expires in-flight claims after the lease", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const store = createSqliteEventStore(
+      new sqlite!.DatabaseSync(":memory:") as unknown as SqliteDatabase,
+      { leaseSeconds: 30 }
+    );
+    store.claim("stripe:evt_1", 60);
+
+    vi.setSystemTime(Date.now() + 31_000);
+    expect(store.claim("stripe:evt_1", 60)).toBe("claimed");
+  });
+
+  it("rejects table names that aren't identifiers", () => {
+    expect(() =>
+      createSqliteEventStore(
+        new sqlite!.DatabaseSync(":memory:") as unknown as SqliteDatabase,
+        { tableName: "events; DROP TABLE users" }
+      )
+    ).toThrow("Invalid event store table name");
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import { normalizeEvent } from "../src/events.js";
+import { simulateWebhook, type EventType } from "../src/index.js";
+import type { PaymentProvider } from "../src/providers/types.js";
+import { StripeProvider } from "../src/providers/stripe.js";
+import { PaddleProvider } from "../src/providers/paddle.js";
+import { LemonSqueezyProvider } from "../src/providers/lemonsqueezy.js";
+import { PolarProvider } from "../src/providers/polar.js";
+import { PayPalProvider } from "../src/providers/paypal.js";
+
+const providers = {
+  stripe: new StripeProvider({ secretKey: "sk_test_123" }),
+  paddle: new PaddleProvider({ apiKey: "pdl_test" }),
+  paypal: new PayPalProvider({
+    clientId: "client",
+    clientSecret: "secret",
+    sandbox: true,
+  }),
+  lemonsqueezy: new LemonSqueezyProvider({ apiKey: "ls_test" }),
+  polar: new PolarProvider({ accessToken: "polar_test" }),
+} satisfies Record<string, PaymentProvider>;
+
+type ProviderName = keyof typeof providers;
+
+// Simulated provider payload, with overrides merged in, run through the normalizer
+async function normalize(
+  provider: ProviderName,
+  type: EventType,
+  overrides?: Record<string, unknown>
+) {
+  const { body } = await simulateWebhook({
+    provider,
+    type,
+    secret: "whsec_dGVzdHNlY3JldA==",
+    overrides,
+  });
+  return normalizeEvent(provider, body, providers[provider]);
+}
+
+describe("Stripe", () => {
+  it("reports paid checkout sessions as payment.success", async () => {
+    expect((await normalize("stripe", "payment.success")).type).toBe(
+      "payment.success"
+    );
+  });
+
+  it("leaves unpaid checkout sessions to the async payment events", async () => {
+    const event = await normalize("stripe", "payment.success", {
+      data: { object: { payment_status: "unpaid" } },
+    });
+    expect(event).toMatchObject({
+      type: "unknown",
+      providerEventType: "checkout.session.completed",
+    });
+
+    expect(
+      (
+        await normalize("stripe", "payment.success", {
+          type: "checkout.session.async_payment_succeeded",
+        })
+      ).type
+    ).toBe("payment.success");
+  });
+
+  it.each([
+    ["subscription_cycle", "subscription.renewed"],
+    ["subscription_create", "unknown"],
+    ["manual", "payment.success"],
+  ])(
+    "maps paid invoices with billing reason %s to %s",
+    async (reason, type) => {
+      const event = await normalize("stripe", "subscription.renewed", {
+        data: { object: { billing_reason: reason } },
+      });
+      expect(event.type).toBe(type);
+    }
+  );
+
+  it.each([
+    [true, "payment.refunded"],
+    [false, "payment.partially_refunded"],
+  ])("maps refunded %s charges to %s", async (refunded, type) => {
+    const event = await normalize("stripe", "payment.refunded", {
+      data: { object: { refunded } },
+    });
+    expect(event.type).toBe(type);
+  });
+});
+
+describe("Paddle", () => {
+  it.each([
+    ["web", "payment.success"],
+    ["subscription_recurring", "subscription.renewed"],
+  ])("maps %s transactions to %s", async (origin, type) => {
+    const event = await normalize("paddle", "subscription.renewed", {
+      data: { origin },
+    });
+    expect(event.type).toBe(type);
+  });
+
+  it.each([
+    ["full", "payment.refunded"],
+    ["partial", "payment.partially_refunded"],
+  ])("maps %s refund adjustments to %s", async (refundType, type) => {
+    const event = await normalize("paddle", "payment.refunded", {
+      data: { type: refundType },
+    });
+    expect(event.type).toBe(type);
+  });
+});
+
+describe("PayPal", () => {
+  it("reports completed captures as payment.success", async () => {
+    expect((await normalize("paypal", "payment.success")).type).toBe(
+      "payment.success"
+    );
+  });
+
+  it("doesn't report pending captures as paid", async () => {
+    const event = await normalize("paypal", "payment.success", {
+      event_type: "PAYMENT.CAPTURE.PENDING",
+      resource: { status: "PENDING" },
+    });
+    expect(event).toMatchObject({
+      type: "unknown",
+      providerEventType: "PAYMENT.CAPTURE.PENDING",
+    });
+  });
+
+  it("reports every refund as partial, since the capture amount is unknown", async () => {
+    const event = await normalize("paypal", "payment.partially_refunded", {
+      resource: {
+        amount: { value: "100.00" },
+        seller_payable_breakdown: {
+          total_refunded_amount: { currency_code: "USD", value: "100.00" },
+        },
+      },
+    });
+    expect(event).toMatchObject({
+      type: "payment.partially_refunded",
+      refundedAmount: 100,
+    });
+  });
+
+  it("maps sales to a billing agreement to subscription.renewed", async () => {
+    expect((await normalize("paypal", "subscription.renewed")).type).toBe(
+      "subscription.renewed"
+    );
+  });
+});
+
+describe("Lemon Squeezy", () => {
+  it.each([
+    ["renewal", "subscription.renewed"],
+    ["initial", "payment.success"],
+  ])(
+    "maps subscription payments with billing reason %s to %s",
+    async (reason, type) => {
+      const event = await normalize("lemonsqueezy", "subscription.renewed", {
+        data: { attributes: { billing_reason: reason } },
+      });
+      expect(event.type).toBe(type);
+    }
+  );
+
+  it.each([
+    ["refunded", "payment.refunded"],
+    ["partial_refund", "payment.partially_refunded"],
+  ])("maps %s orders to %s", async (status, type) => {
+    const event = await normalize("lemonsqueezy", "payment.refunded", {
+      data: { attributes: { status } },
+    });
+    expect(event.type).toBe(type);
+  });
+});
+
+describe("Polar", () => {
+  it.each([
+    ["purchase", "payment.success"],
+    ["subscription_cycle", "subscription.renewed"],
+    ["subscription_create", "unknown"],
+  ])("maps paid orders with billing reason %s to %s", async (reason, type) => {
+    const event = await normalize("polar", "subscription.renewed", {
+      data: { billing_reason: reason },
+    });
+    expect(event.type).toBe(type);
+  });
+
+  it.each(["purchase", "subscription_cycle"])(
+    "waits for %s orders to be paid",
+    async (reason) => {
+      const event = await normalize("polar", "subscription.renewed", {
+        type: "order.created",
+        data: { billing_reason: reason, status: "pending", paid: false },
+      });
+      expect(event).toMatchObject({
+        type: "unknown",
+        providerEventType: "order.created",
+      });
+    }
+  );
+
+  it.each([
+    ["refunded", "payment.refunded"],
+    ["partially_refunded", "payment.partially_refunded"],
+  ])("maps %s orders to %s", async (status, type) => {
+    const event = await normalize("polar", "payment.refunded", {
+      data: { status },
+    });
+    expect(event.type).toBe(type);
+  });
+});
+
+describe("missing required fields", () => {
+  it.each([
+    ["stripe", "payment.success", { data: { object: { currency: null } } }],
+    ["paddle", "payment.success", { data: { currency_code: null } }],
+    ["paypal", "payment.success", { resource: { amount: null } }],
+    ["lemonsqueezy", "payment.success", { data: { id: null } }],
+    ["polar", "subscription.renewed", { data: { currency: null } }],
+  ] as const)(
+    "%s hands %s events without them to onUnhandled as unknown",
+    async (provider, type, overrides) => {
+      expect((await normalize(provider, type)).type).toBe(type);
+
+      const event = await normalize(provider, type, overrides);
+      expect(event.type).toBe("unknown");
+      expect(event.providerEventType).not.toBe("");
+    }
+  );
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, vi } from "vitest";
+import {
+  createPayLayer,
+  type WebhookOptions,
+  type WebhookRequest,
+} from "../src/index.js";
+
+let eventCount = 0;
+
+// Unsigned mock provider delivery, accepted outside strict mode
+export function delivery(
+  type: string,
+  fields: Record<string, unknown> = {}
+): WebhookRequest {
+  const event = { id: `evt_${++eventCount}`, type, ...fields };
+  return {
+    body: event,
+    rawBody: JSON.stringify(event),
+    headers: { "content-type": "application/json" },
+  };
+}
+
+export const payment = () =>
+  delivery("payment.success", {
+    amount: 10,
+    currency: "USD",
+    paymentId: "pay_1",
+  });
+
+export function createWebhook(options: WebhookOptions = {}) {
+  return createPayLayer({ providers: { mock: {} }, webhook: options }).webhook;
+}
+
+// Keeps the handler failures the tests provoke out of the test output
+export function silenceHandlerErrors() {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHttpClient, isRetryableRequest } from "../src/providers/http.js";
+
+const REQUEST_URL = "https://api.example.com/v1/things";
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  fetchMock = vi.fn();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+function respond(status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify({ status }), { status, headers });
+}
+
+// Sends a request and runs the backoff timers until it settles
+async function send(
+  init: RequestInit = { method: "GET" },
+  options = { retry: true },
+  maxRetries?: number
+) {
+  const client = createHttpClient("example", "Example", { maxRetries });
+  const pending = client.fetch(REQUEST_URL, init, options);
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+describe("retries", () => {
+  it.each([429, 500, 503])("retries %s responses", async (status) => {
+    fetchMock
+      .mockResolvedValueOnce(respond(status))
+      .mockResolvedValueOnce(respond(200));
+
+    expect((await send()).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns client errors without retrying", async () => {
+    fetchMock.mockResolvedValue(respond(400));
+
+    expect((await send()).status).toBe(400);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network failures", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(respond(200));
+
+    expect((await send()).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops after maxRetries and returns the last response", async () => {
+    fetchMock.mockResolvedValue(respond(503));
+
+    expect((await send(undefined, undefined, 3)).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("rethrows the last network failure after maxRetries", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    const client = createHttpClient("example", "Example", { maxRetries: 1 });
+    const pending = client.fetch(
+      REQUEST_URL,
+      { method: "GET" },
+      { retry: true }
+    );
+    const assertion = expect(pending).rejects.toThrow("fetch failed");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("unsafe requests", () => {
+  it("only marks POST requests retryable when they carry an idempotency key", () => {
+    expect(isRetryableRequest("GET")).toBe(true);
+    expect(isRetryableRequest("delete")).toBe(true);
+    expect(isRetryableRequest("POST")).toBe(false);
+    expect(isRetryableRequest("POST", "idem_123")).toBe(true);
+  });
+
+  it("sends a POST without an idempotency key once", async () => {
+    fetchMock.mockResolvedValue(respond(503));
+
+    const response = await send(
+      { method: "POST" },
+      { retry: isRetryableRequest("POST") }
+    );
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Retry-After", () => {
+  it("waits the number of seconds the provider asks for", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(429, { "retry-after": "5" }))
+      .mockResolvedValueOnce(respond(200));
+
+    const client = createHttpClient("example", "Example");
+    const pending = client.fetch(
+      REQUEST_URL,
+      { method: "GET" },
+      { retry: true }
+    );
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((await pending).status).toBe(200);
+  });
+
+  it("waits until an HTTP date", async () => {
+    const retryAt = new Date(Date.now() + 10 * 1000).toUTCString();
+    fetchMock
+      .mockResolvedValueOnce(respond(503, { "retry-after": retryAt }))
+      .mockResolvedValueOnce(respond(200));
+
+    const client = createHttpClient("example", "Example");
+    const pending = client.fetch(
+      REQUEST_URL,
+      { method: "GET" },
+      { retry: true }
+    );
+
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await pending).status).toBe(200);
+  });
+
+  it("returns the response when asked to wait longer than a minute", async () => {
+    fetchMock.mockResolvedValue(respond(429, { "retry-after": "120" }));
+
+    expect((await send()).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMockStore,
+  type MockStore,
+} from "../src/providers/mock-store.js";
+import { InvalidRequestError, NotFoundError } from "../src/errors.js";
+
+const BASE_URL = "http://localhost:4242";
+
+let store: MockStore;
+
+beforeEach(() => {
+  store = createMockStore();
+});
+
+function openPayment(amount = 20) {
+  return store.createCheckout(
+    { mode: "payment", amount, currency: "USD", email: "jane@example.com" },
+    BASE_URL
+  );
+}
+
+function openSubscription() {
+  return store.createCheckout(
+    {
+      mode: "subscription",
+      plan: "pro",
+      currency: "USD",
+      email: "jane@example.com",
+    },
+    BASE_URL
+  );
+}
+
+describe("checkouts", () => {
+  it("opens payment checkouts with a pending charge and a customer", () => {
+    const checkout = openPayment();
+
+    expect(checkout).toMatchObject({ status: "open", mode: "payment" });
+    expect(checkout.url).toBe(
+      `${BASE_URL}/checkout/${checkout.id}?provider=mock`
+    );
+    expect(store.getCharge(checkout.chargeId!)).toMatchObject({
+      status: "pending",
+      amount: 20,
+      checkoutId: checkout.id,
+    });
+    expect(store.findCustomerByEmail("jane@example.com")?.id).toBe(
+      checkout.customerId
+    );
+  });
+
+  it.each([
+    ["paid", "completed", "succeeded"],
+    ["declined", "declined", "failed"],
+    ["cancelled", "expired", "failed"],
+  ] as const)(
+    "moves a %s payment checkout to %s with a %s charge",
+    (outcome, checkoutStatus, chargeStatus) => {
+      const checkout = openPayment();
+
+      expect(store.completeCheckout(checkout.id, outcome).status).toBe(
+        checkoutStatus
+      );
+      expect(store.getCharge(checkout.chargeId!)?.status).toBe(chargeStatus);
+    }
+  );
+
+  it("creates the subscription when a subscription checkout is paid", () => {
+    const checkout = openSubscription();
+    expect(checkout.subscriptionId).toBeUndefined();
+
+    const completed = store.completeCheckout(checkout.id, "paid");
+    expect(store.getSubscription(completed.subscriptionId!)).toMatchObject({
+      status: "active",
+      plan: "pro",
+      customerId: checkout.customerId,
+    });
+  });
+
+  it("creates no subscription when a subscription checkout is abandoned", () => {
+    const checkout = openSubscription();
+    expect(
+      store.completeCheckout(checkout.id, "cancelled").subscriptionId
+    ).toBeUndefined();
+  });
+
+  it("only completes open checkouts", () => {
+    const checkout = openPayment();
+    store.completeCheckout(checkout.id);
+
+    expect(() => store.completeCheckout(checkout.id)).toThrow(
+      InvalidRequestError
+    );
+    expect(() => store.completeCheckout("cs_missing")).toThrow(NotFoundError);
+  });
+});
+
+describe("subscriptions", () => {
+  function subscribe() {
+    return store.createSubscription(
+      { plan: "pro", currency: "USD", email: "jane@example.com" },
+      BASE_URL
+    );
+  }
+
+  it("starts subscribe() subscriptions as active", () => {
+    expect(subscribe().status).toBe("active");
+  });
+
+  it.each([
+    ["declined", "past_due"],
+    ["cancelled", "cancelled"],
+  ] as const)(
+    "marks the subscription %s when its checkout is %s",
+    (outcome, status) => {
+      const subscription = subscribe();
+      const checkout = Object.values(store.snapshot().checkouts).find(
+        (entry) => entry.subscriptionId === subscription.id
+      )!;
+
+      store.completeCheckout(checkout.id, outcome);
+      expect(store.getSubscription(subscription.id)?.status).toBe(status);
+    }
+  );
+
+  it("pauses, resumes and cancels", () => {
+    const { id } = subscribe();
+
+    expect(store.transitionSubscription(id, "paused").status).toBe("paused");
+    expect(store.transitionSubscription(id, "active").status).toBe("active");
+    expect(store.transitionSubscription(id, "cancelled").status).toBe(
+      "cancelled"
+    );
+  });
+
+  it.each([
+    ["active", "active"],
+    ["paused", "paused"],
+  ] as const)("rejects moving from %s to %s", (from, to) => {
+    const { id } = subscribe();
+    if (from === "paused") {
+      store.transitionSubscription(id, "paused");
+    }
+    expect(() => store.transitionSubscription(id, to)).toThrow(
+      InvalidRequestError
+    );
+  });
+
+  it("keeps cancelled subscriptions cancelled", () => {
+    const { id } = subscribe();
+    store.transitionSubscription(id, "cancelled");
+
+    expect(() => store.transitionSubscription(id, "active")).toThrow(
+      "Cannot move subscription"
+    );
+    expect(() => store.transitionSubscription(id, "cancelled")).toThrow(
+      InvalidRequestError
+    );
+    expect(() => store.changeSubscriptionPlan(id, "team")).toThrow(
+      InvalidRequestError
+    );
+  });
+
+  it("changes the plan and quantity", () => {
+    const { id } = subscribe();
+    expect(store.changeSubscriptionPlan(id, "team", 3)).toMatchObject({
+      plan: "team",
+      quantity: 3,
+    });
+  });
+
+  it("lists a customer's subscriptions by status", () => {
+    const active = subscribe();
+    const paused = subscribe();
+    store.transitionSubscription(paused.id, "paused");
+
+    expect(
+      store
+        .listSubscriptions({ email: "jane@example.com" })
+        .map((subscription) => subscription.id)
+        .sort()
+    ).toEqual([active.id, paused.id].sort());
+    expect(
+      store.listSubscriptions({ email: "jane@example.com", status: "paused" })
+    ).toEqual([expect.objectContaining({ id: paused.id })]);
+    expect(store.listSubscriptions({ email: "other@example.com" })).toEqual([]);
+  });
+
+  it("throws NotFoundError for unknown subscriptions", () => {
+    expect(() => store.transitionSubscription("sub_missing", "paused")).toThrow(
+      NotFoundError
+    );
+  });
+});
+
+describe("refunds", () => {
+  function paidCharge(amount = 20) {
+    const checkout = openPayment(amount);
+    store.completeCheckout(checkout.id, "paid");
+    return checkout.chargeId!;
+  }
+
+  it("refunds part of a charge, then the rest", () => {
+    const paymentId = paidCharge();
+
+    expect(store.createRefund({ paymentId, amount: 5 }).amount).toBe(5);
+    expect(store.createRefund({ paymentId }).amount).toBe(15);
+    expect(store.getCharge(paymentId)?.refundedAmount).toBe(20);
+  });
+
+  it("rejects refunds above what is left", () => {
+    const paymentId = paidCharge();
+    store.createRefund({ paymentId, amount: 15 });
+
+    expect(() => store.createRefund({ paymentId, amount: 10 })).toThrow(
+      "exceeds the 5 left to refund"
+    );
+  });
+
+  it("only refunds succeeded charges", () => {
+    const checkout = openPayment();
+    expect(() => store.createRefund({ paymentId: checkout.chargeId! })).toThrow(
+      "payment is pending"
+    );
+    expect(() => store.createRefund({ paymentId: "ch_missing" })).toThrow(
+      NotFoundError
+    );
+  });
+});
+
+describe("state", () => {
+  it("returns copies from lookups", () => {
+    const checkout = openPayment();
+    store.getCharge(checkout.chargeId!)!.status = "succeeded";
+
+    expect(store.getCharge(checkout.chargeId!)?.status).toBe("pending");
+  });
+
+  it("restores snapshots and resets", () => {
+    const checkout = openPayment();
+    const snapshot = store.snapshot();
+    store.completeCheckout(checkout.id);
+
+    store.restore(snapshot);
+    expect(store.getCheckout(checkout.id)?.status).toBe("open");
+
+    store.reset();
+    expect(store.getCheckout(checkout.id)).toBeUndefined();
+  });
+});
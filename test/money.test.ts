@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatDecimalAmount,
+  fromMinorUnits,
+  getCurrencyExponent,
+  toMinorUnits,
+} from "../src/money.js";
+
+describe("getCurrencyExponent", () => {
+  it("reads the ISO 4217 exponent case-insensitively", () => {
+    expect(getCurrencyExponent("JPY")).toBe(0);
+    expect(getCurrencyExponent("usd")).toBe(2);
+    expect(getCurrencyExponent("KWD")).toBe(3);
+  });
+
+  it("falls back to two decimals for unknown or missing currencies", () => {
+    expect(getCurrencyExponent("XYZ")).toBe(2);
+    expect(getCurrencyExponent(undefined)).toBe(2);
+  });
+});
+
+describe("toMinorUnits", () => {
+  it.each([
+    [1000, "JPY", 1000],
+    [29.99, "USD", 2999],
+    [1.5, "KWD", 1500],
+    [0.1 + 0.2, "USD", 30],
+    [19.999, "USD", 2000],
+    [1.2345, "BHD", 1235],
+  ])("converts %s %s to %s", (amount, currency, expected) => {
+    expect(toMinorUnits(amount, currency)).toBe(expected);
+  });
+});
+
+describe("fromMinorUnits", () => {
+  it.each([
+    [1000, "JPY", 1000],
+    [2999, "USD", 29.99],
+    [1500, "KWD", 1.5],
+    [1, "KWD", 0.001],
+    ["2999", "EUR", 29.99],
+    [30, undefined, 0.3],
+  ])("converts %s %s to %s", (amount, currency, expected) => {
+    expect(fromMinorUnits(amount, currency)).toBe(expected);
+  });
+
+  it.each(["JPY", "USD", "KWD"])("round-trips amounts in %s", (currency) => {
+    for (const amount of [0, 1, 7, 123, 4567, 99999]) {
+      expect(toMinorUnits(fromMinorUnits(amount, currency), currency)).toBe(
+        amount
+      );
+    }
+  });
+});
+
+describe("formatDecimalAmount", () => {
+  it("uses the currency's precision", () => {
+    expect(formatDecimalAmount(1000, "JPY")).toBe("1000");
+    expect(formatDecimalAmount(10, "USD")).toBe("10.00");
+    expect(formatDecimalAmount(1.5, "KWD")).toBe("1.500");
+  });
+});
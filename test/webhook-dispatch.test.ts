@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { createWebhook, payment, silenceHandlerErrors } from "./helpers.js";
+
+silenceHandlerErrors();
+
+describe("await dispatch", () => {
+  it("responds once every handler has finished", async () => {
+    const webhook = createWebhook();
+    let finished = false;
+    webhook.onPaymentSuccess(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      finished = true;
+    });
+
+    expect(await webhook.process(payment())).toMatchObject({
+      status: 200,
+      body: { received: true },
+    });
+    expect(finished).toBe(true);
+  });
+
+  it("returns 500 when a handler throws and runs it again on redelivery", async () => {
+    const webhook = createWebhook();
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("database down"))
+      .mockResolvedValueOnce(undefined);
+    webhook.onPaymentSuccess(handler);
+    const delivery = payment();
+
+    expect(await webhook.process(delivery)).toMatchObject({
+      status: 500,
+      body: { received: false },
+    });
+    expect(await webhook.process(delivery)).toMatchObject({ status: 200 });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns 500 when a handler exceeds the timeout", async () => {
+    const webhook = createWebhook({ handlerTimeoutMs: 20 });
+    webhook.onPaymentSuccess(() => new Promise(() => undefined));
+
+    expect(await webhook.process(payment())).toMatchObject({ status: 500 });
+    expect(console.error).toHaveBeenCalledWith(
+      "Error in webhook handler for payment.success:",
+      expect.objectContaining({
+        message: expect.stringContaining("timed out after 20ms"),
+      })
+    );
+  });
+
+  it("skips handlers for a delivery that was already processed", async () => {
+    const webhook = createWebhook();
+    const handler = vi.fn();
+    webhook.onPaymentSuccess(handler);
+    const delivery = payment();
+
+    await webhook.process(delivery);
+    expect(await webhook.process(delivery)).toMatchObject({
+      status: 200,
+      body: { received: true, duplicate: true },
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers 409 while another delivery of the event is running", async () => {
+    const webhook = createWebhook();
+    let release!: () => void;
+    webhook.onPaymentSuccess(
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    const delivery = payment();
+
+    const first = webhook.process(delivery);
+    await vi.waitFor(() => expect(release).toBeDefined());
+    expect(await webhook.process(delivery)).toMatchObject({
+      status: 409,
+      body: { received: false },
+    });
+
+    release();
+    expect(await first).toMatchObject({ status: 200 });
+  });
+
+  it("runs handlers on every delivery without an event store", async () => {
+    const webhook = createWebhook({ eventStore: null });
+    const handler = vi.fn();
+    webhook.onPaymentSuccess(handler);
+    const delivery = payment();
+
+    await webhook.process(delivery);
+    await webhook.process(delivery);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("background dispatch", () => {
+  it("responds before handlers finish", async () => {
+    const webhook = createWebhook({ dispatch: "background" });
+    let release!: () => void;
+    const done = vi.fn();
+    webhook.onPaymentSuccess(async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      done();
+    });
+
+    expect(await webhook.process(payment())).toMatchObject({
+      status: 200,
+      body: { received: true },
+    });
+    expect(done).not.toHaveBeenCalled();
+
+    release();
+    await vi.waitFor(() => expect(done).toHaveBeenCalled());
+  });
+
+  it("logs handler errors and still marks the event as processed", async () => {
+    const webhook = createWebhook({ dispatch: "background" });
+    const handler = vi.fn().mockRejectedValue(new Error("boom"));
+    webhook.onPaymentSuccess(handler);
+    const delivery = payment();
+
+    expect(await webhook.process(delivery)).toMatchObject({ status: 200 });
+    await vi.waitFor(() =>
+      expect(console.error).toHaveBeenCalledWith(
+        "Error in webhook handler for payment.success:",
+        expect.any(Error)
+      )
+    );
+    expect(await webhook.process(delivery)).toMatchObject({
+      body: { duplicate: true },
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createWebhook,
+  delivery,
+  payment,
+  silenceHandlerErrors,
+} from "./helpers.js";
+
+const subscription = (type: string) =>
+  delivery(type, { subscriptionId: "sub_1" });
+
+silenceHandlerErrors();
+
+describe("on", () => {
+  it("matches exact types, groups, wildcards and arrays", async () => {
+    const webhook = createWebhook();
+    const calls: string[] = [];
+    webhook.on("subscription.created", () => void calls.push("exact"));
+    webhook.on("subscription.*", () => void calls.push("group"));
+    webhook.on("*", () => void calls.push("all"));
+    webhook.on(["payment.success", "subscription.created"], () => {
+      calls.push("array");
+    });
+
+    await webhook.process(subscription("subscription.created"));
+    expect(calls.sort()).toEqual(["all", "array", "exact", "group"]);
+
+    calls.length = 0;
+    await webhook.process(subscription("subscription.paused"));
+    expect(calls.sort()).toEqual(["all", "group"]);
+  });
+
+  it("returns a function that unregisters the handler", async () => {
+    const webhook = createWebhook();
+    const handler = vi.fn();
+    const unsubscribe = webhook.on("payment.success", handler);
+
+    unsubscribe();
+    await webhook.process(payment());
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("priority", () => {
+  it("runs higher priorities first and each priority to completion", async () => {
+    const webhook = createWebhook();
+    const calls: string[] = [];
+    const track =
+      (name: string, delayMs = 0) =>
+      async () => {
+        calls.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        calls.push(`${name}:end`);
+      };
+    webhook.on("payment.success", track("low"), { priority: -1 });
+    webhook.on("payment.success", track("default"));
+    webhook.on("payment.success", track("high-slow", 20), { priority: 10 });
+    webhook.on("payment.success", track("high-fast"), { priority: 10 });
+
+    await webhook.process(payment());
+    expect(calls).toEqual([
+      "high-slow:start",
+      "high-fast:start",
+      "high-fast:end",
+      "high-slow:end",
+      "default:start",
+      "default:end",
+      "low:start",
+      "low:end",
+    ]);
+  });
+
+  it("stops at the first priority with a failure", async () => {
+    const webhook = createWebhook();
+    const low = vi.fn();
+    webhook.on(
+      "payment.success",
+      () => {
+        throw new Error("audit failed");
+      },
+      { priority: 1 }
+    );
+    webhook.on("payment.success", low);
+
+    expect(await webhook.process(payment())).toMatchObject({ status: 500 });
+    expect(low).not.toHaveBeenCalled();
+  });
+});
+
+describe("once", () => {
+  it("runs for the first matching event only", async () => {
+    const webhook = createWebhook();
+    const handler = vi.fn();
+    webhook.once("payment.success", handler);
+
+    await webhook.process(payment());
+    await webhook.process(payment());
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("stays registered until it succeeds", async () => {
+    const webhook = createWebhook();
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("not yet"))
+      .mockResolvedValue(undefined);
+    webhook.once("payment.success", handler);
+
+    expect(await webhook.process(payment())).toMatchObject({ status: 500 });
+    expect(await webhook.process(payment())).toMatchObject({ status: 200 });
+    await webhook.process(payment());
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs for one event at a time", async () => {
+    const webhook = createWebhook();
+    let release!: () => void;
+    const handler = vi.fn(
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+    webhook.once("payment.success", handler);
+
+    const first = webhook.process(payment());
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    await webhook.process(payment());
+    release();
+    await first;
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("can be unregistered before it runs", async () => {
+    const webhook = createWebhook();
+    const handler = vi.fn();
+    const unsubscribe = webhook.once("payment.success", handler);
+
+    unsubscribe();
+    await webhook.process(payment());
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("off", () => {
+  it("removes a handler from the given patterns only", async () => {
+    const webhook = createWebhook();
+    const handler = vi.fn();
+    webhook.on(["payment.success", "subscription.created"], handler);
+
+    webhook.off("payment.success", handler);
+    await webhook.process(payment());
+    await webhook.process(subscription("subscription.created"));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "subscription.created" })
+    );
+  });
+
+  it("leaves other handlers for the pattern in place", async () => {
+    const webhook = createWebhook();
+    const removed = vi.fn();
+    const kept = vi.fn();
+    webhook.on("payment.success", removed);
+    webhook.on("payment.success", kept);
+
+    webhook.off("payment.success", removed);
+    await webhook.process(payment());
+    expect(removed).not.toHaveBeenCalled();
+    expect(kept).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("onUnhandled", () => {
+  it("runs when only catch-all handlers match", async () => {
+    const webhook = createWebhook();
+    const unhandled = vi.fn();
+    webhook.on("*", vi.fn());
+    webhook.onUnhandled(unhandled);
+
+    await webhook.process(delivery("customer.created"));
+    expect(unhandled).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "unknown",
+        providerEventType: "customer.created",
+      })
+    );
+  });
+
+  it("receives events missing a field their type guarantees", async () => {
+    const webhook = createWebhook();
+    const success = vi.fn();
+    const unhandled = vi.fn();
+    webhook.onPaymentSuccess(success);
+    webhook.onUnhandled(unhandled);
+
+    expect(
+      await webhook.process(delivery("payment.success", { currency: "USD" }))
+    ).toMatchObject({ status: 200 });
+    expect(success).not.toHaveBeenCalled();
+    expect(unhandled).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "unknown",
+        providerEventType: "payment.success",
+      })
+    );
+  });
+
+  it("doesn't run when a handler matches", async () => {
+    const webhook = createWebhook();
+    const unhandled = vi.fn();
+    webhook.onPaymentSuccess(vi.fn());
+    webhook.onUnhandled(unhandled);
+
+    await webhook.process(payment());
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,384 @@
+import { createHmac } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPayLayer, simulateWebhook } from "../src/index.js";
+import { StripeProvider } from "../src/providers/stripe.js";
+import { PaddleProvider } from "../src/providers/paddle.js";
+import { LemonSqueezyProvider } from "../src/providers/lemonsqueezy.js";
+import { PolarProvider } from "../src/providers/polar.js";
+import { PayPalProvider } from "../src/providers/paypal.js";
+import { MockProvider } from "../src/providers/mock.js";
+import { signStandardWebhook } from "../src/standard-webhooks.js";
+
+const payload = JSON.stringify({ id: "evt_1", type: "test.event" });
+const now = 1_700_000_000;
+
+function hmacHex(secret: string, message: string): string {
+  return createHmac("sha256", secret).update(message).digest("hex");
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("Stripe", () => {
+  const provider = new StripeProvider({ secretKey: "sk_test_123" });
+  const header = (body: string, timestamp: number, secret = "whsec_stripe") =>
+    `t=${timestamp},v1=${hmacHex(secret, `${timestamp}.${body}`)}`;
+
+  it("accepts a valid signature", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        header(payload, now),
+        "whsec_stripe",
+        {},
+        { now }
+      )
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects a tampered body", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload.replace("evt_1", "evt_2"),
+        header(payload, now),
+        "whsec_stripe",
+        {},
+        { now }
+      )
+    ).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+
+  it("rejects a timestamp outside the tolerance", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        header(payload, now - 301),
+        "whsec_stripe",
+        {},
+        { now }
+      )
+    ).toEqual({ valid: false, reason: "timestamp_expired" });
+  });
+});
+
+describe("Paddle", () => {
+  const provider = new PaddleProvider({ apiKey: "pdl_test" });
+  const header = (body: string, timestamp: number) =>
+    `ts=${timestamp};h1=${hmacHex("pdl_secret", `${timestamp}:${body}`)}`;
+
+  it("accepts a valid signature", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        header(payload, now),
+        "pdl_secret",
+        {},
+        { now }
+      )
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        header(payload, now),
+        "pdl_other",
+        {},
+        { now }
+      )
+    ).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+
+  it("rejects a timestamp outside the tolerance", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        header(payload, now + 301),
+        "pdl_secret",
+        {},
+        { now }
+      )
+    ).toEqual({ valid: false, reason: "timestamp_expired" });
+  });
+});
+
+describe("Lemon Squeezy", () => {
+  const provider = new LemonSqueezyProvider({ apiKey: "ls_test" });
+
+  it("accepts a valid signature", async () => {
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        hmacHex("ls_secret", payload),
+        "ls_secret"
+      )
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects a tampered body", async () => {
+    expect(
+      await provider.verifyWebhook(
+        `${payload} `,
+        hmacHex("ls_secret", payload),
+        "ls_secret"
+      )
+    ).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+});
+
+describe("Polar", () => {
+  const provider = new PolarProvider({ accessToken: "polar_test" });
+  const secret = "whsec_cG9sYXJzZWNyZXQ=";
+  const headers = { "webhook-id": "msg_1", "webhook-timestamp": String(now) };
+
+  it("accepts a valid signature", async () => {
+    const signature = await signStandardWebhook(payload, "msg_1", now, secret);
+    expect(
+      await provider.verifyWebhook(payload, signature, secret, headers, {
+        now,
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it("signs the id and timestamp along with the body", async () => {
+    const signature = await signStandardWebhook(payload, "msg_2", now, secret);
+    expect(
+      await provider.verifyWebhook(payload, signature, secret, headers, {
+        now,
+      })
+    ).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+
+  it("accepts any of several listed signatures", async () => {
+    const signature = [
+      await signStandardWebhook(payload, "msg_1", now, "whsec_b2xk"),
+      await signStandardWebhook(payload, "msg_1", now, secret),
+    ].join(" ");
+    expect(
+      await provider.verifyWebhook(payload, signature, secret, headers, {
+        now,
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects a timestamp outside the tolerance", async () => {
+    const signature = await signStandardWebhook(payload, "msg_1", now, secret);
+    expect(
+      await provider.verifyWebhook(payload, signature, secret, headers, {
+        now: now + 301,
+      })
+    ).toEqual({ valid: false, reason: "timestamp_expired" });
+  });
+});
+
+describe("PayPal", () => {
+  const headers = {
+    "paypal-auth-algo": "SHA256withRSA",
+    "paypal-cert-url":
+      "https://api.sandbox.paypal.com/v1/notifications/certs/CERT-1",
+    "paypal-transmission-id": "transmission-1",
+    "paypal-transmission-sig": "signature",
+    "paypal-transmission-time": new Date(now * 1000).toISOString(),
+  };
+
+  function stubPayPal(verify: (webhookId: string) => Response) {
+    const fetch = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith("/v1/oauth2/token")) {
+        return Response.json({ access_token: "token", expires_in: 3600 });
+      }
+      const body = JSON.parse(String(init.body)) as { webhook_id: string };
+      return verify(body.webhook_id);
+    });
+    vi.stubGlobal("fetch", fetch);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    return fetch;
+  }
+
+  function createProvider() {
+    return new PayPalProvider({
+      clientId: "client",
+      clientSecret: "secret",
+      sandbox: true,
+      maxRetries: 0,
+    });
+  }
+
+  it("asks PayPal to verify the transmission with the webhook ID", async () => {
+    const fetch = stubPayPal(() =>
+      Response.json({ verification_status: "SUCCESS" })
+    );
+    expect(
+      await createProvider().verifyWebhook(
+        payload,
+        "signature",
+        "WH-1",
+        headers
+      )
+    ).toEqual({ valid: true });
+    const [, init] = fetch.mock.calls[1];
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      webhook_id: "WH-1",
+      transmission_id: "transmission-1",
+      webhook_event: JSON.parse(payload),
+    });
+  });
+
+  it("rejects a transmission PayPal reports as failed", async () => {
+    stubPayPal(() => Response.json({ verification_status: "FAILURE" }));
+    expect(
+      await createProvider().verifyWebhook(
+        payload,
+        "signature",
+        "WH-1",
+        headers
+      )
+    ).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+
+  it("reports PayPal outages as verification_unavailable", async () => {
+    stubPayPal(() => new Response("unavailable", { status: 503 }));
+    expect(
+      await createProvider().verifyWebhook(
+        payload,
+        "signature",
+        "WH-1",
+        headers
+      )
+    ).toEqual({ valid: false, reason: "verification_unavailable" });
+  });
+
+  it("rejects deliveries without transmission headers", async () => {
+    stubPayPal(() => Response.json({ verification_status: "SUCCESS" }));
+    expect(
+      await createProvider().verifyWebhook(payload, "", "WH-1", {})
+    ).toEqual({ valid: false, reason: "missing_signature" });
+  });
+});
+
+describe("Mock", () => {
+  it("verifies Standard Webhooks signatures in paylayer headers", async () => {
+    const provider = new MockProvider();
+    const secret = "whsec_bW9ja3NlY3JldA==";
+    const signature = await signStandardWebhook(payload, "msg_1", now, secret);
+    const headers = {
+      "paylayer-webhook-id": "msg_1",
+      "paylayer-webhook-timestamp": String(now),
+    };
+    expect(
+      await provider.verifyWebhook(payload, signature, secret, headers, {
+        now,
+      })
+    ).toEqual({ valid: true });
+    expect(
+      await provider.verifyWebhook(
+        payload,
+        signature,
+        "whsec_b3RoZXI=",
+        headers,
+        {
+          now,
+        }
+      )
+    ).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+});
+
+describe("secret rotation", () => {
+  it.each([
+    ["stripe", { secretKey: "sk_test_123" }, "whsec_new", "whsec_old"],
+    ["paddle", { apiKey: "pdl_test" }, "pdl_new", "pdl_old"],
+    ["lemonsqueezy", { apiKey: "ls_test" }, "ls_new", "ls_old"],
+    [
+      "polar",
+      { accessToken: "polar_test" },
+      "whsec_bmV3c2VjcmV0",
+      "whsec_b2xkc2VjcmV0",
+    ],
+  ] as const)(
+    "%s accepts deliveries signed with any configured secret",
+    async (provider, config, newSecret, oldSecret) => {
+      vi.spyOn(console, "warn").mockImplementation(() => undefined);
+      const client = createPayLayer({
+        providers: {
+          [provider]: { ...config, webhookSecret: [newSecret, oldSecret] },
+        },
+      });
+      const handler = vi.fn();
+      client.webhook.onPaymentSuccess(handler);
+
+      const signedWithNew = await simulateWebhook({
+        provider,
+        type: "payment.success",
+        secret: newSecret,
+      });
+      const signedWithOld = await simulateWebhook({
+        provider,
+        type: "payment.success",
+        secret: oldSecret,
+      });
+      const signedWithOther = await simulateWebhook({
+        provider,
+        type: "payment.success",
+        secret: provider === "polar" ? "whsec_b3RoZXI=" : "other",
+      });
+
+      expect(await client.webhook.process(signedWithNew)).toMatchObject({
+        status: 200,
+        secretIndex: 0,
+      });
+      expect(await client.webhook.process(signedWithOld)).toMatchObject({
+        status: 200,
+        secretIndex: 1,
+      });
+      expect(await client.webhook.process(signedWithOther)).toMatchObject({
+        status: 401,
+        body: { received: false },
+        reason: "invalid_signature",
+      });
+      expect(handler).toHaveBeenCalledTimes(2);
+    }
+  );
+
+  it("paypal tries each configured webhook ID", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: RequestInit) => {
+        if (url.endsWith("/v1/oauth2/token")) {
+          return Response.json({ access_token: "token", expires_in: 3600 });
+        }
+        const { webhook_id } = JSON.parse(String(init.body)) as {
+          webhook_id: string;
+        };
+        return Response.json({
+          verification_status: webhook_id === "WH-OLD" ? "SUCCESS" : "FAILURE",
+        });
+      })
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const client = createPayLayer({
+      providers: {
+        paypal: {
+          clientId: "client",
+          clientSecret: "secret",
+          sandbox: true,
+          maxRetries: 0,
+          webhookId: ["WH-NEW", "WH-OLD"],
+        },
+      },
+    });
+    const request = await simulateWebhook({
+      provider: "paypal",
+      type: "payment.success",
+    });
+
+    expect(await client.webhook.process(request)).toMatchObject({
+      status: 200,
+      secretIndex: 1,
+    });
+  });
+});
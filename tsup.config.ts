@@ -7,7 +7,10 @@ const isWatch = process.argv.includes("--watch");
 const enableSourceMaps = isWatch || process.env.SOURCEMAP === "true";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    "mock-server": "src/bin/mock-server.ts",
+  },
   format: ["cjs", "esm"],
   dts: true,
   splitting: false,